@@ -9,9 +9,39 @@ import {
     BatchMetadata,
     BatchResult,
     BatchItemResult,
+    PromptInput,
+    MessageContent,
+    InvokeOptions,
+    ChatMessage,
+    ToolDefinition,
+    ToolInvocation,
+    ToolLoopResult,
+    ToolLoopStep,
+    ExecutionResult,
+    ExecutionMetadata,
+    NodeHooks,
+    RetryAttempt,
 } from "./types";
-import { ILLMProvider, ProviderBatchRequest } from "./providers/ILLMProvider";
+import { ILLMProvider, LLMResponse, ProviderBatchRequest } from "./providers/ILLMProvider";
 import { createProvider } from "./modelFactory";
+import { estimateTokens, promptToText, toChatMessages } from "./messages";
+import { concatContent, isContentPart } from "./content";
+import { executeToolCall, formatToolResult, toToolSpec } from "./tools";
+import { withRetry } from "./retry";
+import { resolveRateLimiter } from "./rateLimiter";
+import { CacheConfig, createCacheKey, readCachedResponse, writeCachedResponse } from "./cache";
+import { Budget, BudgetReservation, getActiveBudgets, reserveBudgets } from "./budget";
+import { CostReport, calculateCost, estimateCost, getModelPricing } from "./pricing";
+import { Span, SpanAttributes, Tracer, traceSpan, usageAttributes } from "./tracing";
+import {
+    addTokenUsage,
+    normalizeTokenUsage,
+    recordExecutionCall,
+    recordExecutionUsage,
+    sumTokenUsage,
+    trackExecution,
+    trackUsage,
+} from "./executionContext";
 
 /**
  * LLMNode encapsulates an LLM interaction with prompt templating and response parsing
@@ -23,6 +53,11 @@ export class LLMNode<TInput, TOutput> implements IExecutable<TInput, TOutput> {
     protected parser: ResponseParser<TOutput>;
     protected llmConfig: LLMConfig;
     protected usageRecords: UsageRecord[] = [];
+    protected tools: ToolDefinition[];
+    protected maxToolIterations: number;
+    protected budget?: Budget;
+    protected hooks: NodeHooks;
+    protected tracer?: Tracer;
 
     constructor(options: BaseNodeOptions<TInput, TOutput>) {
         this.promptTemplate = options.promptTemplate;
@@ -39,8 +74,36 @@ export class LLMNode<TInput, TOutput> implements IExecutable<TInput, TOutput> {
 
         this.llmConfig = config;
 
-        // Initialize provider from config using the factory
-        this.provider = createProvider(config);
+        // Use the supplied provider, or initialize one from config using the factory
+        this.provider = options.provider ?? createProvider(config);
+
+        this.tools = options.tools ?? [];
+        this.maxToolIterations = options.maxToolIterations ?? 5;
+        this.budget =
+            options.budget instanceof Budget || options.budget === undefined
+                ? options.budget
+                : new Budget(options.budget);
+        this.hooks = options.hooks ?? {};
+        this.tracer = options.tracer;
+
+        // Trace every execution in a node span, including executions of
+        // subclasses that override execute()
+        const execute = this.execute;
+        this.execute = (input: TInput) =>
+            traceSpan(
+                this.tracer,
+                `node ${this.constructor.name}`,
+                { attributes: this.spanAttributes() },
+                () => execute.call(this, input)
+            );
+
+        const toolNames = new Set<string>();
+        for (const tool of this.tools) {
+            if (toolNames.has(tool.name)) {
+                throw new Error(`Duplicate tool name: '${tool.name}'`);
+            }
+            toolNames.add(tool.name);
+        }
     }
 
     /**
@@ -61,35 +124,74 @@ export class LLMNode<TInput, TOutput> implements IExecutable<TInput, TOutput> {
      * Generate the prompt from the input data.
      * Calls the input preprocessor if provided.
      */
-    protected generatePrompt(input: TInput): string {
+    protected generatePrompt(input: TInput): MessageContent {
         // Preprocess the input if a preprocessor is provided
         if (this.inputPreprocessor) {
             input = this.inputPreprocessor(input);
         }
 
+        return this.renderTemplate(this.promptTemplate, input);
+    }
+
+    /**
+     * Render a prompt template for an already preprocessed input.
+     * Variables that evaluate to a content part or a list of parts (an image
+     * or PDF) are placed in the prompt as parts, and the result is then a list
+     * of content parts instead of a string.
+     *
+     * @param template The template to render
+     * @param input The input data
+     * @param evaluateExpressions Evaluate variables as expressions such as
+     *   "keywords.join(', ')"; otherwise only look up input properties (default: true)
+     */
+    protected renderTemplate(
+        template: PromptTemplate<TInput>,
+        input: any,
+        evaluateExpressions: boolean = true
+    ): MessageContent {
         // If the prompt template is a function, call it with the input
-        if (typeof this.promptTemplate === "function") {
-            return this.promptTemplate(input);
+        if (typeof template === "function") {
+            return template(input);
         }
 
+        const pieces: MessageContent[] = [];
+        let lastIndex = 0;
+
         // Simple variable substitution for string templates
-        return this.promptTemplate.replace(/\{\{([^}]+)\}\}/g, (_, key) => {
-            try {
-                // The expression could be complex like "keywords.join(', ')"
-                // eslint-disable-next-line no-new-func
-                const evalFn = new Function("input", `return ${key}`);
-                return String(evalFn(input) ?? "");
-            } catch (e) {
-                // If evaluation fails, fall back to simple object property access
-                return String((input as any)[key] ?? "");
+        for (const match of template.matchAll(/\{\{([^}]+)\}\}/g)) {
+            pieces.push(template.slice(lastIndex, match.index));
+            lastIndex = match.index! + match[0].length;
+
+            const key = match[1];
+            let value: any = input?.[key];
+            if (evaluateExpressions) {
+                try {
+                    // The expression could be complex like "keywords.join(', ')"
+                    // eslint-disable-next-line no-new-func
+                    const evalFn = new Function("input", `return ${key}`);
+                    value = evalFn(input);
+                } catch (e) {
+                    // If evaluation fails, fall back to simple object property access
+                }
             }
-        });
+
+            if (isContentPart(value)) {
+                pieces.push([value]);
+            } else if (Array.isArray(value) && value.length > 0 && value.every(isContentPart)) {
+                pieces.push(value);
+            } else {
+                pieces.push(String(value ?? ""));
+            }
+        }
+        pieces.push(template.slice(lastIndex));
+
+        return concatContent(pieces, "");
     }
 
     /**
      * Get the formatted prompt for this node
      */
-    getPrompt(input: TInput): PromptTemplate<TInput> {
+    getPrompt(input: TInput): MessageContent {
         return this.generatePrompt(input);
     }
 
@@ -99,36 +201,426 @@ export class LLMNode<TInput, TOutput> implements IExecutable<TInput, TOutput> {
     async execute(input: TInput): Promise<TOutput> {
         const promptText = this.generatePrompt(input);
 
+        if (this.tools.length > 0) {
+            return (await this.runToolLoop(promptText)).output;
+        }
+
         // Use provider's invoke method
-        const response = await this.provider.invoke(promptText, this.llmConfig);
+        const response = await this.invokeProvider(promptText);
+
+        // Parse and return
+        return this.parse(response.content);
+    }
+
+    /**
+     * Parse a response with the node's parser, or the given one, reporting
+     * parse errors to the onParseError hook before rethrowing them
+     */
+    protected parse(rawOutput: string): TOutput;
+    protected parse<T>(rawOutput: string, parser: (rawOutput: string) => T): T;
+    protected parse(rawOutput: string, parser: (rawOutput: string) => any = this.parser): any {
+        try {
+            return parser(rawOutput);
+        } catch (error) {
+            this.hooks.onParseError?.({ error, rawOutput });
+            throw error;
+        }
+    }
+
+    /**
+     * Execute this node and return the output together with the usage of
+     * every LLM call made for this input only, including calls made by
+     * nested nodes. Safe to use while the node serves other calls
+     * concurrently; the node's shared usageRecords are still updated.
+     */
+    async executeWithUsage(input: TInput): Promise<ExecutionResult<TOutput>> {
+        return trackUsage(() => this.execute(input));
+    }
+
+    /**
+     * Execute this node and return the output together with the LLM response
+     * it was parsed from: raw completion, thinking, stop reason, citations,
+     * web sources, provider response, usage, latency and retry counts. Every LLM call made for this
+     * input is listed in `calls`, for audit trails.
+     */
+    async executeWithMetadata(input: TInput): Promise<ExecutionMetadata<TOutput>> {
+        const startTime = Date.now();
+        const { output, context } = await trackExecution(() => this.execute(input));
+        const finalCall = context.calls[context.calls.length - 1];
+        const sources = [
+            ...new Map(
+                context.calls.flatMap((call) => call.sources ?? []).map((source) => [source.url, source])
+            ).values(),
+        ];
+
+        return {
+            output,
+            executionId: context.id,
+            usageRecords: [...context.usageRecords],
+            tokenUsage: sumTokenUsage(context.usageRecords),
+            rawOutput: finalCall?.content ?? "",
+            ...(finalCall?.thinking && { thinking: finalCall.thinking }),
+            ...(finalCall?.stopReason && { stopReason: finalCall.stopReason }),
+            ...(finalCall?.citations && { citations: finalCall.citations }),
+            ...(sources.length > 0 && { sources }),
+            ...(finalCall?.raw !== undefined && { raw: finalCall.raw }),
+            provider: finalCall?.provider ?? this.llmConfig.provider,
+            model: finalCall?.model ?? this.llmConfig.model,
+            latencyMs: Date.now() - startTime,
+            retryCount: context.retryCount,
+            providerRetries: context.calls.reduce((total, call) => total + call.retries, 0),
+            calls: [...context.calls],
+        };
+    }
+
+    /**
+     * Execute this node and return the output together with every tool call
+     * made along the way and the token usage of each LLM call
+     */
+    async executeWithTools(input: TInput): Promise<ToolLoopResult<TOutput>> {
+        return this.runToolLoop(this.generatePrompt(input));
+    }
+
+    /**
+     * Run the tool-execution loop: call the model with the node's tools, run
+     * any tools it requests, send the results back and repeat until it gives a
+     * final answer. Once maxToolIterations calls have requested tools, the
+     * next call disables tools so the model has to answer.
+     *
+     * Tools requested in the same response run concurrently. Tool errors are
+     * sent back to the model as the tool result rather than thrown.
+     */
+    protected async runToolLoop(prompt: PromptInput): Promise<ToolLoopResult<TOutput>> {
+        const toolSpecs = this.tools.map(toToolSpec);
+        const messages: ChatMessage[] = [...toChatMessages(prompt)];
+        const steps: ToolLoopStep[] = [];
+        const toolInvocations: ToolInvocation[] = [];
+        const tokenUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+        for (let iteration = 0; ; iteration++) {
+            const reachedMaxIterations = iteration >= this.maxToolIterations;
+            const options: InvokeOptions | undefined =
+                toolSpecs.length > 0
+                    ? {
+                          tools: toolSpecs,
+                          ...(reachedMaxIterations && { toolChoice: "none" as const }),
+                      }
+                    : undefined;
+
+            const response = await this.invokeProvider(messages, options);
+
+            const stepUsage = normalizeTokenUsage(response.usage);
+            addTokenUsage(tokenUsage, stepUsage);
+
+            const toolCalls = reachedMaxIterations ? [] : response.toolCalls ?? [];
+            if (toolCalls.length === 0) {
+                steps.push({ iteration, toolInvocations: [], tokenUsage: stepUsage });
+                return {
+                    output: this.parse(response.content),
+                    toolInvocations,
+                    steps,
+                    tokenUsage,
+                    reachedMaxIterations,
+                };
+            }
+
+            const stepInvocations = await Promise.all(
+                toolCalls.map((call) => executeToolCall(this.tools, call, iteration))
+            );
+
+            messages.push({
+                role: "assistant",
+                content: response.content,
+                toolCalls,
+                ...(response.thinkingBlocks && { thinkingBlocks: response.thinkingBlocks }),
+            });
+            for (const invocation of stepInvocations) {
+                messages.push({
+                    role: "tool",
+                    content: formatToolResult(invocation),
+                    toolCallId: invocation.id,
+                    name: invocation.name,
+                });
+            }
+
+            toolInvocations.push(...stepInvocations);
+            steps.push({ iteration, toolInvocations: stepInvocations, tokenUsage: stepUsage });
+        }
+    }
+
+    /**
+     * Send a prompt to the provider and record the token usage of the call.
+     * Subclasses that drive their own multi-call flows should use this instead
+     * of calling the provider directly so every call lands in usageRecords.
+     */
+    protected async invokeProvider(
+        prompt: PromptInput,
+        options?: InvokeOptions
+    ): Promise<LLMResponse> {
+        return traceSpan(
+            this.tracer,
+            `chat ${this.llmConfig.model}`,
+            { kind: "client", attributes: this.spanAttributes() },
+            (span) => this.callProvider(prompt, options, span)
+        );
+    }
+
+    /**
+     * Make the provider call of invokeProvider: serve it from the cache or
+     * send it within the budgets, rate limits and retry policy, then record
+     * its usage on the node, the execution context, the hooks and the span
+     */
+    private async callProvider(
+        prompt: PromptInput,
+        options: InvokeOptions | undefined,
+        span?: Span
+    ): Promise<LLMResponse> {
+        this.hooks.beforePrompt?.({ prompt, ...(options && { options }) });
+        const startTime = Date.now();
+
+        // Serve repeated requests from the cache when one is configured
+        const cache = this.llmConfig.cache;
+        const cacheKey = cache && createCacheKey(prompt, this.llmConfig, options);
+        let cached: LLMResponse | undefined;
+        if (cacheKey) {
+            try {
+                cached = await readCachedResponse(cache!, cacheKey);
+            } catch (error) {
+                // An unavailable cache is treated as a miss
+                this.reportCacheError(cache!, "read", error, span);
+            }
+        }
+
+        let retries = 0;
+        let response: LLMResponse;
+        if (cached) {
+            response = { ...cached, usage: { inputTokens: 0, outputTokens: 0 } };
+        } else {
+            const reservation = this.reserveBudget(prompt);
+            try {
+                response = await withRetry(
+                    () => this.throttle(prompt, () => this.provider.invoke(prompt, this.llmConfig, options)),
+                    this.llmConfig.retry,
+                    (attempt) => {
+                        retries++;
+                        this.reportRetry(attempt, span);
+                    }
+                );
+            } catch (error) {
+                reservation.cancel();
+                throw error;
+            }
+            this.settleBudget(reservation, response.usage);
+        }
+        const latencyMs = Date.now() - startTime;
+
+        if (cacheKey && !cached) {
+            try {
+                await writeCachedResponse(cache!, cacheKey, response);
+            } catch (error) {
+                // The response is still good; a failed write only costs a later cache miss
+                this.reportCacheError(cache!, "write", error, span);
+            }
+        }
 
-        // Record token usage
+        // Record token usage; cache hits are recorded with zero tokens
+        const tokenUsage = normalizeTokenUsage(response.usage);
         if (response.usage) {
-            const tokenUsage: TokenUsage = {
-                inputTokens: response.usage.inputTokens,
-                outputTokens: response.usage.outputTokens,
-                thinkingTokens: response.usage.thinkingTokens,
-                searchCount: response.usage.searchCount,
-            };
-            this.recordUsage(tokenUsage);
+            this.recordUsage(tokenUsage, { retries, cacheHit: cached !== undefined });
         }
 
-        // Parse and return
-        return this.parser(response.content);
+        // Keep the full response for executeWithMetadata
+        recordExecutionCall({
+            timestamp: new Date(startTime),
+            provider: this.llmConfig.provider,
+            model: this.llmConfig.model,
+            content: response.content,
+            ...(response.thinking && { thinking: response.thinking }),
+            ...(response.toolCalls && { toolCalls: response.toolCalls }),
+            ...(response.stopReason && { stopReason: response.stopReason }),
+            ...(response.citations && { citations: response.citations }),
+            ...(response.sources && { sources: response.sources }),
+            tokenUsage,
+            latencyMs,
+            retries,
+            ...(cached && { cacheHit: true }),
+            ...(response.raw !== undefined && { raw: response.raw }),
+        });
+
+        span?.setAttributes({
+            ...usageAttributes(tokenUsage),
+            "gen_ai.response.finish_reasons": response.stopReason,
+            "llm_nodes.latency_ms": latencyMs,
+            "llm_nodes.retries": retries,
+            "llm_nodes.cache_hit": cached !== undefined,
+        });
+        this.hooks.afterResponse?.({
+            prompt,
+            response,
+            tokenUsage,
+            latencyMs,
+            retries,
+            cacheHit: cached !== undefined,
+        });
+
+        return response;
+    }
+
+    /**
+     * Report a retry of a failed provider call to the onRetry hook and as an
+     * event on the call's span
+     */
+    protected reportRetry(attempt: RetryAttempt, span?: Span): void {
+        span?.addEvent("retry", {
+            "llm_nodes.retry.attempt": attempt.attempt,
+            "llm_nodes.retry.delay_ms": Math.round(attempt.delayMs),
+            "exception.message":
+                attempt.error instanceof Error ? attempt.error.message : String(attempt.error),
+        });
+        this.hooks.onRetry?.(attempt);
+    }
+
+    /**
+     * Attributes that identify this node and its model on spans, following
+     * the OpenTelemetry GenAI conventions where they apply
+     */
+    protected spanAttributes(): SpanAttributes {
+        return {
+            "llm_nodes.node": this.constructor.name,
+            "gen_ai.system": this.llmConfig.provider,
+            "gen_ai.request.model": this.llmConfig.model,
+            "gen_ai.request.max_tokens": this.llmConfig.maxTokens,
+            "gen_ai.request.temperature": this.llmConfig.temperature,
+        };
+    }
+
+    /**
+     * Run a provider call once the rate limiter configured in llmConfig
+     * allows it. The call is admitted with an estimate of its tokens, which
+     * is replaced by its reported usage when it finishes.
+     */
+    protected throttle(
+        prompt: PromptInput,
+        call: () => Promise<LLMResponse>
+    ): Promise<LLMResponse> {
+        const limiter = resolveRateLimiter(this.llmConfig);
+        if (!limiter) {
+            return call();
+        }
+        return limiter.run(
+            call,
+            this.estimateRequestTokens(prompt),
+            (response) =>
+                response.usage && response.usage.inputTokens + response.usage.outputTokens
+        );
+    }
+
+    /**
+     * Report a failed cache read or write to the span and the cache's onError
+     */
+    private reportCacheError(
+        cache: CacheConfig,
+        operation: "read" | "write",
+        error: unknown,
+        span?: Span
+    ): void {
+        span?.addEvent(`cache_${operation}_failed`, {
+            "exception.message": error instanceof Error ? error.message : String(error),
+        });
+        if (cache.onError) {
+            cache.onError(error);
+        } else {
+            console.warn(`Failed to ${operation} the LLM response cache:`, error);
+        }
+    }
+
+    /**
+     * Reserve the worst case of a call on the node's budget and the budgets
+     * of enclosing withBudget calls: the estimated prompt plus the maximum
+     * output, priced with the model's pricing
+     *
+     * @throws Error if a budget is active and the maximum output is unknown
+     * @throws BudgetExceededError if the call could go over a budget
+     */
+    protected reserveBudget(prompt: PromptInput): BudgetReservation {
+        const budgets = [...getActiveBudgets(), ...(this.budget ? [this.budget] : [])];
+        const maxOutputTokens = this.maxOutputTokens();
+        if (budgets.length > 0 && maxOutputTokens === undefined) {
+            throw new Error(
+                `maxTokens is required to use a budget with ${this.llmConfig.provider} model ` +
+                    `'${this.llmConfig.model}': its maximum output is unknown`
+            );
+        }
+        const usage: TokenUsage = {
+            inputTokens: estimateTokens(promptToText(prompt)),
+            outputTokens: maxOutputTokens ?? 0,
+        };
+        return reserveBudgets(
+            budgets,
+            usage.inputTokens + usage.outputTokens,
+            this.costOf(usage)
+        );
+    }
+
+    /**
+     * Settle a budget reservation with the usage the provider reported
+     */
+    protected settleBudget(reservation: BudgetReservation, usage?: TokenUsage): void {
+        reservation.commit(
+            (usage?.inputTokens ?? 0) + (usage?.outputTokens ?? 0),
+            usage ? this.costOf(usage) : 0
+        );
+    }
+
+    /**
+     * Cost of token usage with this node's model, or 0 if it has no known pricing
+     */
+    protected costOf(usage: TokenUsage): number {
+        const pricing = getModelPricing(this.llmConfig.provider, this.llmConfig.model);
+        return pricing ? estimateCost(usage, pricing).total : 0;
+    }
+
+    /**
+     * Estimate the tokens a request may use for rate limiting: the prompt
+     * plus maxTokens
+     */
+    protected estimateRequestTokens(prompt: PromptInput): number {
+        return estimateTokens(promptToText(prompt)) + (this.llmConfig.maxTokens ?? 0);
+    }
+
+    /**
+     * The most output tokens a call can produce, for budget reservations:
+     * maxTokens when set, otherwise the model's maximum output from its
+     * pricing, or undefined if unknown
+     */
+    protected maxOutputTokens(): number | undefined {
+        return (
+            this.llmConfig.maxTokens ??
+            getModelPricing(this.llmConfig.provider, this.llmConfig.model)?.maxOutputTokens
+        );
     }
 
     /**
      * Record token usage from a model response
+     *
+     * @param tokenUsage The usage reported for the call
+     * @param details.retries Failed attempts retried before the call succeeded
+     * @param details.cacheHit Whether the response was served from the cache
      */
-    protected recordUsage(tokenUsage: TokenUsage): void {
+    protected recordUsage(
+        tokenUsage: TokenUsage,
+        details: { retries?: number; cacheHit?: boolean } = {}
+    ): void {
         const record: UsageRecord = {
             timestamp: new Date(),
             provider: this.llmConfig.provider,
             model: this.llmConfig.model,
             tokenUsage: tokenUsage,
+            ...(details.retries && { retries: details.retries }),
+            ...(details.cacheHit && { cacheHit: true }),
         };
 
-        this.usageRecords.push(record);
+        this.usageRecords.push(recordExecutionUsage(record));
     }
 
     /**
@@ -142,17 +634,7 @@ export class LLMNode<TInput, TOutput> implements IExecutable<TInput, TOutput> {
      * Get total token usage
      */
     getTotalTokenUsage(): TokenUsage & { totalTokens: number } {
-        const usage = this.usageRecords.reduce(
-            (total, record) => {
-                return {
-                    inputTokens:
-                        total.inputTokens + record.tokenUsage.inputTokens,
-                    outputTokens:
-                        total.outputTokens + record.tokenUsage.outputTokens,
-                };
-            },
-            { inputTokens: 0, outputTokens: 0 }
-        );
+        const usage = sumTokenUsage(this.usageRecords);
 
         return {
             ...usage,
@@ -160,6 +642,13 @@ export class LLMNode<TInput, TOutput> implements IExecutable<TInput, TOutput> {
         };
     }
 
+    /**
+     * Get the cost of all recorded usage, in total and per provider and model
+     */
+    getTotalCost(): CostReport {
+        return calculateCost(this.usageRecords);
+    }
+
     /**
      * Clear usage records
      */
@@ -179,12 +668,21 @@ export class LLMNode<TInput, TOutput> implements IExecutable<TInput, TOutput> {
             );
         }
 
-        const requests: ProviderBatchRequest[] = inputs.map((input, i) => ({
-            customId: `req-${i}`,
-            prompt: this.generatePrompt(input),
-        }));
+        const requests: ProviderBatchRequest[] = inputs.map((input, i) => {
+            const prompt = this.generatePrompt(input);
+            if (typeof prompt !== "string") {
+                throw new Error(
+                    `Batch processing only supports text prompts; input ${i} produced images or documents.`
+                );
+            }
+            return { customId: `req-${i}`, prompt };
+        });
 
-        return this.provider.createBatch!(requests, this.llmConfig);
+        return withRetry(
+            () => this.provider.createBatch!(requests, this.llmConfig),
+            this.llmConfig.retry,
+            (attempt) => this.reportRetry(attempt)
+        );
     }
 
     /**
@@ -199,7 +697,11 @@ export class LLMNode<TInput, TOutput> implements IExecutable<TInput, TOutput> {
             );
         }
 
-        const providerResponse = await this.provider.retrieveBatch(metadata, this.llmConfig);
+        const providerResponse = await withRetry(
+            () => this.provider.retrieveBatch!(metadata, this.llmConfig),
+            this.llmConfig.retry,
+            (attempt) => this.reportRetry(attempt)
+        );
 
         // If not completed, pass through status and counts
         if (providerResponse.status !== "completed" || !providerResponse.results) {
@@ -226,7 +728,7 @@ export class LLMNode<TInput, TOutput> implements IExecutable<TInput, TOutput> {
 
             // Attempt to parse through the node's parser
             try {
-                const output = this.parser(providerItem.content);
+                const output = this.parse(providerItem.content);
                 return {
                     index,
                     status: "success" as const,
@@ -252,8 +754,7 @@ export class LLMNode<TInput, TOutput> implements IExecutable<TInput, TOutput> {
         const aggregateUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
         for (const item of results) {
             if (item.tokenUsage) {
-                aggregateUsage.inputTokens += item.tokenUsage.inputTokens;
-                aggregateUsage.outputTokens += item.tokenUsage.outputTokens;
+                addTokenUsage(aggregateUsage, item.tokenUsage);
             }
         }
         this.recordUsage(aggregateUsage);
@@ -274,15 +775,17 @@ export class LLMNode<TInput, TOutput> implements IExecutable<TInput, TOutput> {
     > & {
         getUsageRecords(): UsageRecord[];
         getTotalTokenUsage(): TokenUsage & { totalTokens: number };
+        getTotalCost(): CostReport;
     } {
         const self = this;
 
         // Create pipeline with token usage tracking
         return {
-            execute: async (input: TInput): Promise<TNextOutput> => {
-                const intermediateResult = await self.execute(input);
-                return nextNode.execute(intermediateResult);
-            },
+            execute: (input: TInput): Promise<TNextOutput> =>
+                traceSpan(self.tracer, "pipeline", {}, async () => {
+                    const intermediateResult = await self.execute(input);
+                    return nextNode.execute(intermediateResult);
+                }),
 
             getUsageRecords(): UsageRecord[] {
                 const records = [...self.getUsageRecords()];
@@ -295,14 +798,17 @@ export class LLMNode<TInput, TOutput> implements IExecutable<TInput, TOutput> {
             getTotalTokenUsage(): TokenUsage & { totalTokens: number } {
                 const usage = self.getTotalTokenUsage();
                 if ("getTotalTokenUsage" in nextNode) {
-                    const nextUsage = (nextNode as any).getTotalTokenUsage();
-                    usage.inputTokens += nextUsage.inputTokens;
-                    usage.outputTokens += nextUsage.outputTokens;
+                    const { totalTokens, ...nextUsage } = (nextNode as any).getTotalTokenUsage();
+                    addTokenUsage(usage, nextUsage);
                     // Recompute total tokens
                     usage.totalTokens = usage.inputTokens + usage.outputTokens;
                 }
                 return usage;
             },
+
+            getTotalCost(): CostReport {
+                return calculateCost(this.getUsageRecords());
+            },
         };
     }
 }
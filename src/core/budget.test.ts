@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { Budget, BudgetExceededError, withBudget } from "./budget";
+import { LLMNode } from "./LLMNode";
+import { registerModelPricing, unregisterModelPricing } from "./pricing";
+import { MockProvider } from "./providers/MockProvider";
+import { RateLimiter } from "./rateLimiter";
+import { LLMConfig } from "./types";
+import { textParser } from "../parsers/structured";
+
+function createNode(llmConfig: LLMConfig, provider: MockProvider, budget?: Budget) {
+    return new LLMNode<{}, string>({
+        promptTemplate: "Say something",
+        llmConfig,
+        parser: textParser(),
+        provider,
+        budget,
+    });
+}
+
+describe("Budget", () => {
+    afterEach(() => {
+        unregisterModelPricing("mock", "priced-model");
+    });
+
+    it("refuses a reservation that would go over a limit", () => {
+        const budget = new Budget({ maxTokens: 100, name: "test" });
+        budget.reserve(60, 0);
+
+        expect(() => budget.reserve(50, 0)).toThrow(BudgetExceededError);
+        expect(budget.spentTokens).toBe(60);
+    });
+
+    it("settles reservations with the actual spend", () => {
+        const budget = new Budget({ maxCostUsd: 1 });
+        const committed = budget.reserve(100, 0.5);
+        const cancelled = budget.reserve(100, 0.25);
+
+        committed.commit(40, 0.1);
+        cancelled.cancel();
+
+        expect(budget.spentTokens).toBe(40);
+        expect(budget.spentCostUsd).toBeCloseTo(0.1);
+    });
+
+    it("refuses a call before it is made when its worst case is over the limit", async () => {
+        const provider = new MockProvider({ defaultResponse: "hello" });
+        const node = createNode(
+            { provider: "mock", model: "mock-model", maxTokens: 50 },
+            provider,
+            new Budget({ maxTokens: 20 })
+        );
+
+        await expect(node.execute({})).rejects.toThrow(BudgetExceededError);
+        expect(provider.getCalls()).toHaveLength(0);
+    });
+
+    it("reserves the model's maximum output when maxTokens is unset", async () => {
+        registerModelPricing("mock", "priced-model", {
+            inputPerMillion: 1,
+            outputPerMillion: 2,
+            maxOutputTokens: 1000,
+        });
+        const provider = new MockProvider({ defaultResponse: "x".repeat(80) });
+        const node = createNode(
+            { provider: "mock", model: "priced-model" },
+            provider,
+            new Budget({ maxTokens: 20 })
+        );
+
+        await expect(node.execute({})).rejects.toThrow(BudgetExceededError);
+        expect(provider.getCalls()).toHaveLength(0);
+    });
+
+    it("requires maxTokens when the model's maximum output is unknown", async () => {
+        const provider = new MockProvider({ defaultResponse: "x".repeat(80) });
+        const node = createNode({ provider: "mock", model: "mock-model" }, provider);
+
+        await expect(
+            withBudget(new Budget({ maxTokens: 20 }), () => node.execute({}))
+        ).rejects.toThrow(/maxTokens is required/);
+        expect(provider.getCalls()).toHaveLength(0);
+    });
+
+    it("charges every call inside withBudget to the budget with its actual usage", async () => {
+        const provider = new MockProvider({
+            defaultResponse: { content: "hello", usage: { inputTokens: 10, outputTokens: 5 } },
+        });
+        const node = createNode({ provider: "mock", model: "mock-model", maxTokens: 50 }, provider);
+        const budget = new Budget({ maxTokens: 100 });
+
+        await withBudget(budget, () => node.pipe(node).execute({}));
+
+        expect(budget.spentTokens).toBe(30);
+    });
+
+    it("keeps the model's maximum output out of rate-limit estimates", async () => {
+        registerModelPricing("mock", "priced-model", {
+            inputPerMillion: 1,
+            outputPerMillion: 2,
+            maxOutputTokens: 1000,
+        });
+        const limiter = new RateLimiter({ tokensPerMinute: 100 });
+        const acquire = jest.spyOn(limiter, "acquire");
+        const node = createNode(
+            { provider: "mock", model: "priced-model", rateLimit: limiter },
+            new MockProvider({ defaultResponse: "hello" })
+        );
+
+        await node.execute({});
+
+        expect(acquire.mock.calls[0][0]).toBeLessThan(100);
+    });
+
+    it("does not require maxTokens without a budget", async () => {
+        const provider = new MockProvider({ defaultResponse: "hello" });
+        const node = createNode({ provider: "mock", model: "mock-model" }, provider);
+
+        await expect(node.execute({})).resolves.toBe("hello");
+    });
+});
@@ -0,0 +1,195 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+/**
+ * Spending limits for a Budget; omitted limits are not enforced
+ */
+export interface BudgetLimits {
+    maxCostUsd?: number;
+    maxTokens?: number; // Input + output tokens
+    name?: string; // Shown in error messages
+}
+
+/**
+ * Thrown before an LLM call that could take a budget over its limit.
+ * The call is not made.
+ */
+export class BudgetExceededError extends Error {
+    /**
+     * @param budget The budget that would be exceeded
+     * @param kind The limit that would be exceeded
+     * @param limit The limit
+     * @param spent Amount spent or reserved by earlier calls
+     * @param requested Worst-case amount of the call that was refused
+     */
+    constructor(
+        readonly budget: Budget,
+        readonly kind: "cost" | "tokens",
+        readonly limit: number,
+        readonly spent: number,
+        readonly requested: number
+    ) {
+        const amount = (value: number) =>
+            kind === "cost" ? `$${value.toFixed(4)}` : `${value} tokens`;
+        super(
+            `Budget${budget.name ? ` '${budget.name}'` : ""} exceeded: ` +
+                `${amount(spent)} spent, the next call may use up to ${amount(requested)}, ` +
+                `limit is ${amount(limit)}`
+        );
+        this.name = "BudgetExceededError";
+    }
+}
+
+/**
+ * A reservation of worst-case spend for one call, made before the call and
+ * settled with the actual spend afterwards
+ */
+export interface BudgetReservation {
+    /**
+     * Replace the reserved amounts with what the call actually used
+     */
+    commit(tokens: number, costUsd: number): void;
+
+    /**
+     * Release the reservation of a call that failed
+     */
+    cancel(): void;
+}
+
+/**
+ * Budget
+ *
+ * Caps the cost and tokens of the LLM calls charged to it. Each call
+ * reserves its worst case (estimated prompt tokens plus maximum output) before
+ * it is made, so concurrent calls cannot overshoot the limit together, and
+ * settles with its actual usage afterwards.
+ *
+ * Key features:
+ * - Cost limits in USD using the pricing table, and token limits
+ * - Per-node budgets via the node's `budget` option
+ * - Per-pipeline or per-request budgets via withBudget
+ * - Typed BudgetExceededError thrown before a call would go over
+ *
+ * Implementation notes:
+ * - A Budget accumulates for its whole lifetime; create a new one to budget
+ *   each run separately
+ * - Models without known pricing count as free towards cost limits
+ */
+export class Budget {
+    readonly name?: string;
+    readonly maxCostUsd?: number;
+    readonly maxTokens?: number;
+
+    /**
+     * Settled and reserved spend
+     * @private
+     */
+    private spent = { costUsd: 0, tokens: 0 };
+
+    /**
+     * @param limits The limits to enforce
+     */
+    constructor(limits: BudgetLimits) {
+        this.name = limits.name;
+        this.maxCostUsd = limits.maxCostUsd;
+        this.maxTokens = limits.maxTokens;
+    }
+
+    /**
+     * Cost of settled calls plus the worst case of calls in progress, in USD
+     */
+    get spentCostUsd(): number {
+        return this.spent.costUsd;
+    }
+
+    /**
+     * Tokens of settled calls plus the worst case of calls in progress
+     */
+    get spentTokens(): number {
+        return this.spent.tokens;
+    }
+
+    /**
+     * Reserve the worst-case spend of a call
+     *
+     * @throws BudgetExceededError if the call could go over a limit
+     */
+    reserve(tokens: number, costUsd: number): BudgetReservation {
+        if (this.maxTokens !== undefined && this.spent.tokens + tokens > this.maxTokens) {
+            throw new BudgetExceededError(this, "tokens", this.maxTokens, this.spent.tokens, tokens);
+        }
+        if (this.maxCostUsd !== undefined && this.spent.costUsd + costUsd > this.maxCostUsd) {
+            throw new BudgetExceededError(this, "cost", this.maxCostUsd, this.spent.costUsd, costUsd);
+        }
+
+        this.spent.tokens += tokens;
+        this.spent.costUsd += costUsd;
+        let settled = false;
+        const settle = (actualTokens: number, actualCostUsd: number) => {
+            if (settled) {
+                return;
+            }
+            settled = true;
+            this.spent.tokens += actualTokens - tokens;
+            this.spent.costUsd += actualCostUsd - costUsd;
+        };
+        return {
+            commit: settle,
+            cancel: () => settle(0, 0),
+        };
+    }
+
+    /**
+     * Forget all spend, e.g. at the start of a new billing period
+     */
+    reset(): void {
+        this.spent = { costUsd: 0, tokens: 0 };
+    }
+}
+
+const activeBudgets = new AsyncLocalStorage<Budget[]>();
+
+/**
+ * Run a function with a budget that every LLM call it makes is charged to,
+ * across any nodes and pipelines it runs. Budgets nest: a call is charged to
+ * every enclosing budget.
+ *
+ * @example
+ * await withBudget(new Budget({ maxCostUsd: 0.5 }), () => pipeline.execute(input));
+ */
+export function withBudget<T>(budget: Budget, fn: () => Promise<T>): Promise<T> {
+    return activeBudgets.run([...getActiveBudgets(), budget], fn);
+}
+
+/**
+ * Budgets of the enclosing withBudget calls, outermost first
+ */
+export function getActiveBudgets(): Budget[] {
+    return activeBudgets.getStore() ?? [];
+}
+
+/**
+ * Reserve the worst case of a call on several budgets at once; if any of
+ * them refuses, the reservations already made are released
+ *
+ * @throws BudgetExceededError if the call could take any budget over its limit
+ */
+export function reserveBudgets(
+    budgets: Budget[],
+    tokens: number,
+    costUsd: number
+): BudgetReservation {
+    const reservations: BudgetReservation[] = [];
+    try {
+        for (const budget of new Set(budgets)) {
+            reservations.push(budget.reserve(tokens, costUsd));
+        }
+    } catch (error) {
+        reservations.forEach((reservation) => reservation.cancel());
+        throw error;
+    }
+    return {
+        commit: (actualTokens, actualCostUsd) =>
+            reservations.forEach((reservation) => reservation.commit(actualTokens, actualCostUsd)),
+        cancel: () => reservations.forEach((reservation) => reservation.cancel()),
+    };
+}
@@ -0,0 +1,154 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { CacheStore, MemoryCacheStore, createCacheKey, normalizeLLMConfig } from "./cache";
+import { LLMNode } from "./LLMNode";
+import { MockProvider } from "./providers/MockProvider";
+import { LLMConfig } from "./types";
+import { textParser } from "../parsers/structured";
+
+function createNode(llmConfig: LLMConfig, provider: MockProvider) {
+    return new LLMNode<{ topic: string }, string>({
+        promptTemplate: "Tell me about {{topic}}",
+        llmConfig,
+        parser: textParser(),
+        provider,
+    });
+}
+
+describe("normalizeLLMConfig", () => {
+    it("strips secrets, request settings and undefined values", () => {
+        const normalized = normalizeLLMConfig({
+            provider: "openai",
+            model: "gpt-4o-mini",
+            apiKey: "sk-secret",
+            temperature: undefined,
+            retry: { maxAttempts: 5 },
+            rateLimit: { requestsPerMinute: 60 },
+            cache: { store: new MemoryCacheStore() },
+            providerOptions: { headers: { authorization: "Bearer secret" }, systemPrompt: "Be brief" },
+        } as any);
+
+        expect(normalized).toEqual({
+            model: "gpt-4o-mini",
+            provider: "openai",
+            providerOptions: { systemPrompt: "Be brief" },
+        });
+    });
+});
+
+describe("createCacheKey", () => {
+    it("is the same for configs that differ only in key order, secrets or request settings", () => {
+        const key = createCacheKey("hello", {
+            provider: "openai",
+            model: "gpt-4o-mini",
+            temperature: 0,
+        });
+
+        expect(
+            createCacheKey("hello", {
+                temperature: 0,
+                model: "gpt-4o-mini",
+                provider: "openai",
+                apiKey: "sk-other",
+                retry: { maxAttempts: 2 },
+            } as any)
+        ).toBe(key);
+    });
+
+    it("changes with the prompt, the model settings and the invoke options", () => {
+        const config = { provider: "openai", model: "gpt-4o-mini" } as const;
+        const key = createCacheKey("hello", config);
+
+        expect(createCacheKey("hello!", config)).not.toBe(key);
+        expect(createCacheKey("hello", { ...config, temperature: 1 })).not.toBe(key);
+        expect(createCacheKey("hello", config, { toolChoice: "required" })).not.toBe(key);
+    });
+});
+
+describe("MemoryCacheStore", () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it("evicts the least recently used entry once full", async () => {
+        const store = new MemoryCacheStore({ maxEntries: 2 });
+        await store.set("a", "1");
+        await store.set("b", "2");
+        await store.get("a");
+        await store.set("c", "3");
+
+        expect(await store.get("a")).toBe("1");
+        expect(await store.get("b")).toBeUndefined();
+        expect(await store.get("c")).toBe("3");
+    });
+
+    it("expires entries after their ttl", async () => {
+        jest.useFakeTimers();
+        const store = new MemoryCacheStore();
+        await store.set("a", "1", 1000);
+
+        jest.advanceTimersByTime(999);
+        expect(await store.get("a")).toBe("1");
+        jest.advanceTimersByTime(1);
+        expect(await store.get("a")).toBeUndefined();
+    });
+});
+
+describe("response caching", () => {
+    it("serves repeated requests from the cache", async () => {
+        const provider = new MockProvider({ responses: ["first", "second"] });
+        const node = createNode(
+            { provider: "mock", model: "mock-model", cache: { store: new MemoryCacheStore() } },
+            provider
+        );
+
+        expect(await node.execute({ topic: "cats" })).toBe("first");
+        expect(await node.execute({ topic: "cats" })).toBe("first");
+        expect(await node.execute({ topic: "dogs" })).toBe("second");
+        expect(provider.getCalls()).toHaveLength(2);
+    });
+
+    it("returns the response when the cache write fails", async () => {
+        const errors: unknown[] = [];
+        const failingStore: CacheStore = {
+            get: async () => undefined,
+            set: async () => {
+                throw new Error("disk full");
+            },
+        };
+        const node = createNode(
+            {
+                provider: "mock",
+                model: "mock-model",
+                cache: { store: failingStore, onError: (error) => errors.push(error) },
+            },
+            new MockProvider({ defaultResponse: "hello" })
+        );
+
+        await expect(node.execute({ topic: "cats" })).resolves.toBe("hello");
+        expect(errors).toHaveLength(1);
+        expect((errors[0] as Error).message).toBe("disk full");
+    });
+
+    it("treats a failed cache read as a miss", async () => {
+        const errors: unknown[] = [];
+        const unavailableStore: CacheStore = {
+            get: async () => {
+                throw new Error("connection refused");
+            },
+            set: async () => undefined,
+        };
+        const provider = new MockProvider({ defaultResponse: "hello" });
+        const node = createNode(
+            {
+                provider: "mock",
+                model: "mock-model",
+                cache: { store: unavailableStore, onError: (error) => errors.push(error) },
+            },
+            provider
+        );
+
+        await expect(node.execute({ topic: "cats" })).resolves.toBe("hello");
+        expect(provider.getCalls()).toHaveLength(1);
+        expect((errors[0] as Error).message).toBe("connection refused");
+    });
+});
@@ -0,0 +1,284 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+import { LLMResponse } from "./providers/ILLMProvider";
+import { InvokeOptions, LLMConfig, PromptInput } from "./types";
+
+/**
+ * Storage backend for cached responses. Values are opaque strings, so any
+ * key-value store can be adapted, e.g. Redis:
+ *
+ * @example
+ * const store: CacheStore = {
+ *     get: async (key) => (await redis.get(key)) ?? undefined,
+ *     set: async (key, value, ttlMs) => {
+ *         await (ttlMs ? redis.set(key, value, "PX", ttlMs) : redis.set(key, value));
+ *     },
+ * };
+ */
+export interface CacheStore {
+    /**
+     * Get a value, or undefined if it is missing or expired
+     */
+    get(key: string): Promise<string | undefined>;
+
+    /**
+     * Store a value
+     *
+     * @param ttlMs Time after which the value expires; never expires if omitted
+     */
+    set(key: string, value: string, ttlMs?: number): Promise<void>;
+
+    /**
+     * Remove a value
+     */
+    delete?(key: string): Promise<void>;
+
+    /**
+     * Remove all values
+     */
+    clear?(): Promise<void>;
+}
+
+/**
+ * Response caching options for LLMConfig
+ */
+export interface CacheConfig {
+    store: CacheStore;
+    ttlMs?: number; // Time to keep responses; kept until evicted if omitted
+    namespace?: string; // Prefix for keys, e.g. to separate environments sharing a store
+    onError?: (error: unknown) => void; // Called when reading or storing a response fails (default: console.warn)
+}
+
+/**
+ * Config fields that are never written to cache or cassette keys
+ */
+const SECRET_CONFIG_KEYS = new Set([
+    "apiKey",
+    "awsAccessKeyId",
+    "awsSecretAccessKey",
+    "awsSessionToken",
+    "headers",
+]);
+
+/**
+ * Top-level config fields that only control how requests are sent and never
+ * change a response
+ */
+const REQUEST_CONFIG_KEYS = new Set(["retry", "rateLimit", "cache"]);
+
+/**
+ * Strip secrets, undefined values and request-handling settings from a
+ * config and sort its keys, so equivalent configs serialize identically
+ */
+export function normalizeLLMConfig(config: LLMConfig): Record<string, any> {
+    const normalize = (value: any): any => {
+        if (Array.isArray(value)) {
+            return value.map(normalize);
+        }
+        if (value && typeof value === "object") {
+            const result: Record<string, any> = {};
+            for (const key of Object.keys(value).sort()) {
+                if (value[key] !== undefined && !SECRET_CONFIG_KEYS.has(key)) {
+                    result[key] = normalize(value[key]);
+                }
+            }
+            return result;
+        }
+        return value;
+    };
+
+    const settings: Record<string, any> = { ...config };
+    for (const key of REQUEST_CONFIG_KEYS) {
+        delete settings[key];
+    }
+    return normalize(settings);
+}
+
+/**
+ * Create the cache key of a provider call from its prompt, normalized
+ * config and invoke options (tools, tool choice and response format)
+ */
+export function createCacheKey(
+    prompt: PromptInput,
+    config: LLMConfig,
+    options?: InvokeOptions
+): string {
+    return createHash("sha256")
+        .update(JSON.stringify({ prompt, config: normalizeLLMConfig(config), options }))
+        .digest("hex");
+}
+
+/**
+ * Look up a cached response
+ *
+ * @returns The cached response, or undefined on a miss or unreadable entry
+ * @throws Errors of the store itself, e.g. when it is unavailable
+ */
+export async function readCachedResponse(
+    cache: CacheConfig,
+    key: string
+): Promise<LLMResponse | undefined> {
+    const value = await cache.store.get(prefixKey(cache, key));
+    if (value === undefined) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(value) as LLMResponse;
+    } catch {
+        // Treat corrupt entries as misses; they are overwritten on the next write
+        return undefined;
+    }
+}
+
+/**
+ * Store a response in the cache, without its provider-specific raw response
+ */
+export async function writeCachedResponse(
+    cache: CacheConfig,
+    key: string,
+    response: LLMResponse
+): Promise<void> {
+    const { raw, ...stored } = response;
+    await cache.store.set(prefixKey(cache, key), JSON.stringify(stored), cache.ttlMs);
+}
+
+function prefixKey(cache: CacheConfig, key: string): string {
+    return cache.namespace ? `${cache.namespace}:${key}` : key;
+}
+
+/**
+ * In-memory cache store that evicts the least recently used entries once it
+ * holds `maxEntries`
+ */
+export class MemoryCacheStore implements CacheStore {
+    /**
+     * Entries in least to most recently used order
+     * @private
+     */
+    private entries = new Map<string, { value: string; expiresAt?: number }>();
+
+    /**
+     * Maximum number of entries kept
+     * @private
+     */
+    private maxEntries: number;
+
+    /**
+     * @param options.maxEntries Maximum number of entries kept (default: 1000)
+     */
+    constructor(options: { maxEntries?: number } = {}) {
+        this.maxEntries = options.maxEntries ?? 1000;
+    }
+
+    async get(key: string): Promise<string | undefined> {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+        this.entries.delete(key);
+        if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+            return undefined;
+        }
+        // Re-insert to mark the entry as most recently used
+        this.entries.set(key, entry);
+        return entry.value;
+    }
+
+    async set(key: string, value: string, ttlMs?: number): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, {
+            value,
+            ...(ttlMs !== undefined && { expiresAt: Date.now() + ttlMs }),
+        });
+        while (this.entries.size > this.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value!);
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+
+    async clear(): Promise<void> {
+        this.entries.clear();
+    }
+
+    /**
+     * Number of entries held, including expired ones not yet evicted
+     */
+    get size(): number {
+        return this.entries.size;
+    }
+}
+
+/**
+ * Cache store that keeps one JSON file per entry in a directory, so cached
+ * responses survive restarts and can be shared between processes
+ */
+export class FileCacheStore implements CacheStore {
+    /**
+     * Directory holding the entries
+     * @private
+     */
+    private directory: string;
+
+    /**
+     * @param options.directory Directory for the entries; created on first write
+     */
+    constructor(options: { directory: string }) {
+        this.directory = options.directory;
+    }
+
+    async get(key: string): Promise<string | undefined> {
+        let contents: string;
+        try {
+            contents = await fs.readFile(this.filePath(key), "utf8");
+        } catch (error: any) {
+            if (error?.code === "ENOENT") {
+                return undefined;
+            }
+            throw error;
+        }
+
+        try {
+            const entry = JSON.parse(contents) as { value: string; expiresAt?: number };
+            if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+                await this.delete(key);
+                return undefined;
+            }
+            return entry.value;
+        } catch {
+            // A partially written or corrupt entry counts as a miss
+            return undefined;
+        }
+    }
+
+    async set(key: string, value: string, ttlMs?: number): Promise<void> {
+        await fs.mkdir(this.directory, { recursive: true });
+        const entry = { value, ...(ttlMs !== undefined && { expiresAt: Date.now() + ttlMs }) };
+
+        // Write to a temporary file and rename so readers never see a partial entry
+        const filePath = this.filePath(key);
+        const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+        await fs.writeFile(tempPath, JSON.stringify(entry), "utf8");
+        await fs.rename(tempPath, filePath);
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.rm(this.filePath(key), { force: true });
+    }
+
+    async clear(): Promise<void> {
+        await fs.rm(this.directory, { recursive: true, force: true });
+    }
+
+    /**
+     * File of an entry; keys are hashed so any string is a safe file name
+     * @private
+     */
+    private filePath(key: string): string {
+        const name = createHash("sha256").update(key).digest("hex");
+        return path.join(this.directory, `${name}.json`);
+    }
+}
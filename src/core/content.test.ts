@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import {
+    concatContent,
+    contentToText,
+    imageFromBase64,
+    imageFromBuffer,
+    imageFromFile,
+    imageFromUrl,
+    loadMedia,
+    pdfFromBase64,
+    textPart,
+    toDataUrl,
+} from "./content";
+
+/** The 8-byte PNG signature */
+const PNG_BYTES = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const PNG_BASE64 = PNG_BYTES.toString("base64");
+
+describe("concatContent", () => {
+    it("joins text-only pieces into a string", () => {
+        expect(concatContent(["a", "b"])).toBe("a\n\nb");
+    });
+
+    it("merges adjacent text around media parts", () => {
+        const image = imageFromUrl("https://example.com/cat.png");
+
+        expect(concatContent(["Describe:", [image, textPart("Be brief.")], "Thanks."])).toEqual([
+            { type: "text", text: "Describe:\n\n" },
+            image,
+            { type: "text", text: "Be brief.\n\nThanks." },
+        ]);
+    });
+
+    it("keeps text after a cache point out of the cached part", () => {
+        expect(concatContent([[textPart("Preamble", { cachePoint: true })], "Question"], " ")).toEqual([
+            { type: "text", text: "Preamble", cachePoint: true },
+            { type: "text", text: " Question" },
+        ]);
+    });
+});
+
+describe("contentToText", () => {
+    it("renders media parts as placeholders", () => {
+        expect(
+            contentToText([
+                textPart("See "),
+                imageFromFile("/tmp/cat.png"),
+                textPart(" and "),
+                pdfFromBase64(PNG_BASE64, "report.pdf"),
+            ])
+        ).toBe("See [image: cat.png] and [document: report.pdf]");
+    });
+});
+
+describe("loadMedia", () => {
+    const originalFetch = global.fetch;
+    let tempDir: string | undefined;
+
+    afterEach(async () => {
+        global.fetch = originalFetch;
+        if (tempDir) {
+            await fs.rm(tempDir, { recursive: true, force: true });
+            tempDir = undefined;
+        }
+    });
+
+    it("takes the media type from a data: URL", async () => {
+        expect(await loadMedia(imageFromBase64(`data:image/webp;base64,${PNG_BASE64}`))).toEqual({
+            data: PNG_BASE64,
+            mediaType: "image/webp",
+        });
+    });
+
+    it("detects the media type of bytes and plain base64", async () => {
+        expect(await loadMedia(imageFromBuffer(PNG_BYTES))).toEqual({
+            data: PNG_BASE64,
+            mediaType: "image/png",
+        });
+        expect(await toDataUrl(imageFromBase64(PNG_BASE64))).toBe(
+            `data:image/png;base64,${PNG_BASE64}`
+        );
+    });
+
+    it("reads files and infers the media type from the extension", async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "content-"));
+        const filePath = path.join(tempDir, "photo.JPG");
+        await fs.writeFile(filePath, "not really a jpeg");
+
+        expect(await loadMedia(imageFromFile(filePath))).toEqual({
+            data: Buffer.from("not really a jpeg").toString("base64"),
+            mediaType: "image/jpeg",
+        });
+    });
+
+    it("downloads URLs and uses the response content type", async () => {
+        const fetchMock = jest.fn<typeof fetch>().mockResolvedValue(
+            new Response(PNG_BYTES, { headers: { "content-type": "image/gif; charset=binary" } })
+        );
+        global.fetch = fetchMock;
+
+        expect(await loadMedia(imageFromUrl("https://example.com/a"))).toEqual({
+            data: PNG_BASE64,
+            mediaType: "image/gif",
+        });
+        expect(fetchMock).toHaveBeenCalledWith("https://example.com/a");
+    });
+
+    it("fails when the media type cannot be determined", async () => {
+        await expect(loadMedia(imageFromBuffer(Buffer.from("plain text")))).rejects.toThrow(
+            "Could not determine the media type of an image part; set mediaType"
+        );
+    });
+});
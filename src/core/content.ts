@@ -0,0 +1,258 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import {
+    ContentPart,
+    DocumentPart,
+    ImagePart,
+    MessageContent,
+    TextPart,
+} from "./types";
+
+/**
+ * Media types inferred from file extensions
+ */
+const EXTENSION_MEDIA_TYPES: Record<string, string> = {
+    ".png": "image/png",
+    ".jpg": "image/jpeg",
+    ".jpeg": "image/jpeg",
+    ".gif": "image/gif",
+    ".webp": "image/webp",
+    ".pdf": "application/pdf",
+};
+
+/**
+ * Create a text part
+ *
+ * @param options.cachePoint Cache the prompt up to and including this part,
+ *   e.g. after a long fixed preamble (Anthropic and Bedrock)
+ */
+export function textPart(text: string, options: { cachePoint?: boolean } = {}): TextPart {
+    return { type: "text", text, ...(options.cachePoint && { cachePoint: true }) };
+}
+
+/**
+ * Create an image part from a file; the file is read when the request is sent
+ */
+export function imageFromFile(filePath: string, mediaType?: string): ImagePart {
+    return { type: "image", path: filePath, ...(mediaType && { mediaType }) };
+}
+
+/**
+ * Create an image part from bytes
+ */
+export function imageFromBuffer(data: Buffer | Uint8Array, mediaType?: string): ImagePart {
+    return { type: "image", data, ...(mediaType && { mediaType }) };
+}
+
+/**
+ * Create an image part from base64 data or a data: URL
+ */
+export function imageFromBase64(data: string, mediaType?: string): ImagePart {
+    return { type: "image", data, ...(mediaType && { mediaType }) };
+}
+
+/**
+ * Create an image part from a URL
+ */
+export function imageFromUrl(url: string, mediaType?: string): ImagePart {
+    return { type: "image", url, ...(mediaType && { mediaType }) };
+}
+
+/**
+ * Create a PDF document part from a file; the file is read when the request is sent
+ */
+export function pdfFromFile(filePath: string): DocumentPart {
+    return {
+        type: "document",
+        path: filePath,
+        filename: path.basename(filePath),
+        mediaType: "application/pdf",
+    };
+}
+
+/**
+ * Create a PDF document part from bytes
+ */
+export function pdfFromBuffer(data: Buffer | Uint8Array, filename?: string): DocumentPart {
+    return { type: "document", data, mediaType: "application/pdf", ...(filename && { filename }) };
+}
+
+/**
+ * Create a PDF document part from base64 data or a data: URL
+ */
+export function pdfFromBase64(data: string, filename?: string): DocumentPart {
+    return { type: "document", data, mediaType: "application/pdf", ...(filename && { filename }) };
+}
+
+/**
+ * Create a PDF document part from a URL
+ */
+export function pdfFromUrl(url: string, filename?: string): DocumentPart {
+    return { type: "document", url, mediaType: "application/pdf", ...(filename && { filename }) };
+}
+
+/**
+ * Check whether a value is a content part
+ */
+export function isContentPart(value: unknown): value is ContentPart {
+    if (typeof value !== "object" || value === null) {
+        return false;
+    }
+    const part = value as any;
+    if (part.type === "text") {
+        return typeof part.text === "string";
+    }
+    return (
+        (part.type === "image" || part.type === "document") &&
+        (part.data !== undefined || part.path !== undefined || part.url !== undefined)
+    );
+}
+
+/**
+ * Join text and content parts into a single message content.
+ * Returns a string if every piece is text, so text-only prompts are unchanged;
+ * otherwise returns parts with adjacent text merged.
+ *
+ * @param pieces Text or content to join, in order
+ * @param separator Text inserted between pieces (default: blank line)
+ */
+export function concatContent(
+    pieces: MessageContent[],
+    separator: string = "\n\n"
+): MessageContent {
+    if (pieces.every((piece) => typeof piece === "string")) {
+        return pieces.join(separator);
+    }
+
+    const parts: ContentPart[] = [];
+    const pushText = (text: string) => {
+        if (!text) return;
+        const last = parts[parts.length - 1];
+        // Text after a cache point must stay out of the cached prefix
+        if (last?.type === "text" && !last.cachePoint) {
+            last.text += text;
+        } else {
+            parts.push({ type: "text", text });
+        }
+    };
+
+    pieces.forEach((piece, index) => {
+        if (index > 0) {
+            pushText(separator);
+        }
+        if (typeof piece === "string") {
+            pushText(piece);
+        } else {
+            for (const part of piece) {
+                if (part.type === "text") {
+                    pushText(part.text);
+                    if (part.cachePoint && part.text) {
+                        (parts[parts.length - 1] as TextPart).cachePoint = true;
+                    }
+                } else {
+                    parts.push(part);
+                }
+            }
+        }
+    });
+
+    return parts;
+}
+
+/**
+ * Render message content as text, with placeholders for images and documents
+ */
+export function contentToText(content: MessageContent): string {
+    if (typeof content === "string") {
+        return content;
+    }
+    return content
+        .map((part) => {
+            switch (part.type) {
+                case "text":
+                    return part.text;
+                case "image":
+                    return `[image${part.path ? `: ${path.basename(part.path)}` : ""}]`;
+                case "document":
+                    return `[document${part.filename ? `: ${part.filename}` : ""}]`;
+            }
+        })
+        .join("");
+}
+
+/**
+ * Load the bytes of an image or document part as base64, reading files and
+ * downloading URLs as needed
+ *
+ * @param part The image or document part
+ * @returns The base64 data and media type
+ */
+export async function loadMedia(
+    part: ImagePart | DocumentPart
+): Promise<{ data: string; mediaType: string }> {
+    let bytes: Buffer | undefined;
+    let base64: string | undefined;
+    let mediaType = part.mediaType;
+
+    if (part.data !== undefined) {
+        if (typeof part.data === "string") {
+            const dataUrl = part.data.match(/^data:([^;,]+)?(?:;base64)?,(.*)$/s);
+            if (dataUrl) {
+                mediaType = mediaType ?? dataUrl[1];
+                base64 = dataUrl[2];
+            } else {
+                base64 = part.data;
+            }
+        } else {
+            bytes = Buffer.from(part.data);
+        }
+    } else if (part.path !== undefined) {
+        bytes = await fs.readFile(part.path);
+        mediaType = mediaType ?? EXTENSION_MEDIA_TYPES[path.extname(part.path).toLowerCase()];
+    } else if (part.url !== undefined) {
+        const response = await fetch(part.url);
+        if (!response.ok) {
+            throw new Error(`Failed to download ${part.type} from ${part.url}: HTTP ${response.status}`);
+        }
+        bytes = Buffer.from(await response.arrayBuffer());
+        mediaType = mediaType ?? response.headers.get("content-type")?.split(";")[0];
+    } else {
+        throw new Error(`The ${part.type} part has no data, path or url`);
+    }
+
+    mediaType =
+        mediaType ??
+        sniffMediaType(bytes ?? Buffer.from(base64!.substring(0, 32), "base64")) ??
+        (part.type === "document" ? "application/pdf" : undefined);
+    if (!mediaType) {
+        throw new Error(`Could not determine the media type of an ${part.type} part; set mediaType`);
+    }
+
+    return { data: base64 ?? bytes!.toString("base64"), mediaType };
+}
+
+/**
+ * Get a media part as a data: URL
+ */
+export async function toDataUrl(part: ImagePart | DocumentPart): Promise<string> {
+    const { data, mediaType } = await loadMedia(part);
+    return `data:${mediaType};base64,${data}`;
+}
+
+/**
+ * Identify common image and PDF formats from their leading bytes
+ */
+function sniffMediaType(bytes: Uint8Array): string | undefined {
+    const header = Buffer.from(bytes.subarray(0, 12));
+    if (header.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47]))) return "image/png";
+    if (header.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff]))) return "image/jpeg";
+    if (header.subarray(0, 4).toString("latin1") === "GIF8") return "image/gif";
+    if (
+        header.subarray(0, 4).toString("latin1") === "RIFF" &&
+        header.subarray(8, 12).toString("latin1") === "WEBP"
+    ) {
+        return "image/webp";
+    }
+    if (header.subarray(0, 4).toString("latin1") === "%PDF") return "application/pdf";
+    return undefined;
+}
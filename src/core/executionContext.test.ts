@@ -0,0 +1,105 @@
+import { describe, expect, it } from "@jest/globals";
+import { getExecutionContext, sumTokenUsage, trackUsage } from "./executionContext";
+import { TextNode } from "../nodes/TextNode";
+import { MockProvider } from "./providers/MockProvider";
+import { LLMConfig, TokenUsage, UsageRecord } from "./types";
+
+const config: LLMConfig = { provider: "mock", model: "mock-model" };
+
+describe("executeWithUsage", () => {
+    it("keeps the usage of concurrent executions of one node apart", async () => {
+        // The slow call starts first and finishes last, so the calls interleave
+        const provider = new MockProvider({
+            responses: [
+                {
+                    match: "slow",
+                    content: "slow done",
+                    latencyMs: 30,
+                    usage: { inputTokens: 100, outputTokens: 10 },
+                },
+                {
+                    match: "fast",
+                    content: "fast done",
+                    latencyMs: 5,
+                    usage: { inputTokens: 7, outputTokens: 3 },
+                },
+            ],
+        });
+        const node = new TextNode<{ speed: string }>({
+            promptTemplate: "Answer {{speed}}",
+            llmConfig: config,
+            provider,
+        });
+
+        const [slow, fast] = await Promise.all([
+            node.executeWithUsage({ speed: "slow" }),
+            node.executeWithUsage({ speed: "fast" }),
+        ]);
+
+        expect(slow.output).toBe("slow done");
+        expect(slow.tokenUsage).toMatchObject({ inputTokens: 100, outputTokens: 10 });
+        expect(fast.output).toBe("fast done");
+        expect(fast.tokenUsage).toMatchObject({ inputTokens: 7, outputTokens: 3 });
+        expect(slow.executionId).not.toBe(fast.executionId);
+        expect(slow.usageRecords.every((r) => r.executionId === slow.executionId)).toBe(true);
+        // The node's own records still cover both calls
+        expect(node.getUsageRecords()).toHaveLength(2);
+    });
+
+    it("includes the calls of every node in a pipeline", async () => {
+        const provider = new MockProvider({
+            defaultResponse: { content: "ok", usage: { inputTokens: 4, outputTokens: 1 } },
+        });
+        const first = new TextNode<{}>({ promptTemplate: "first", llmConfig: config, provider });
+        const second = new TextNode<string>({ promptTemplate: "{{input}}", llmConfig: config, provider });
+
+        const { tokenUsage, usageRecords } = await trackUsage(() => first.pipe(second).execute({}));
+
+        expect(usageRecords).toHaveLength(2);
+        expect(tokenUsage).toMatchObject({ inputTokens: 8, outputTokens: 2 });
+    });
+
+    it("adds nested usage to the enclosing execution", async () => {
+        const provider = new MockProvider({
+            defaultResponse: { content: "ok", usage: { inputTokens: 4, outputTokens: 1 } },
+        });
+        const node = new TextNode<{}>({ promptTemplate: "hello", llmConfig: config, provider });
+
+        const outer = await trackUsage(async () => {
+            const inner = await node.executeWithUsage({});
+            expect(getExecutionContext()?.usageRecords).toHaveLength(1);
+            return inner;
+        });
+
+        expect(outer.output.tokenUsage).toMatchObject({ inputTokens: 4 });
+        expect(outer.usageRecords).toHaveLength(1);
+        expect(outer.usageRecords[0].executionId).toBe(outer.output.executionId);
+        expect(getExecutionContext()).toBeUndefined();
+    });
+});
+
+describe("sumTokenUsage", () => {
+    it("sums the counts only some providers report", () => {
+        const record = (tokenUsage: TokenUsage): UsageRecord => ({
+            provider: "mock",
+            model: "mock-model",
+            tokenUsage,
+            timestamp: new Date(),
+        });
+
+        expect(
+            sumTokenUsage([
+                record({ inputTokens: 10, outputTokens: 5, thinkingTokens: 3, searchCount: 1 }),
+                record({ inputTokens: 20, outputTokens: 1, cacheReadTokens: 15, searchCount: 2, fetchCount: 1 }),
+                record({ inputTokens: 1, outputTokens: 1 }),
+            ])
+        ).toEqual({
+            inputTokens: 31,
+            outputTokens: 7,
+            thinkingTokens: 3,
+            cacheReadTokens: 15,
+            searchCount: 3,
+            fetchCount: 1,
+        });
+    });
+});
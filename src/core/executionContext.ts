@@ -0,0 +1,150 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import { ExecutionResult, LLMCallRecord, TokenUsage, UsageRecord } from "./types";
+
+/**
+ * State of a single tracked execution. Contexts follow the async call chain,
+ * so concurrent executions of the same node each see their own context.
+ */
+export interface ExecutionContext {
+    /** Unique id of this execution, also set as executionId on its usage records */
+    readonly id: string;
+    /** Usage of every LLM call made within this execution, including nested ones */
+    readonly usageRecords: UsageRecord[];
+    /** Every LLM call made within this execution, including nested ones */
+    readonly calls: LLMCallRecord[];
+    /** Number of times a node retried after an invalid or failed response */
+    retryCount: number;
+    /** The enclosing execution, if this one was started inside another */
+    readonly parent?: ExecutionContext;
+}
+
+const storage = new AsyncLocalStorage<ExecutionContext>();
+
+/**
+ * Get the context of the execution currently running, if any
+ */
+export function getExecutionContext(): ExecutionContext | undefined {
+    return storage.getStore();
+}
+
+/**
+ * Run a function in a new execution context and collect the usage of every
+ * LLM call it makes, across any nodes and pipelines it runs.
+ * Usage is also added to enclosing contexts, so nested tracking composes.
+ *
+ * @example
+ * const { output, tokenUsage } = await trackUsage(() => pipeline.execute(input));
+ */
+export async function trackUsage<T>(fn: () => Promise<T>): Promise<ExecutionResult<T>> {
+    const { output, context } = await trackExecution(fn);
+    return {
+        output,
+        executionId: context.id,
+        usageRecords: [...context.usageRecords],
+        tokenUsage: sumTokenUsage(context.usageRecords),
+    };
+}
+
+/**
+ * Run a function in a new execution context and return its result together
+ * with the context, for callers that need more than usage
+ */
+export async function trackExecution<T>(
+    fn: () => Promise<T>
+): Promise<{ output: T; context: ExecutionContext }> {
+    const context: ExecutionContext = {
+        id: randomUUID(),
+        usageRecords: [],
+        calls: [],
+        retryCount: 0,
+        parent: storage.getStore(),
+    };
+    const output = await storage.run(context, fn);
+    return { output, context };
+}
+
+/**
+ * Add a usage record to the current execution context and its ancestors.
+ * The record is stamped with the id of the innermost execution.
+ *
+ * @returns The record as stored, with executionId set when inside an execution
+ */
+export function recordExecutionUsage(record: UsageRecord): UsageRecord {
+    const context = storage.getStore();
+    if (!context) {
+        return record;
+    }
+
+    const stamped: UsageRecord = { ...record, executionId: context.id };
+    for (let current: ExecutionContext | undefined = context; current; current = current.parent) {
+        current.usageRecords.push(stamped);
+    }
+    return stamped;
+}
+
+/**
+ * Add an LLM call to the current execution context and its ancestors
+ */
+export function recordExecutionCall(call: LLMCallRecord): void {
+    for (let current = storage.getStore(); current; current = current.parent) {
+        current.calls.push(call);
+    }
+}
+
+/**
+ * Count a retry in the current execution context and its ancestors
+ */
+export function recordExecutionRetry(): void {
+    for (let current = storage.getStore(); current; current = current.parent) {
+        current.retryCount++;
+    }
+}
+
+/**
+ * Usage counts that are only present when a provider reports them
+ */
+const OPTIONAL_USAGE_FIELDS = [
+    "cacheReadTokens",
+    "cacheWriteTokens",
+    "thinkingTokens",
+    "searchCount",
+    "fetchCount",
+] as const;
+
+/**
+ * Sum the token usage of a list of usage records
+ */
+export function sumTokenUsage(records: UsageRecord[]): TokenUsage {
+    const total: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    for (const { tokenUsage } of records) {
+        addTokenUsage(total, tokenUsage);
+    }
+    return total;
+}
+
+/**
+ * Copy token usage with only the TokenUsage fields, treating missing usage
+ * as zero tokens
+ */
+export function normalizeTokenUsage(usage?: TokenUsage): TokenUsage {
+    return addTokenUsage(
+        { inputTokens: 0, outputTokens: 0 },
+        usage ?? { inputTokens: 0, outputTokens: 0 }
+    );
+}
+
+/**
+ * Add token usage to a running total, including the counts only some
+ * providers report
+ */
+export function addTokenUsage(total: TokenUsage, usage: TokenUsage): TokenUsage {
+    total.inputTokens += usage.inputTokens;
+    total.outputTokens += usage.outputTokens;
+    for (const field of OPTIONAL_USAGE_FIELDS) {
+        if (usage[field] !== undefined) {
+            total[field] = (total[field] ?? 0) + usage[field]!;
+        }
+    }
+    return total;
+}
@@ -1,8 +1,28 @@
 export * from './LLMNode';
 export * from './modelFactory';
 export * from './types';
+export * from './messages';
+export * from './tools';
+export * from './content';
+export * from './schema';
+export * from './executionContext';
+export * from './retry';
+export * from './rateLimiter';
+export * from './cache';
+export * from './pricing';
+export * from './budget';
+export * from './tracing';
 export * from './providers/ILLMProvider';
 export * from './providers/OpenAIProvider';
 export * from './providers/AnthropicProvider';
 export * from './providers/BedrockProvider';
+export * from './providers/OllamaProvider';
+export * from './providers/OpenAICompatibleProvider';
+export * from './providers/MockProvider';
+export * from './providers/CassetteProvider';
+export * from './providers/IEmbeddingProvider';
+export * from './providers/OpenAIEmbeddingProvider';
+export * from './providers/GoogleGenAIEmbeddingProvider';
+export * from './providers/BedrockEmbeddingProvider';
+export * from './providers/HashEmbeddingProvider';
 export * from './NodeBuilder';
\ No newline at end of file
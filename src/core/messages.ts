@@ -0,0 +1,86 @@
+import { ChatMessage, ContentPart, PromptInput } from "./types";
+import { contentToText } from "./content";
+
+/**
+ * Normalize a prompt into a list of chat messages.
+ * A plain string or a list of content parts becomes a single user message.
+ */
+export function toChatMessages(prompt: PromptInput): ChatMessage[] {
+    if (typeof prompt === "string") {
+        return [{ role: "user", content: prompt }];
+    }
+    if (prompt.length > 0 && !("role" in prompt[0])) {
+        return [{ role: "user", content: prompt as ContentPart[] }];
+    }
+    return prompt as ChatMessage[];
+}
+
+/**
+ * Copy a prompt so later changes to the caller's messages, such as turns a
+ * node appends while repairing an answer, do not affect the copy. Messages
+ * and content part lists are copied; media data is shared.
+ */
+export function copyPrompt(prompt: PromptInput): PromptInput {
+    if (typeof prompt === "string") {
+        return prompt;
+    }
+    return (prompt as (ChatMessage | ContentPart)[]).map((item) =>
+        "role" in item
+            ? { ...item, ...(Array.isArray(item.content) && { content: [...item.content] }) }
+            : { ...item }
+    ) as PromptInput;
+}
+
+/**
+ * Separate system messages from the conversation turns.
+ * Providers that take the system prompt as a separate parameter (Anthropic,
+ * Bedrock, GenAI) use this to combine the configured system prompt with any
+ * system messages in the input.
+ *
+ * @param prompt The prompt or messages
+ * @param systemPrompt The system prompt from providerOptions, if any
+ * @returns The combined system text and the remaining user/assistant messages
+ */
+export function splitSystemMessages(
+    prompt: PromptInput,
+    systemPrompt?: string
+): { system?: string; messages: ChatMessage[] } {
+    const messages = toChatMessages(prompt);
+    const systemParts = [
+        ...(systemPrompt ? [systemPrompt] : []),
+        ...messages
+            .filter((m) => m.role === "system")
+            .map((m) => contentToText(m.content)),
+    ];
+
+    return {
+        system: systemParts.length > 0 ? systemParts.join("\n\n") : undefined,
+        messages: messages.filter((m) => m.role !== "system"),
+    };
+}
+
+/**
+ * Render a prompt as plain text, e.g. for matching, logging or error messages.
+ * Single-message user prompts render as their content.
+ */
+export function promptToText(prompt: PromptInput): string {
+    const messages = toChatMessages(prompt);
+    if (messages.length === 1 && messages[0].role === "user") {
+        return contentToText(messages[0].content);
+    }
+    return messages
+        .map((m) => {
+            const calls = (m.toolCalls ?? []).map(
+                (call) => `[tool call ${call.name}(${JSON.stringify(call.arguments)})]`
+            );
+            return `${m.role}: ${[contentToText(m.content), ...calls].filter(Boolean).join("\n")}`;
+        })
+        .join("\n\n");
+}
+
+/**
+ * Rough token estimate of ~4 characters per token
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import {
+    GROK_BASE_URL,
+    createProvider,
+    getRegisteredProviders,
+    registerProvider,
+    unregisterProvider,
+} from "./modelFactory";
+import { LLMNode } from "./LLMNode";
+import { MockProvider } from "./providers/MockProvider";
+import { LLMConfig } from "./types";
+
+/**
+ * A chat completions response with the given text
+ */
+function chatCompletion(content: string): Response {
+    return new Response(
+        JSON.stringify({
+            id: "chatcmpl-1",
+            object: "chat.completion",
+            created: 0,
+            model: "test-model",
+            choices: [
+                { index: 0, message: { role: "assistant", content }, finish_reason: "stop" },
+            ],
+            usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+        }),
+        { status: 200, headers: { "content-type": "application/json" } }
+    );
+}
+
+describe("createProvider", () => {
+    const originalFetch = global.fetch;
+    const originalGrokKey = process.env.GROK_API_KEY;
+    let fetchMock: jest.Mock<typeof fetch>;
+
+    beforeEach(() => {
+        fetchMock = jest.fn<typeof fetch>().mockImplementation(async () => chatCompletion("hi"));
+        global.fetch = fetchMock;
+    });
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+        if (originalGrokKey === undefined) {
+            delete process.env.GROK_API_KEY;
+        } else {
+            process.env.GROK_API_KEY = originalGrokKey;
+        }
+    });
+
+    const request = (index = 0) => {
+        const [url, init] = fetchMock.mock.calls[index];
+        return {
+            url: String(url),
+            headers: new Headers(init?.headers as HeadersInit),
+            body: JSON.parse(init?.body as string),
+        };
+    };
+
+    it("points grok at the xAI API with GROK_API_KEY by default", async () => {
+        process.env.GROK_API_KEY = "grok-key";
+        const config: LLMConfig = { provider: "grok", model: "grok-3" };
+
+        const provider = createProvider(config);
+        const response = await provider.invoke("hello", config);
+
+        expect(provider.provider).toBe("grok");
+        expect(response.content).toBe("hi");
+        expect(request().url).toBe(`${GROK_BASE_URL}/chat/completions`);
+        expect(request().headers.get("authorization")).toBe("Bearer grok-key");
+        expect(request().body.model).toBe("grok-3");
+    });
+
+    it("sends openai-compatible requests to baseURL with the configured headers", async () => {
+        const config: LLMConfig = {
+            provider: "openai-compatible",
+            model: "local-model",
+            baseURL: "http://localhost:8000/v1",
+            headers: { "x-team": "search" },
+        };
+
+        const provider = createProvider(config);
+        await provider.invoke("hello", config);
+
+        expect(provider.provider).toBe("openai-compatible");
+        expect(request().url).toBe("http://localhost:8000/v1/chat/completions");
+        expect(request().headers.get("x-team")).toBe("search");
+        // The OpenAI key must never be sent to a third-party server
+        expect(request().headers.get("authorization")).toBe("Bearer not-needed");
+    });
+
+    it("folds the system prompt into the first user message when unsupported", async () => {
+        const config: LLMConfig = {
+            provider: "openai-compatible",
+            model: "local-model",
+            baseURL: "http://localhost:8000/v1",
+            capabilities: { systemPrompt: false, penalties: false },
+            frequencyPenalty: 0.5,
+            providerOptions: { systemPrompt: "Be terse." },
+        };
+
+        await createProvider(config).invoke("hello", config);
+
+        const { messages, frequency_penalty } = request().body;
+        expect(messages).toEqual([{ role: "user", content: "Be terse.\n\nhello" }]);
+        expect(frequency_penalty).toBeUndefined();
+    });
+
+    it("requires baseURL for openai-compatible providers", () => {
+        expect(() =>
+            createProvider({ provider: "openai-compatible", model: "local-model" } as LLMConfig)
+        ).toThrow("baseURL is required for 'openai-compatible' providers");
+    });
+});
+
+describe("provider registry", () => {
+    afterEach(() => {
+        getRegisteredProviders().forEach(unregisterProvider);
+    });
+
+    it("creates registered providers from the node's config", async () => {
+        const configs: LLMConfig[] = [];
+        registerProvider("in-house", (config) => {
+            configs.push(config);
+            return new MockProvider({ provider: "in-house", defaultResponse: "from registry" });
+        });
+        const node = new LLMNode<{}, string>({
+            promptTemplate: "hello",
+            llmConfig: { provider: "in-house", model: "v1" },
+            parser: (text) => text,
+        });
+
+        expect(await node.execute({})).toBe("from registry");
+        expect(configs).toEqual([{ provider: "in-house", model: "v1" }]);
+        expect(getRegisteredProviders()).toEqual(["in-house"]);
+    });
+
+    it("lets a registered factory override a built-in provider until unregistered", () => {
+        const mock = new MockProvider();
+        registerProvider("openai", () => mock);
+        const config: LLMConfig = { provider: "openai", model: "gpt-4o-mini", apiKey: "test-key" };
+
+        expect(createProvider(config)).toBe(mock);
+        expect(unregisterProvider("openai")).toBe(true);
+        expect(createProvider(config)).not.toBe(mock);
+        expect(unregisterProvider("openai")).toBe(false);
+    });
+
+    it("rejects unknown providers", () => {
+        expect(() => createProvider({ provider: "unknown", model: "m" } as LLMConfig)).toThrow(
+            /Provider unknown not supported/
+        );
+    });
+});
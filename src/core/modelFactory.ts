@@ -4,6 +4,13 @@ import { OpenAIProvider } from "./providers/OpenAIProvider";
 import { AnthropicProvider } from "./providers/AnthropicProvider";
 import { BedrockProvider } from "./providers/BedrockProvider";
 import { GoogleGenAIProvider } from "./providers/GoogleGenAIProvider";
+import { OllamaProvider } from "./providers/OllamaProvider";
+import { OpenAICompatibleProvider } from "./providers/OpenAICompatibleProvider";
+import { IEmbeddingProvider } from "./providers/IEmbeddingProvider";
+import { OpenAIEmbeddingProvider } from "./providers/OpenAIEmbeddingProvider";
+import { GoogleGenAIEmbeddingProvider } from "./providers/GoogleGenAIEmbeddingProvider";
+import { BedrockEmbeddingProvider } from "./providers/BedrockEmbeddingProvider";
+import { HashEmbeddingProvider } from "./providers/HashEmbeddingProvider";
 import {
     LLMConfig,
     LLMProvider,
@@ -11,6 +18,10 @@ import {
     AnthropicConfig,
     BedrockConfig,
     GoogleGenAIProviderConfig,
+    OllamaConfig,
+    GrokConfig,
+    OpenAICompatibleConfig,
+    EmbeddingConfig,
 } from "./types";
 
 // Load environment variables from .env file
@@ -18,6 +29,8 @@ dotenv.config();
 
 export const DEFAULT_TEMPERATURE = 0.7;
 
+export const GROK_BASE_URL = "https://api.x.ai/v1";
+
 /**
  * Type guard for OpenAI config
  */
@@ -43,6 +56,43 @@ export function isBedrockConfig(
     return config.provider === "bedrock";
 }
 
+/**
+ * Factory that creates a provider instance from an LLM configuration
+ */
+export type ProviderFactory = (config: LLMConfig) => ILLMProvider;
+
+/**
+ * Custom provider factories, keyed by provider name
+ */
+const providerRegistry = new Map<string, ProviderFactory>();
+
+/**
+ * Register a factory for a custom provider name.
+ * Registered factories take precedence over the built-in providers,
+ * so a built-in name such as "openai" can be overridden.
+ * @param name The provider name used in llmConfig.provider
+ * @param factory Function that creates the provider from the node's config
+ */
+export function registerProvider(name: string, factory: ProviderFactory): void {
+    providerRegistry.set(name, factory);
+}
+
+/**
+ * Remove a previously registered provider factory
+ * @param name The provider name
+ * @returns true if a factory was registered under the name
+ */
+export function unregisterProvider(name: string): boolean {
+    return providerRegistry.delete(name);
+}
+
+/**
+ * Get the names of all registered custom providers
+ */
+export function getRegisteredProviders(): string[] {
+    return [...providerRegistry.keys()];
+}
+
 /**
  * Creates an instance of an LLM provider based on the provided configuration
  * @param config The LLM configuration
@@ -50,6 +100,11 @@ export function isBedrockConfig(
  * @throws Error if the provider is not supported
  */
 export function createProvider(config: LLMConfig): ILLMProvider {
+    const registeredFactory = providerRegistry.get(config.provider);
+    if (registeredFactory) {
+        return registeredFactory(config);
+    }
+
     switch (config.provider) {
         case "genai":
             return new GoogleGenAIProvider(config as any); // Temporarily cast to any
@@ -65,9 +120,56 @@ export function createProvider(config: LLMConfig): ILLMProvider {
                 awsSecretAccessKey: bedrockConfig.awsSecretAccessKey,
                 awsSessionToken: bedrockConfig.awsSessionToken,
             });
+        case "ollama":
+            return new OllamaProvider((config as OllamaConfig).baseUrl);
+        case "grok":
+            const grokConfig = config as GrokConfig;
+            return new OpenAICompatibleProvider({
+                provider: "grok",
+                baseURL: grokConfig.baseURL || GROK_BASE_URL,
+                apiKey: grokConfig.apiKey || process.env.GROK_API_KEY,
+                headers: grokConfig.headers,
+                capabilities: grokConfig.capabilities,
+            });
+        case "openai-compatible":
+            const compatibleConfig = config as OpenAICompatibleConfig;
+            if (!compatibleConfig.baseURL) {
+                throw new Error("baseURL is required for 'openai-compatible' providers");
+            }
+            return new OpenAICompatibleProvider({
+                baseURL: compatibleConfig.baseURL,
+                apiKey: compatibleConfig.apiKey,
+                headers: compatibleConfig.headers,
+                capabilities: compatibleConfig.capabilities,
+            });
+        default:
+            throw new Error(
+                `Provider ${config.provider} not supported. Use 'openai', 'anthropic', 'bedrock', 'genai', 'ollama', 'grok', 'openai-compatible', or register it with registerProvider().`
+            );
+    }
+}
+
+/**
+ * Creates an instance of an embedding provider based on the provided configuration
+ * @param config The embedding configuration
+ * @returns An embedding provider instance
+ * @throws Error if the provider is not supported
+ */
+export function createEmbeddingProvider(
+    config: EmbeddingConfig
+): IEmbeddingProvider {
+    switch (config.provider) {
+        case "openai":
+            return new OpenAIEmbeddingProvider(config);
+        case "genai":
+            return new GoogleGenAIEmbeddingProvider(config);
+        case "bedrock":
+            return new BedrockEmbeddingProvider(config);
+        case "hash":
+            return new HashEmbeddingProvider(config);
         default:
             throw new Error(
-                `Provider ${config.provider} not supported. Use 'openai', 'anthropic', or 'bedrock'.`
+                `Embedding provider ${(config as EmbeddingConfig).provider} not supported. Use 'openai', 'genai', 'bedrock', or 'hash'.`
             );
     }
 }
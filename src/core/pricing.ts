@@ -0,0 +1,248 @@
+import { TokenUsage, UsageRecord } from "./types";
+
+/**
+ * Prices of a model in USD. Token prices are per million tokens.
+ */
+export interface ModelPricing {
+    inputPerMillion: number;
+    outputPerMillion: number;
+    cacheReadPerMillion?: number; // Cached input tokens (default: input price)
+    cacheWritePerMillion?: number; // Input tokens written to the cache (default: input price)
+    thinkingPerMillion?: number; // Thinking tokens, which count as output (default: output price)
+    perSearch?: number; // Each web search
+    perFetch?: number; // Each web fetch
+    maxOutputTokens?: number; // Largest output of one call; budgets reserve it when maxTokens is unset
+}
+
+/**
+ * Cost of one or more LLM calls in USD, by charge
+ */
+export type CostBreakdown = {
+    input: number; // Uncached input tokens
+    cacheRead: number;
+    cacheWrite: number;
+    output: number; // Output tokens other than thinking
+    thinking: number;
+    search: number;
+    fetch: number;
+    total: number;
+};
+
+/**
+ * Cost of a list of usage records, in total and per provider and model
+ */
+export type CostReport = CostBreakdown & {
+    byModel: Record<string, CostBreakdown & { calls: number }>; // Keyed by "provider:model"
+    unpricedCalls: number; // Calls whose model has no known pricing; not included in the costs
+};
+
+/**
+ * Anthropic list prices, shared by the anthropic and bedrock providers.
+ * Cache reads cost 10% and 5-minute cache writes 125% of the input price.
+ */
+const ANTHROPIC_PRICING: Record<string, ModelPricing> = {
+    "claude-opus-4-5": anthropicPricing(5, 25, 64000),
+    "claude-opus-4-1": anthropicPricing(15, 75, 32000),
+    "claude-opus-4": anthropicPricing(15, 75, 32000),
+    "claude-sonnet-4-5": anthropicPricing(3, 15, 64000),
+    "claude-sonnet-4": anthropicPricing(3, 15, 64000),
+    "claude-3-7-sonnet": anthropicPricing(3, 15, 64000),
+    "claude-3-5-sonnet": anthropicPricing(3, 15, 8192),
+    "claude-haiku-4-5": anthropicPricing(1, 5, 64000),
+    "claude-3-5-haiku": anthropicPricing(0.8, 4, 8192),
+    "claude-3-haiku": anthropicPricing(0.25, 1.25, 4096),
+};
+
+function anthropicPricing(input: number, output: number, maxOutputTokens: number): ModelPricing {
+    return {
+        inputPerMillion: input,
+        outputPerMillion: output,
+        cacheReadPerMillion: input * 0.1,
+        cacheWritePerMillion: input * 1.25,
+        perSearch: 0.01,
+        perFetch: 0,
+        maxOutputTokens,
+    };
+}
+
+/**
+ * Built-in list prices by provider and model. Models match by exact name or
+ * as a prefix of versioned names, e.g. "gpt-4o" matches "gpt-4o-2024-08-06";
+ * the longest match wins. A "*" entry applies to every model of a provider.
+ * Prices change; register your own with registerModelPricing.
+ */
+const DEFAULT_PRICING: Record<string, Record<string, ModelPricing>> = {
+    openai: {
+        "gpt-5": { inputPerMillion: 1.25, outputPerMillion: 10, cacheReadPerMillion: 0.125, perSearch: 0.01, maxOutputTokens: 128000 },
+        "gpt-5-mini": { inputPerMillion: 0.25, outputPerMillion: 2, cacheReadPerMillion: 0.025, perSearch: 0.01, maxOutputTokens: 128000 },
+        "gpt-5-nano": { inputPerMillion: 0.05, outputPerMillion: 0.4, cacheReadPerMillion: 0.005, perSearch: 0.01, maxOutputTokens: 128000 },
+        "gpt-4.1": { inputPerMillion: 2, outputPerMillion: 8, cacheReadPerMillion: 0.5, perSearch: 0.01, maxOutputTokens: 32768 },
+        "gpt-4.1-mini": { inputPerMillion: 0.4, outputPerMillion: 1.6, cacheReadPerMillion: 0.1, perSearch: 0.01, maxOutputTokens: 32768 },
+        "gpt-4.1-nano": { inputPerMillion: 0.1, outputPerMillion: 0.4, cacheReadPerMillion: 0.025, perSearch: 0.01, maxOutputTokens: 32768 },
+        "gpt-4o": { inputPerMillion: 2.5, outputPerMillion: 10, cacheReadPerMillion: 1.25, perSearch: 0.01, maxOutputTokens: 16384 },
+        "gpt-4o-mini": { inputPerMillion: 0.15, outputPerMillion: 0.6, cacheReadPerMillion: 0.075, perSearch: 0.01, maxOutputTokens: 16384 },
+        "o1": { inputPerMillion: 15, outputPerMillion: 60, cacheReadPerMillion: 7.5, maxOutputTokens: 100000 },
+        "o1-mini": { inputPerMillion: 1.1, outputPerMillion: 4.4, cacheReadPerMillion: 0.55, maxOutputTokens: 65536 },
+        "o3": { inputPerMillion: 2, outputPerMillion: 8, cacheReadPerMillion: 0.5, perSearch: 0.01, maxOutputTokens: 100000 },
+        "o3-mini": { inputPerMillion: 1.1, outputPerMillion: 4.4, cacheReadPerMillion: 0.55, maxOutputTokens: 100000 },
+        "o4-mini": { inputPerMillion: 1.1, outputPerMillion: 4.4, cacheReadPerMillion: 0.275, perSearch: 0.01, maxOutputTokens: 100000 },
+    },
+    anthropic: ANTHROPIC_PRICING,
+    bedrock: ANTHROPIC_PRICING,
+    genai: {
+        "gemini-2.5-pro": { inputPerMillion: 1.25, outputPerMillion: 10, cacheReadPerMillion: 0.125, perSearch: 0.035, maxOutputTokens: 65536 },
+        "gemini-2.5-flash": { inputPerMillion: 0.3, outputPerMillion: 2.5, cacheReadPerMillion: 0.03, perSearch: 0.035, maxOutputTokens: 65536 },
+        "gemini-2.5-flash-lite": { inputPerMillion: 0.1, outputPerMillion: 0.4, cacheReadPerMillion: 0.01, perSearch: 0.035, maxOutputTokens: 65536 },
+        "gemini-2.0-flash": { inputPerMillion: 0.1, outputPerMillion: 0.4, cacheReadPerMillion: 0.025, perSearch: 0.035, maxOutputTokens: 8192 },
+    },
+    grok: {
+        "grok-4": { inputPerMillion: 3, outputPerMillion: 15, cacheReadPerMillion: 0.75 },
+        "grok-3": { inputPerMillion: 3, outputPerMillion: 15, cacheReadPerMillion: 0.75 },
+        "grok-3-mini": { inputPerMillion: 0.3, outputPerMillion: 0.5, cacheReadPerMillion: 0.075 },
+    },
+    ollama: {
+        "*": { inputPerMillion: 0, outputPerMillion: 0 },
+    },
+    mock: {
+        "*": { inputPerMillion: 0, outputPerMillion: 0 },
+    },
+};
+
+/**
+ * Pricing registered with registerModelPricing, by provider and model
+ */
+const customPricing: Record<string, Record<string, ModelPricing>> = {};
+
+/**
+ * Register the pricing of a model, overriding the built-in prices.
+ * Use "*" as the model to price every model of a provider.
+ *
+ * @param provider The provider name used in llmConfig.provider
+ * @param model The model name, or a prefix of versioned model names
+ * @param pricing The model's prices
+ */
+export function registerModelPricing(provider: string, model: string, pricing: ModelPricing): void {
+    customPricing[provider] = { ...customPricing[provider], [model]: pricing };
+}
+
+/**
+ * Remove pricing registered with registerModelPricing
+ *
+ * @returns true if pricing was registered for the provider and model
+ */
+export function unregisterModelPricing(provider: string, model: string): boolean {
+    if (!customPricing[provider]?.[model]) {
+        return false;
+    }
+    delete customPricing[provider][model];
+    return true;
+}
+
+/**
+ * Get the pricing of a model: registered pricing first, then the built-in
+ * prices
+ *
+ * @returns The pricing, or undefined if the model is unknown
+ */
+export function getModelPricing(provider: string, model: string): ModelPricing | undefined {
+    return (
+        findPricing(customPricing[provider], model) ?? findPricing(DEFAULT_PRICING[provider], model)
+    );
+}
+
+/**
+ * Find a model in a provider's price table by exact name, then longest
+ * prefix, then the "*" entry. Bedrock ids such as
+ * "us.anthropic.claude-sonnet-4-20250514-v1:0" match on the part after the
+ * vendor prefix.
+ */
+function findPricing(
+    table: Record<string, ModelPricing> | undefined,
+    model: string
+): ModelPricing | undefined {
+    if (!table) {
+        return undefined;
+    }
+    if (table[model]) {
+        return table[model];
+    }
+
+    const matches = Object.keys(table).filter(
+        (key) =>
+            key !== "*" &&
+            (model.startsWith(`${key}-`) || model.includes(`.${key}-`) || model.endsWith(`.${key}`))
+    );
+    if (matches.length > 0) {
+        const longest = matches.reduce((a, b) => (b.length > a.length ? b : a));
+        return table[longest];
+    }
+    return table["*"];
+}
+
+/**
+ * Cost of the usage of a single call or a sum of calls
+ *
+ * Implementation notes:
+ * - inputTokens includes cache reads and writes; they are priced at the
+ *   cache rates and the rest at the input rate
+ * - thinkingTokens are part of outputTokens; they are priced at the thinking
+ *   rate and the rest at the output rate
+ */
+export function estimateCost(usage: TokenUsage, pricing: ModelPricing): CostBreakdown {
+    const perToken = (pricePerMillion: number) => pricePerMillion / 1_000_000;
+
+    const cacheReadTokens = usage.cacheReadTokens ?? 0;
+    const cacheWriteTokens = usage.cacheWriteTokens ?? 0;
+    const uncachedInput = Math.max(0, usage.inputTokens - cacheReadTokens - cacheWriteTokens);
+    const thinkingTokens = Math.min(usage.thinkingTokens ?? 0, usage.outputTokens);
+
+    const cost = {
+        input: uncachedInput * perToken(pricing.inputPerMillion),
+        cacheRead: cacheReadTokens * perToken(pricing.cacheReadPerMillion ?? pricing.inputPerMillion),
+        cacheWrite: cacheWriteTokens * perToken(pricing.cacheWritePerMillion ?? pricing.inputPerMillion),
+        output: (usage.outputTokens - thinkingTokens) * perToken(pricing.outputPerMillion),
+        thinking: thinkingTokens * perToken(pricing.thinkingPerMillion ?? pricing.outputPerMillion),
+        search: (usage.searchCount ?? 0) * (pricing.perSearch ?? 0),
+        fetch: (usage.fetchCount ?? 0) * (pricing.perFetch ?? 0),
+    };
+    return { ...cost, total: Object.values(cost).reduce((total, value) => total + value, 0) };
+}
+
+/**
+ * Convert usage records to costs, in total and per provider and model.
+ * Records of models without pricing are counted in unpricedCalls.
+ *
+ * @example
+ * const report = calculateCost(pipeline.getUsageRecords());
+ * console.log(`$${report.total.toFixed(4)}`, report.byModel);
+ */
+export function calculateCost(records: UsageRecord[]): CostReport {
+    const report: CostReport = { ...emptyBreakdown(), byModel: {}, unpricedCalls: 0 };
+
+    for (const record of records) {
+        const pricing = getModelPricing(record.provider, record.model);
+        if (!pricing) {
+            report.unpricedCalls++;
+            continue;
+        }
+
+        const cost = estimateCost(record.tokenUsage, pricing);
+        const key = `${record.provider}:${record.model}`;
+        const modelCost = (report.byModel[key] ??= { ...emptyBreakdown(), calls: 0 });
+        modelCost.calls++;
+        addBreakdown(modelCost, cost);
+        addBreakdown(report, cost);
+    }
+
+    return report;
+}
+
+function emptyBreakdown(): CostBreakdown {
+    return { input: 0, cacheRead: 0, cacheWrite: 0, output: 0, thinking: 0, search: 0, fetch: 0, total: 0 };
+}
+
+function addBreakdown(total: CostBreakdown, cost: CostBreakdown): void {
+    for (const key of Object.keys(cost) as (keyof CostBreakdown)[]) {
+        total[key] += cost[key];
+    }
+}
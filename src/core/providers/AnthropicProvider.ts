@@ -1,6 +1,24 @@
 import Anthropic from "@anthropic-ai/sdk";
 import { ILLMProvider, LLMResponse, ProviderBatchRequest, ProviderBatchResponse, ProviderBatchItemResult } from "./ILLMProvider";
-import { AnthropicConfig, BatchMetadata, BatchStatus, LLMConfig, StreamChunk, TokenUsage } from "../types";
+import { AnthropicConfig, BatchMetadata, BatchStatus, LLMConfig, StreamChunk, TokenUsage, PromptInput, InvokeOptions, ToolCall, Citation, WebSource, ThinkingBlock } from "../types";
+import { splitSystemMessages } from "../messages";
+import { sdkRetryOptions } from "../retry";
+import {
+    toAnthropicMessages,
+    toAnthropicTools,
+    toAnthropicToolChoice,
+    extractToolCalls,
+    extractThinkingBlocks,
+    StreamedToolCalls,
+    StreamedThinking,
+    StreamedCitations,
+    extractCitations,
+    toStructuredOutputTool,
+    takeStructuredOutput,
+    applyPromptCaching,
+    toTokenUsage,
+    mergeStreamUsage,
+} from "./anthropicMessages";
 import { Stream } from "@anthropic-ai/sdk/core/streaming";
 import {
     RawMessageStreamEvent,
@@ -46,15 +64,19 @@ export class AnthropicProvider implements ILLMProvider {
         return tools;
     }
 
-    private buildRequestOptions(config: AnthropicConfig): object | undefined {
-        return config.webFetch?.enabled
-            ? { headers: { "anthropic-beta": "web-fetch-2025-09-10" } }
-            : undefined;
+    private buildRequestOptions(config: AnthropicConfig): object {
+        return {
+            ...sdkRetryOptions(config),
+            ...(config.webFetch?.enabled && {
+                headers: { "anthropic-beta": "web-fetch-2025-09-10" },
+            }),
+        };
     }
 
     async invoke(
-        prompt: string,
-        config: AnthropicConfig
+        prompt: PromptInput,
+        config: AnthropicConfig,
+        options?: InvokeOptions
     ): Promise<LLMResponse> {
         const {
             model,
@@ -71,18 +93,36 @@ export class AnthropicProvider implements ILLMProvider {
             throw new Error("maxTokens is required for Anthropic models");
         }
 
-        const tools = this.buildWebTools(config);
+        const responseFormat = options?.responseFormat;
+        const tools = [
+            ...this.buildWebTools(config),
+            ...toAnthropicTools(options?.tools),
+            ...(responseFormat ? [toStructuredOutputTool(responseFormat)] : []),
+        ];
+        // Force the output tool unless the model also has tools of its own to call
+        const toolChoice =
+            responseFormat && !options?.tools?.length
+                ? { name: responseFormat.name }
+                : options?.toolChoice;
+
+        const split = splitSystemMessages(prompt, providerOptions?.systemPrompt);
+        const { system, messages } = applyPromptCaching(
+            split.system,
+            await toAnthropicMessages(split.messages),
+            config.promptCaching
+        );
 
         const baseParams = {
             model,
             max_tokens: maxTokens,
-            messages: [{ role: "user" as const, content: prompt }],
+            messages,
             ...(temperature !== undefined && { temperature }),
             ...(topK !== undefined && { top_k: topK }),
             ...(topP !== undefined && { top_p: topP }),
-            ...(providerOptions?.systemPrompt && { system: providerOptions.systemPrompt }),
+            ...(system && { system }),
             ...(thinking && { thinking }),
             ...(tools.length > 0 && { tools }),
+            ...(toolChoice && { tool_choice: toAnthropicToolChoice(toolChoice) }),
         };
 
         const requestOptions = this.buildRequestOptions(config);
@@ -100,21 +140,33 @@ export class AnthropicProvider implements ILLMProvider {
         // Extract content and thinking
         let content = "";
         let thinkingContent = "";
+        let toolCalls: ToolCall[] = [];
+        let thinkingBlocks: ThinkingBlock[] = [];
+        let citations: Citation[] = [];
+        let sources: WebSource[] = [];
+        let stopReason: string | undefined;
         let usage: Message["usage"] | MessageDeltaUsage | undefined;
 
         // Stream response handling
         if (stream) {
             const streamResponse = response as Stream<RawMessageStreamEvent>;
+            const streamedToolCalls = new StreamedToolCalls();
+            const streamedCitations = new StreamedCitations();
+            const streamedThinking = new StreamedThinking();
             
             for await (const event of streamResponse) {
+                streamedToolCalls.add(event);
+                streamedThinking.add(event);
+                streamedCitations.add(event, content.length);
                 switch (event.type) {
                     case "message_start":
                         usage = event.message.usage;
                         break;
                     case "message_delta":
+                        stopReason = event.delta.stop_reason ?? stopReason;
                         // Update usage with delta
                         if (event.usage) {
-                            usage = event.usage;
+                            usage = mergeStreamUsage(usage, event.usage);
                         }
                         break;
                     case "content_block_start":
@@ -133,9 +185,17 @@ export class AnthropicProvider implements ILLMProvider {
                         break;
                 }
             }
+            toolCalls = streamedToolCalls.toolCalls();
+            citations = streamedCitations.citations();
+            sources = streamedCitations.sources();
+            thinkingBlocks = streamedThinking.thinkingBlocks();
         } else {
             const messageResponse = response as Message;
             usage = messageResponse.usage;
+            toolCalls = extractToolCalls(messageResponse.content);
+            thinkingBlocks = extractThinkingBlocks(messageResponse.content);
+            ({ citations, sources } = extractCitations(messageResponse.content));
+            stopReason = messageResponse.stop_reason ?? undefined;
             
             for (const block of messageResponse.content) {
                 if (block.type === "text") {
@@ -146,35 +206,33 @@ export class AnthropicProvider implements ILLMProvider {
             }
         }
 
-        // Calculate thinking tokens (rough estimate if not provided)
-        // Anthropic includes thinking tokens in output tokens
-        let thinkingTokens = 0;
-        if (thinking && usage) {
-            // Rough estimate: thinking tokens = total output - content length/4
-            // This is an approximation since we don't get exact thinking token count
-            const contentTokenEstimate = Math.ceil(content.length / 4);
-            thinkingTokens = Math.max(
-                0,
-                (usage.output_tokens || 0) - contentTokenEstimate
-            );
+        // The forced output tool call is the structured response
+        if (options?.responseFormat) {
+            const structured = takeStructuredOutput(toolCalls, options.responseFormat);
+            if (structured.content !== undefined) {
+                content = structured.content;
+                toolCalls = structured.toolCalls;
+                if (toolCalls.length === 0) {
+                    stopReason = "end_turn";
+                }
+            }
         }
 
         return {
             content,
             thinking: thinkingContent || undefined,
-            usage: {
-                inputTokens: usage?.input_tokens || 0,
-                outputTokens: usage?.output_tokens || 0,
-                thinkingTokens: thinkingTokens,
-                searchCount: (usage as any)?.search_count,
-                fetchCount: (usage as any)?.fetch_count,
-            },
+            usage: toTokenUsage(usage),
             raw: response,
+            ...(thinkingBlocks.length > 0 && { thinkingBlocks }),
+            ...(toolCalls.length > 0 && { toolCalls }),
+            ...(citations.length > 0 && { citations }),
+            ...(sources.length > 0 && { sources }),
+            stopReason,
         };
     }
 
     async *invokeStream(
-        prompt: string,
+        prompt: PromptInput,
         config: AnthropicConfig
     ): AsyncGenerator<StreamChunk> {
         const {
@@ -193,14 +251,21 @@ export class AnthropicProvider implements ILLMProvider {
 
         const tools = this.buildWebTools(config);
 
+        const split = splitSystemMessages(prompt, providerOptions?.systemPrompt);
+        const { system, messages } = applyPromptCaching(
+            split.system,
+            await toAnthropicMessages(split.messages),
+            config.promptCaching
+        );
+
         const baseParams = {
             model,
             max_tokens: maxTokens,
-            messages: [{ role: "user" as const, content: prompt }],
+            messages,
             ...(temperature !== undefined && { temperature }),
             ...(topK !== undefined && { top_k: topK }),
             ...(topP !== undefined && { top_p: topP }),
-            ...(providerOptions?.systemPrompt && { system: providerOptions.systemPrompt }),
+            ...(system && { system }),
             ...(thinking && { thinking }),
             ...(tools.length > 0 && { tools }),
         };
@@ -212,12 +277,12 @@ export class AnthropicProvider implements ILLMProvider {
             stream: true,
         } as MessageCreateParamsStreaming, requestOptions);
 
-        const tokenUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+        let usage: any;
 
         for await (const event of stream as Stream<RawMessageStreamEvent>) {
             switch (event.type) {
                 case "message_start":
-                    tokenUsage.inputTokens = event.message.usage?.input_tokens || 0;
+                    usage = event.message.usage;
                     break;
                 case "content_block_delta":
                     if (event.delta.type === "text_delta") {
@@ -226,13 +291,20 @@ export class AnthropicProvider implements ILLMProvider {
                     break;
                 case "message_delta":
                     if (event.usage) {
-                        tokenUsage.outputTokens = event.usage.output_tokens || 0;
+                        usage = mergeStreamUsage(usage, event.usage);
                     }
                     break;
             }
         }
 
-        yield { text: "", tokenUsage };
+        yield { text: "", tokenUsage: toTokenUsage(usage) };
+    }
+
+    /**
+     * Structured output forces a tool call, which extended thinking doesn't allow
+     */
+    supportsResponseFormat(config: LLMConfig): boolean {
+        return !(config as AnthropicConfig).thinking;
     }
 
     supportsBatch(): boolean {
@@ -252,6 +324,11 @@ export class AnthropicProvider implements ILLMProvider {
 
         const tools = this.buildWebTools(anthropicConfig);
         const requestOptions = this.buildRequestOptions(anthropicConfig);
+        const { system } = applyPromptCaching(
+            providerOptions?.systemPrompt,
+            [],
+            anthropicConfig.promptCaching
+        );
 
         const batchRequests = requests.map((req) => ({
             custom_id: req.customId,
@@ -262,7 +339,7 @@ export class AnthropicProvider implements ILLMProvider {
                 ...(temperature !== undefined && { temperature }),
                 ...(topK !== undefined && { top_k: topK }),
                 ...(topP !== undefined && { top_p: topP }),
-                ...(providerOptions?.systemPrompt && { system: providerOptions.systemPrompt }),
+                ...(system && { system }),
                 ...(thinking && { thinking }),
                 ...(tools.length > 0 && { tools }),
             },
@@ -285,7 +362,10 @@ export class AnthropicProvider implements ILLMProvider {
         metadata: BatchMetadata,
         config: LLMConfig
     ): Promise<ProviderBatchResponse> {
-        const batch = await this.client.messages.batches.retrieve(metadata.batchId);
+        const batch = await this.client.messages.batches.retrieve(
+            metadata.batchId,
+            sdkRetryOptions(config)
+        );
 
         // Map Anthropic processing_status to our BatchStatus
         let status: BatchStatus;
@@ -323,7 +403,11 @@ export class AnthropicProvider implements ILLMProvider {
         // Batch is ended — stream results
         const results: ProviderBatchItemResult[] = [];
 
-        for await (const result of await this.client.messages.batches.results(metadata.batchId)) {
+        const batchResults = await this.client.messages.batches.results(
+            metadata.batchId,
+            sdkRetryOptions(config)
+        );
+        for await (const result of batchResults) {
             const itemResult: ProviderBatchItemResult = {
                 customId: result.custom_id,
                 status: 'failed',
@@ -340,12 +424,7 @@ export class AnthropicProvider implements ILLMProvider {
                     }
                     itemResult.status = "success";
                     itemResult.content = content;
-                    itemResult.tokenUsage = {
-                        inputTokens: message.usage?.input_tokens || 0,
-                        outputTokens: message.usage?.output_tokens || 0,
-                        searchCount: (message.usage as any)?.server_tool_use?.web_search_requests,
-                        fetchCount: (message.usage as any)?.server_tool_use?.web_fetch_requests,
-                    };
+                    itemResult.tokenUsage = toTokenUsage(message.usage);
                     break;
                 }
                 case "errored": {
@@ -0,0 +1,93 @@
+import {
+    BedrockRuntimeClient,
+    InvokeModelCommand,
+} from "@aws-sdk/client-bedrock-runtime";
+import { IEmbeddingProvider, EmbeddingPurpose, EmbeddingResponse } from "./IEmbeddingProvider";
+import { BedrockEmbeddingConfig } from "../types";
+
+/**
+ * AWS Bedrock embedding provider implementation
+ * Supports Amazon Titan text embeddings (one text per request) and
+ * Cohere embeddings (batched requests)
+ */
+export class BedrockEmbeddingProvider implements IEmbeddingProvider {
+    private client: BedrockRuntimeClient;
+    private dimensions?: number;
+    readonly provider = "bedrock";
+    readonly model: string;
+
+    constructor(config: Omit<BedrockEmbeddingConfig, "provider">) {
+        this.model = config.model;
+        this.dimensions = config.dimensions;
+        this.client = new BedrockRuntimeClient({
+            region: config.awsRegion || process.env.AWS_REGION,
+            ...(config.awsAccessKeyId &&
+                config.awsSecretAccessKey && {
+                    credentials: {
+                        accessKeyId: config.awsAccessKeyId,
+                        secretAccessKey: config.awsSecretAccessKey,
+                        ...(config.awsSessionToken && {
+                            sessionToken: config.awsSessionToken,
+                        }),
+                    },
+                }),
+        });
+    }
+
+    async embed(
+        texts: string[],
+        purpose: EmbeddingPurpose = "document"
+    ): Promise<EmbeddingResponse> {
+        if (texts.length === 0) {
+            return { embeddings: [] };
+        }
+
+        if (this.model.includes("cohere.")) {
+            return this.embedCohere(texts, purpose);
+        }
+
+        // Titan models accept a single input text per request
+        const embeddings: number[][] = [];
+        let inputTokens = 0;
+        for (const text of texts) {
+            const body = await this.invokeModel({
+                inputText: text,
+                ...(this.dimensions !== undefined && { dimensions: this.dimensions }),
+            });
+            embeddings.push(body.embedding);
+            inputTokens += body.inputTextTokenCount || 0;
+        }
+
+        return { embeddings, usage: { inputTokens } };
+    }
+
+    private async embedCohere(
+        texts: string[],
+        purpose: EmbeddingPurpose
+    ): Promise<EmbeddingResponse> {
+        const body = await this.invokeModel({
+            texts,
+            input_type: purpose === "query" ? "search_query" : "search_document",
+        });
+
+        // Newer Cohere models return embeddings keyed by type
+        const embeddings = Array.isArray(body.embeddings)
+            ? body.embeddings
+            : body.embeddings?.float;
+
+        return { embeddings: embeddings ?? [] };
+    }
+
+    private async invokeModel(payload: Record<string, any>): Promise<any> {
+        const response = await this.client.send(
+            new InvokeModelCommand({
+                modelId: this.model,
+                contentType: "application/json",
+                accept: "application/json",
+                body: JSON.stringify(payload),
+            })
+        );
+
+        return JSON.parse(new TextDecoder().decode(response.body));
+    }
+}
@@ -1,6 +1,24 @@
 import { AnthropicBedrock } from "@anthropic-ai/bedrock-sdk";
 import { ILLMProvider, LLMResponse } from "./ILLMProvider";
-import { BedrockConfig, StreamChunk, TokenUsage } from "../types";
+import { BedrockConfig, LLMConfig, StreamChunk, TokenUsage, PromptInput, InvokeOptions, ToolCall, Citation, WebSource, ThinkingBlock } from "../types";
+import { splitSystemMessages } from "../messages";
+import { sdkRetryOptions } from "../retry";
+import {
+    toAnthropicMessages,
+    toAnthropicTools,
+    toAnthropicToolChoice,
+    extractToolCalls,
+    extractThinkingBlocks,
+    StreamedToolCalls,
+    StreamedThinking,
+    StreamedCitations,
+    extractCitations,
+    toStructuredOutputTool,
+    takeStructuredOutput,
+    applyPromptCaching,
+    toTokenUsage,
+    mergeStreamUsage,
+} from "./anthropicMessages";
 import { Stream } from "@anthropic-ai/sdk/core/streaming";
 import {
     RawMessageStreamEvent,
@@ -31,8 +49,9 @@ export class BedrockProvider implements ILLMProvider {
     }
 
     async invoke(
-        prompt: string,
-        config: BedrockConfig
+        prompt: PromptInput,
+        config: BedrockConfig,
+        options?: InvokeOptions
     ): Promise<LLMResponse> {
         const {
             model,
@@ -49,48 +68,77 @@ export class BedrockProvider implements ILLMProvider {
             throw new Error("maxTokens is required for Bedrock models");
         }
 
+        const split = splitSystemMessages(prompt, providerOptions?.systemPrompt);
+        const { system, messages } = applyPromptCaching(
+            split.system,
+            await toAnthropicMessages(split.messages, false),
+            config.promptCaching
+        );
+
+        const responseFormat = options?.responseFormat;
+        const tools = [
+            ...toAnthropicTools(options?.tools),
+            ...(responseFormat ? [toStructuredOutputTool(responseFormat)] : []),
+        ];
+        // Force the output tool unless the model also has tools of its own to call
+        const toolChoice =
+            responseFormat && !options?.tools?.length
+                ? { name: responseFormat.name }
+                : options?.toolChoice;
+
         const baseParams = {
             model,
             max_tokens: maxTokens,
-            messages: [{ role: "user" as const, content: prompt }],
+            messages,
             ...(temperature !== undefined && { temperature }),
             ...(topK !== undefined && { top_k: topK }),
             ...(topP !== undefined && { top_p: topP }),
-            ...(providerOptions?.systemPrompt && { system: providerOptions.systemPrompt }),
+            ...(system && { system }),
             ...(thinking && { thinking }),
+            ...(tools.length > 0 && { tools }),
+            ...(toolChoice && { tool_choice: toAnthropicToolChoice(toolChoice) }),
         };
 
         const response = stream
             ? await this.client.messages.create({
                 ...baseParams,
                 stream: true,
-            } as MessageCreateParamsStreaming)
+            } as MessageCreateParamsStreaming, sdkRetryOptions(config))
             : await this.client.messages.create({
                 ...baseParams,
                 stream: false,
-            } as MessageCreateParamsNonStreaming);
+            } as MessageCreateParamsNonStreaming, sdkRetryOptions(config));
 
         // Extract content and thinking
         let content = "";
         let thinkingContent = "";
+        let toolCalls: ToolCall[] = [];
+        let thinkingBlocks: ThinkingBlock[] = [];
+        let citations: Citation[] = [];
+        let sources: WebSource[] = [];
+        let stopReason: string | undefined;
         let usage: Message["usage"] | undefined;
 
         // Stream response handling
         if (stream) {
             const streamResponse = response as Stream<RawMessageStreamEvent>;
+            const streamedToolCalls = new StreamedToolCalls();
+            const streamedCitations = new StreamedCitations();
+            const streamedThinking = new StreamedThinking();
 
             for await (const event of streamResponse) {
+                streamedToolCalls.add(event);
+                streamedThinking.add(event);
+                streamedCitations.add(event, content.length);
                 switch (event.type) {
                     case "message_start":
                         usage = event.message.usage;
                         break;
                     case "message_delta":
+                        stopReason = event.delta.stop_reason ?? stopReason;
                         // Update usage with delta
                         if (event.usage) {
-                            usage = {
-                                ...usage,
-                                output_tokens: (usage?.output_tokens || 0) + (event.usage.output_tokens || 0),
-                            } as Message["usage"];
+                            usage = mergeStreamUsage(usage, event.usage);
                         }
                         break;
                     case "content_block_start":
@@ -109,9 +157,17 @@ export class BedrockProvider implements ILLMProvider {
                         break;
                 }
             }
+            toolCalls = streamedToolCalls.toolCalls();
+            citations = streamedCitations.citations();
+            sources = streamedCitations.sources();
+            thinkingBlocks = streamedThinking.thinkingBlocks();
         } else {
             const messageResponse = response as Message;
             usage = messageResponse.usage;
+            toolCalls = extractToolCalls(messageResponse.content);
+            thinkingBlocks = extractThinkingBlocks(messageResponse.content);
+            ({ citations, sources } = extractCitations(messageResponse.content));
+            stopReason = messageResponse.stop_reason ?? undefined;
 
             for (const block of messageResponse.content) {
                 if (block.type === "text") {
@@ -122,33 +178,33 @@ export class BedrockProvider implements ILLMProvider {
             }
         }
 
-        // Calculate thinking tokens (rough estimate if not provided)
-        // Anthropic includes thinking tokens in output tokens
-        let thinkingTokens = 0;
-        if (thinking && usage) {
-            // Rough estimate: thinking tokens = total output - content length/4
-            // This is an approximation since we don't get exact thinking token count
-            const contentTokenEstimate = Math.ceil(content.length / 4);
-            thinkingTokens = Math.max(
-                0,
-                (usage.output_tokens || 0) - contentTokenEstimate
-            );
+        // The forced output tool call is the structured response
+        if (options?.responseFormat) {
+            const structured = takeStructuredOutput(toolCalls, options.responseFormat);
+            if (structured.content !== undefined) {
+                content = structured.content;
+                toolCalls = structured.toolCalls;
+                if (toolCalls.length === 0) {
+                    stopReason = "end_turn";
+                }
+            }
         }
 
         return {
             content,
             thinking: thinkingContent || undefined,
-            usage: {
-                inputTokens: usage?.input_tokens || 0,
-                outputTokens: usage?.output_tokens || 0,
-                thinkingTokens: thinkingTokens,
-            },
+            usage: toTokenUsage(usage),
             raw: response,
+            ...(thinkingBlocks.length > 0 && { thinkingBlocks }),
+            ...(toolCalls.length > 0 && { toolCalls }),
+            ...(citations.length > 0 && { citations }),
+            ...(sources.length > 0 && { sources }),
+            stopReason,
         };
     }
 
     async *invokeStream(
-        prompt: string,
+        prompt: PromptInput,
         config: BedrockConfig
     ): AsyncGenerator<StreamChunk> {
         const {
@@ -165,28 +221,35 @@ export class BedrockProvider implements ILLMProvider {
             throw new Error("maxTokens is required for Bedrock models");
         }
 
+        const split = splitSystemMessages(prompt, providerOptions?.systemPrompt);
+        const { system, messages } = applyPromptCaching(
+            split.system,
+            await toAnthropicMessages(split.messages, false),
+            config.promptCaching
+        );
+
         const baseParams = {
             model,
             max_tokens: maxTokens,
-            messages: [{ role: "user" as const, content: prompt }],
+            messages,
             ...(temperature !== undefined && { temperature }),
             ...(topK !== undefined && { top_k: topK }),
             ...(topP !== undefined && { top_p: topP }),
-            ...(providerOptions?.systemPrompt && { system: providerOptions.systemPrompt }),
+            ...(system && { system }),
             ...(thinking && { thinking }),
         };
 
         const stream = await this.client.messages.create({
             ...baseParams,
             stream: true,
-        } as MessageCreateParamsStreaming);
+        } as MessageCreateParamsStreaming, sdkRetryOptions(config));
 
-        const tokenUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+        let usage: any;
 
         for await (const event of stream as Stream<RawMessageStreamEvent>) {
             switch (event.type) {
                 case "message_start":
-                    tokenUsage.inputTokens = event.message.usage?.input_tokens || 0;
+                    usage = event.message.usage;
                     break;
                 case "content_block_delta":
                     if (event.delta.type === "text_delta") {
@@ -195,13 +258,20 @@ export class BedrockProvider implements ILLMProvider {
                     break;
                 case "message_delta":
                     if (event.usage) {
-                        tokenUsage.outputTokens = event.usage.output_tokens || 0;
+                        usage = mergeStreamUsage(usage, event.usage);
                     }
                     break;
             }
         }
 
-        yield { text: "", tokenUsage };
+        yield { text: "", tokenUsage: toTokenUsage(usage) };
+    }
+
+    /**
+     * Structured output forces a tool call, which extended thinking doesn't allow
+     */
+    supportsResponseFormat(config: LLMConfig): boolean {
+        return !(config as BedrockConfig).thinking;
     }
 
     supportsBatch(): boolean {
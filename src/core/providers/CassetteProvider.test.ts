@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { z } from "zod";
+import { CassetteProvider, Cassette } from "./CassetteProvider";
+import { MockProvider } from "./MockProvider";
+import { StructuredOutputNode } from "../../nodes/StructuredOutputNode";
+import { LLMConfig } from "../types";
+
+const config: LLMConfig = { provider: "mock", model: "mock-model", apiKey: "secret" };
+
+describe("CassetteProvider", () => {
+    let directory: string;
+    let cassettePath: string;
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), "cassette-"));
+        cassettePath = path.join(directory, "cassette.json");
+    });
+
+    afterEach(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    const createNode = (provider: CassetteProvider) =>
+        new StructuredOutputNode<{}, { answer: number }>({
+            promptTemplate: "What is the answer?",
+            schema: z.object({ answer: z.number() }),
+            llmConfig: config,
+            provider,
+        });
+
+    it("records each request as it was sent and replays it offline", async () => {
+        const inner = new MockProvider({ responses: ["not json", '{"answer": 42}'] });
+        await createNode(
+            new CassetteProvider({ cassettePath, provider: inner, mode: "record" })
+        ).execute({});
+
+        const cassette: Cassette = JSON.parse(await fs.readFile(cassettePath, "utf8"));
+        const prompts = cassette.interactions.map((interaction) => interaction.request.prompt);
+        // The repair turns are appended to the node's messages after the first call
+        expect(prompts[0]).toHaveLength(1);
+        expect(prompts[1]).toHaveLength(3);
+        expect(JSON.stringify(cassette)).not.toContain("secret");
+
+        // Replay mode never calls the provider; it is passed so the node
+        // uses native structured output, as it did while recording
+        const offline = new MockProvider();
+        const output = await createNode(
+            new CassetteProvider({ cassettePath, provider: offline, mode: "replay" })
+        ).execute({});
+        expect(output).toEqual({ answer: 42 });
+        expect(offline.getCalls()).toHaveLength(0);
+    });
+
+    it("fails in replay mode for requests that were not recorded", async () => {
+        await fs.writeFile(
+            cassettePath,
+            JSON.stringify({ version: 1, provider: "mock", interactions: [] })
+        );
+        const provider = new CassetteProvider({ cassettePath, mode: "replay" });
+
+        await expect(provider.invoke("unknown", config)).rejects.toThrow(/No recorded interaction/);
+    });
+});
@@ -0,0 +1,304 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+import {
+    ILLMProvider,
+    LLMResponse,
+    ProviderBatchRequest,
+    ProviderBatchResponse,
+} from "./ILLMProvider";
+import { BatchMetadata, InvokeOptions, LLMConfig, PromptInput, StreamChunk } from "../types";
+import { copyPrompt, promptToText } from "../messages";
+import { normalizeLLMConfig } from "../cache";
+
+/**
+ * How a CassetteProvider uses its cassette
+ * - "record": always call the wrapped provider and record the result
+ * - "replay": only serve recorded interactions; never call the wrapped provider
+ * - "auto": replay when a recording exists, otherwise call the wrapped provider and record it
+ */
+export type CassetteMode = "record" | "replay" | "auto";
+
+/**
+ * A single recorded request and its response
+ */
+export type CassetteInteraction = {
+    key: string;
+    method: "invoke" | "invokeStream";
+    request: {
+        prompt: PromptInput;
+        config: Record<string, any>;
+        options?: InvokeOptions; // Tools offered to the model, if any
+    };
+    response?: LLMResponse; // For invoke
+    chunks?: StreamChunk[]; // For invokeStream
+    recordedAt: string;
+};
+
+/**
+ * On-disk cassette format
+ */
+export type Cassette = {
+    version: 1;
+    provider: string;
+    interactions: CassetteInteraction[];
+};
+
+/**
+ * Record-and-replay wrapper around any ILLMProvider.
+ *
+ * In record mode, every invoke/invokeStream request (prompt plus normalized
+ * LLMConfig) and its response are written to a JSON cassette file. In replay
+ * mode the cassette is served back deterministically without touching the
+ * network, so real prompts can be regression tested in offline CI.
+ * Streams replay as the same sequence of StreamChunks.
+ *
+ * Identical requests are replayed in the order they were recorded; once a
+ * request's recordings are used up, the last one is served again.
+ * Credentials and headers are stripped from recorded configs.
+ */
+export class CassetteProvider implements ILLMProvider {
+    readonly provider: string;
+    private inner?: ILLMProvider;
+    private cassettePath: string;
+    private mode: CassetteMode;
+    private recordRaw: boolean;
+    private cassette?: Cassette;
+    private loading?: Promise<Cassette>;
+    private replayCursors = new Map<string, number>();
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    /**
+     * @param options Configuration options
+     * @param options.cassettePath Path of the cassette JSON file
+     * @param options.provider The provider to record from (not needed in replay mode)
+     * @param options.mode Record/replay behavior (default: "auto")
+     * @param options.recordRaw Whether to store the provider's raw response (default: false)
+     */
+    constructor(options: {
+        cassettePath: string;
+        provider?: ILLMProvider;
+        mode?: CassetteMode;
+        recordRaw?: boolean;
+    }) {
+        this.inner = options.provider;
+        this.cassettePath = options.cassettePath;
+        this.mode = options.mode ?? "auto";
+        this.recordRaw = options.recordRaw ?? false;
+        this.provider = options.provider?.provider ?? "cassette";
+
+        if (this.mode !== "replay" && !this.inner) {
+            throw new Error(
+                `CassetteProvider needs a provider to record from in '${this.mode}' mode`
+            );
+        }
+    }
+
+    async invoke(
+        prompt: PromptInput,
+        config: LLMConfig,
+        options?: InvokeOptions
+    ): Promise<LLMResponse> {
+        // Copy the prompt: it is written to the cassette after the call, by
+        // which time the caller may have appended to its messages
+        const request = {
+            prompt: copyPrompt(prompt),
+            config: normalizeLLMConfig(config),
+            ...(options && { options }),
+        };
+        const key = this.createKey("invoke", request);
+
+        const recorded = await this.findRecording(key);
+        if (recorded?.response) {
+            return recorded.response;
+        }
+
+        const response = await this.requireInner(key, request.prompt).invoke(prompt, config, options);
+        const stored: LLMResponse = { ...response };
+        if (!this.recordRaw) {
+            delete stored.raw;
+        }
+
+        await this.record({
+            key,
+            method: "invoke",
+            request,
+            response: stored,
+            recordedAt: new Date().toISOString(),
+        });
+
+        return response;
+    }
+
+    async *invokeStream(
+        prompt: PromptInput,
+        config: LLMConfig
+    ): AsyncGenerator<StreamChunk> {
+        const request = { prompt: copyPrompt(prompt), config: normalizeLLMConfig(config) };
+        const key = this.createKey("invokeStream", request);
+
+        const recorded = await this.findRecording(key);
+        if (recorded?.chunks) {
+            yield* recorded.chunks;
+            return;
+        }
+
+        const inner = this.requireInner(key, request.prompt);
+        if (!inner.invokeStream) {
+            throw new Error(
+                `Provider '${inner.provider}' does not support streaming.`
+            );
+        }
+
+        const chunks: StreamChunk[] = [];
+        for await (const chunk of inner.invokeStream(prompt, config)) {
+            chunks.push(chunk);
+            yield chunk;
+        }
+
+        // Only complete streams are recorded
+        await this.record({
+            key,
+            method: "invokeStream",
+            request,
+            chunks,
+            recordedAt: new Date().toISOString(),
+        });
+    }
+
+    /**
+     * Delegates to the wrapped provider. Without one (replay mode), nodes fall
+     * back to prompt-based structured output, so cassettes of native
+     * structured-output calls need the provider passed in replay mode too.
+     */
+    supportsResponseFormat(config: LLMConfig): boolean {
+        return this.inner?.supportsResponseFormat?.(config) ?? false;
+    }
+
+    supportsBatch(): boolean {
+        return this.inner?.supportsBatch?.() ?? false;
+    }
+
+    async createBatch(
+        requests: ProviderBatchRequest[],
+        config: LLMConfig
+    ): Promise<BatchMetadata> {
+        if (!this.inner?.createBatch) {
+            throw new Error("Batch processing is not recorded by CassetteProvider");
+        }
+        return this.inner.createBatch(requests, config);
+    }
+
+    async retrieveBatch(
+        metadata: BatchMetadata,
+        config: LLMConfig
+    ): Promise<ProviderBatchResponse> {
+        if (!this.inner?.retrieveBatch) {
+            throw new Error("Batch processing is not recorded by CassetteProvider");
+        }
+        return this.inner.retrieveBatch(metadata, config);
+    }
+
+    /**
+     * Find the recording to replay for a request key, advancing the replay cursor
+     */
+    private async findRecording(key: string): Promise<CassetteInteraction | undefined> {
+        if (this.mode === "record") {
+            return undefined;
+        }
+
+        const cassette = await this.load();
+        const matches = cassette.interactions.filter((i) => i.key === key);
+        if (matches.length === 0) {
+            return undefined;
+        }
+
+        const cursor = this.replayCursors.get(key) ?? 0;
+        this.replayCursors.set(key, cursor + 1);
+
+        if (cursor < matches.length) {
+            return matches[cursor];
+        }
+        // Used up: record another in auto mode, otherwise repeat the last one
+        return this.mode === "auto" ? undefined : matches[matches.length - 1];
+    }
+
+    private requireInner(key: string, prompt: PromptInput): ILLMProvider {
+        if (this.mode === "replay" || !this.inner) {
+            const text = promptToText(prompt);
+            throw new Error(
+                `No recorded interaction in cassette '${this.cassettePath}' for request ${key.substring(0, 12)} ` +
+                `(prompt: ${text.substring(0, 100)}${text.length > 100 ? "..." : ""}). ` +
+                `Re-record the cassette in 'record' or 'auto' mode.`
+            );
+        }
+        return this.inner;
+    }
+
+    private async record(interaction: CassetteInteraction): Promise<void> {
+        const cassette = await this.load();
+        cassette.interactions.push(interaction);
+
+        // Serialize writes so concurrent calls don't interleave
+        this.writeQueue = this.writeQueue.then(async () => {
+            await fs.mkdir(path.dirname(this.cassettePath), { recursive: true });
+            await fs.writeFile(
+                this.cassettePath,
+                JSON.stringify(cassette, null, 2),
+                "utf8"
+            );
+        });
+        await this.writeQueue;
+    }
+
+    private load(): Promise<Cassette> {
+        if (this.cassette) {
+            return Promise.resolve(this.cassette);
+        }
+        if (!this.loading) {
+            this.loading = this.readCassette().then((cassette) => {
+                this.cassette = cassette;
+                return cassette;
+            });
+        }
+        return this.loading;
+    }
+
+    private async readCassette(): Promise<Cassette> {
+        // Record mode starts a fresh cassette
+        if (this.mode === "record") {
+            return { version: 1, provider: this.provider, interactions: [] };
+        }
+
+        try {
+            const contents = await fs.readFile(this.cassettePath, "utf8");
+            const cassette = JSON.parse(contents) as Cassette;
+            if (cassette.version !== 1) {
+                throw new Error(
+                    `Unsupported cassette version in '${this.cassettePath}': ${cassette.version}`
+                );
+            }
+            return cassette;
+        } catch (error: any) {
+            if (error?.code === "ENOENT") {
+                if (this.mode === "replay") {
+                    throw new Error(`Cassette file not found: ${this.cassettePath}`);
+                }
+                return { version: 1, provider: this.provider, interactions: [] };
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Create a stable key for a request
+     */
+    private createKey(
+        method: CassetteInteraction["method"],
+        request: CassetteInteraction["request"]
+    ): string {
+        return createHash("sha256")
+            .update(JSON.stringify({ method, ...request }))
+            .digest("hex");
+    }
+}
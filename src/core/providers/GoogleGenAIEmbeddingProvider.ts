@@ -0,0 +1,48 @@
+import { GoogleGenAI } from "@google/genai";
+import { IEmbeddingProvider, EmbeddingPurpose, EmbeddingResponse } from "./IEmbeddingProvider";
+import { GoogleGenAIEmbeddingConfig } from "../types";
+
+/**
+ * Google Generative AI embedding provider implementation
+ */
+export class GoogleGenAIEmbeddingProvider implements IEmbeddingProvider {
+    private client: GoogleGenAI;
+    private dimensions?: number;
+    readonly provider = "genai";
+    readonly model: string;
+
+    constructor(config: Omit<GoogleGenAIEmbeddingConfig, "provider">) {
+        this.model = config.model;
+        this.dimensions = config.dimensions;
+        this.client = new GoogleGenAI({ apiKey: config.apiKey });
+    }
+
+    async embed(
+        texts: string[],
+        purpose: EmbeddingPurpose = "document"
+    ): Promise<EmbeddingResponse> {
+        if (texts.length === 0) {
+            return { embeddings: [] };
+        }
+
+        const response = await this.client.models.embedContent({
+            model: this.model,
+            contents: texts,
+            config: {
+                taskType: purpose === "query" ? "RETRIEVAL_QUERY" : "RETRIEVAL_DOCUMENT",
+                ...(this.dimensions !== undefined && {
+                    outputDimensionality: this.dimensions,
+                }),
+            },
+        });
+
+        const embeddings = (response.embeddings ?? []).map((e) => e.values ?? []);
+        if (embeddings.length !== texts.length) {
+            throw new Error(
+                `Expected ${texts.length} embeddings from GenAI, received ${embeddings.length}`
+            );
+        }
+
+        return { embeddings };
+    }
+}
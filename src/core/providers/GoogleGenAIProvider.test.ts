@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { GoogleGenAIProvider } from "./GoogleGenAIProvider";
+import { imageFromBase64, pdfFromBase64, textPart } from "../content";
+import { GoogleGenAIProviderConfig } from "../types";
+
+const config: GoogleGenAIProviderConfig = { provider: "genai", model: "gemini-2.5-flash", apiKey: "test-key" };
+
+describe("GoogleGenAIProvider", () => {
+    let provider: GoogleGenAIProvider;
+    let generateContent: jest.Mock<(request: any) => Promise<any>>;
+
+    beforeEach(() => {
+        provider = new GoogleGenAIProvider(config);
+        generateContent = jest.fn<(request: any) => Promise<any>>();
+        (provider as any).client = { models: { generateContent } };
+    });
+
+    it("sends images and documents as inline data parts", async () => {
+        generateContent.mockResolvedValue({ text: "done", candidates: [] });
+
+        await provider.invoke(
+            [
+                { role: "user", content: [textPart("Compare these."), imageFromBase64("iVBORw0KGgo=")] },
+                { role: "assistant", content: "Which document?" },
+                { role: "user", content: [pdfFromBase64("JVBERi0=")] },
+            ],
+            config
+        );
+
+        expect(generateContent.mock.calls[0][0].contents).toEqual([
+            {
+                role: "user",
+                parts: [
+                    { text: "Compare these." },
+                    { inlineData: { mimeType: "image/png", data: "iVBORw0KGgo=" } },
+                ],
+            },
+            { role: "model", parts: [{ text: "Which document?" }] },
+            { role: "user", parts: [{ inlineData: { mimeType: "application/pdf", data: "JVBERi0=" } }] },
+        ]);
+    });
+
+    it("reports context cache hits as cached prompt tokens", async () => {
+        generateContent.mockResolvedValue({
+            text: "done",
+            candidates: [],
+            usageMetadata: { promptTokenCount: 100, candidatesTokenCount: 5, cachedContentTokenCount: 80 },
+        });
+
+        const response = await provider.invoke("hello", config);
+
+        expect(response.usage).toEqual({ inputTokens: 100, outputTokens: 5, cacheReadTokens: 80 });
+    });
+
+    it("counts thinking tokens as output and reports them separately", async () => {
+        generateContent.mockResolvedValue({
+            text: "done",
+            candidates: [],
+            usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, thoughtsTokenCount: 20 },
+        });
+
+        const response = await provider.invoke("hello", config);
+
+        expect(response.usage).toEqual({ inputTokens: 10, outputTokens: 25, thinkingTokens: 20 });
+    });
+});
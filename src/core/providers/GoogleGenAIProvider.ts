@@ -1,6 +1,20 @@
-import { GoogleGenAI } from "@google/genai";
+import {
+    GoogleGenAI,
+    FunctionCallingConfigMode,
+    GenerateContentResponseUsageMetadata,
+} from "@google/genai";
 import { ILLMProvider, LLMResponse } from "./ILLMProvider";
-import { GoogleGenAIProviderConfig, StreamChunk, TokenUsage } from "../types";
+import {
+    GoogleGenAIProviderConfig,
+    StreamChunk,
+    TokenUsage,
+    PromptInput,
+    InvokeOptions,
+    ToolCall,
+    MessageContent,
+} from "../types";
+import { splitSystemMessages } from "../messages";
+import { contentToText, loadMedia } from "../content";
 
 export class GoogleGenAIProvider implements ILLMProvider {
     readonly provider = "genai";
@@ -13,61 +27,88 @@ export class GoogleGenAIProvider implements ILLMProvider {
     }
 
     async invoke(
-        prompt: string,
-        config: GoogleGenAIProviderConfig
+        prompt: PromptInput,
+        config: GoogleGenAIProviderConfig,
+        options?: InvokeOptions
     ): Promise<LLMResponse> {
         const model = config.model ?? this.model;
         const maxTokens = config.maxTokens ?? 3000;
         const temperature = config.temperature;
-        const systemInstruction = config.providerOptions?.systemPrompt;
 
         const thinkingBudget =
             config.thinking?.type === "enabled"
                 ? config.thinking.budget_tokens ?? 0
                 : 0;
 
-        const contents = [{ parts: [{ text: prompt }] }];
+        const { systemInstruction, contents } = await this.buildContents(
+            prompt,
+            config.providerOptions?.systemPrompt
+        );
 
         const response = await this.client.models.generateContent({
             model,
             contents,
             config: {
                 maxOutputTokens: config.maxTokens ?? 3000,
-                thinkingConfig: { thinkingBudget },
+                // Ask for thought summaries so the reasoning trace can be returned
+                thinkingConfig: { thinkingBudget, ...(thinkingBudget > 0 && { includeThoughts: true }) },
                 ...(config.topK !== undefined && { topK: config.topK }),
                 ...(config.topP !== undefined && { topP: config.topP }),
                 ...(temperature !== undefined && { temperature }),
                 ...(systemInstruction && { systemInstruction }),
+                ...this.buildToolConfig(options),
+                ...(options?.responseFormat && {
+                    responseMimeType: "application/json",
+                    responseJsonSchema: options.responseFormat.schema,
+                }),
             },
         });
 
+        const toolCalls: ToolCall[] = (response.functionCalls ?? []).map((call, i) => ({
+            id: call.id ?? `call_${i}`,
+            name: call.name ?? "",
+            arguments: call.args ?? {},
+        }));
+        const finishReason = response.candidates?.[0]?.finishReason;
+        // response.text leaves out thought parts
+        const thinking = (response.candidates?.[0]?.content?.parts ?? [])
+            .filter((part) => part.thought && part.text)
+            .map((part) => part.text)
+            .join("");
+
         return {
             content: response.text ?? "",
-            thinking: config.thinking as any,
-            usage: {
-                inputTokens: response.usageMetadata?.promptTokenCount ?? 0,
-                outputTokens: response.usageMetadata?.candidatesTokenCount ?? 0,
-                thinkingTokens: thinkingBudget,
-                searchCount: 0,
-            },
+            thinking: thinking || undefined,
+            usage: toTokenUsage(response.usageMetadata),
             raw: response,
+            ...(toolCalls.length > 0 && { toolCalls }),
+            stopReason:
+                toolCalls.length > 0
+                    ? "tool_use"
+                    : finishReason === "STOP"
+                      ? "end_turn"
+                      : finishReason === "MAX_TOKENS"
+                        ? "max_tokens"
+                        : finishReason,
         };
     }
 
     async *invokeStream(
-        prompt: string,
+        prompt: PromptInput,
         config: GoogleGenAIProviderConfig
     ): AsyncGenerator<StreamChunk> {
         const model = config.model ?? this.model;
         const temperature = config.temperature;
-        const systemInstruction = config.providerOptions?.systemPrompt;
 
         const thinkingBudget =
             config.thinking?.type === "enabled"
                 ? config.thinking.budget_tokens ?? 0
                 : 0;
 
-        const contents = [{ parts: [{ text: prompt }] }];
+        const { systemInstruction, contents } = await this.buildContents(
+            prompt,
+            config.providerOptions?.systemPrompt
+        );
 
         const stream = await this.client.models.generateContentStream({
             model,
@@ -82,7 +123,7 @@ export class GoogleGenAIProvider implements ILLMProvider {
             },
         });
 
-        const tokenUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+        let tokenUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
 
         for await (const chunk of stream) {
             const text = chunk.candidates?.[0]?.content?.parts?.[0]?.text;
@@ -91,8 +132,7 @@ export class GoogleGenAIProvider implements ILLMProvider {
             }
             // usageMetadata is cumulative; last one is the total
             if (chunk.usageMetadata) {
-                tokenUsage.inputTokens = chunk.usageMetadata.promptTokenCount ?? 0;
-                tokenUsage.outputTokens = chunk.usageMetadata.candidatesTokenCount ?? 0;
+                tokenUsage = toTokenUsage(chunk.usageMetadata);
             }
         }
 
@@ -102,4 +142,128 @@ export class GoogleGenAIProvider implements ILLMProvider {
     supportsBatch(): boolean {
         return false;
     }
+
+    supportsResponseFormat(): boolean {
+        return true;
+    }
+
+    /**
+     * Convert a prompt into GenAI contents. Assistant turns use the "model" role
+     * and system messages are merged into the system instruction. Tool calls
+     * become functionCall parts, and consecutive tool results are grouped into
+     * one user turn of functionResponse parts. Images and documents are sent
+     * inline as base64 data.
+     */
+    private async buildContents(
+        prompt: PromptInput,
+        systemPrompt?: string
+    ): Promise<{ systemInstruction?: string; contents: any[] }> {
+        const { system, messages } = splitSystemMessages(prompt, systemPrompt);
+        const contents: any[] = [];
+
+        for (const m of messages) {
+            if (m.role === "tool") {
+                const part = {
+                    functionResponse: {
+                        id: m.toolCallId,
+                        name: m.name,
+                        response: { result: contentToText(m.content) },
+                    },
+                };
+                const previous = contents[contents.length - 1];
+                if (previous?.role === "user" && previous.parts.every((p: any) => p.functionResponse)) {
+                    previous.parts.push(part);
+                } else {
+                    contents.push({ role: "user", parts: [part] });
+                }
+            } else if (m.toolCalls?.length) {
+                contents.push({
+                    role: "model",
+                    parts: [
+                        ...(m.content.length > 0 ? [{ text: contentToText(m.content) }] : []),
+                        ...m.toolCalls.map((call) => ({
+                            functionCall: { id: call.id, name: call.name, args: call.arguments },
+                        })),
+                    ],
+                });
+            } else {
+                contents.push({
+                    role: m.role === "assistant" ? "model" : "user",
+                    parts: await this.toParts(m.content),
+                });
+            }
+        }
+
+        return { systemInstruction: system, contents };
+    }
+
+    /**
+     * Convert message content to GenAI parts
+     */
+    private async toParts(content: MessageContent): Promise<any[]> {
+        if (typeof content === "string") {
+            return [{ text: content }];
+        }
+        return Promise.all(
+            content.map(async (part) => {
+                if (part.type === "text") {
+                    return { text: part.text };
+                }
+                const { data, mediaType } = await loadMedia(part);
+                return { inlineData: { mimeType: mediaType, data } };
+            })
+        );
+    }
+
+    /**
+     * Build the tools / toolConfig request fields for function calling
+     */
+    private buildToolConfig(options?: InvokeOptions): { tools?: any[]; toolConfig?: any } {
+        if (!options?.tools?.length) {
+            return {};
+        }
+
+        const choice = options.toolChoice;
+        const mode =
+            choice === "none"
+                ? FunctionCallingConfigMode.NONE
+                : choice === "required" || typeof choice === "object"
+                  ? FunctionCallingConfigMode.ANY
+                  : FunctionCallingConfigMode.AUTO;
+
+        return {
+            tools: [
+                {
+                    functionDeclarations: options.tools.map((tool) => ({
+                        name: tool.name,
+                        description: tool.description,
+                        parametersJsonSchema: tool.parameters,
+                    })),
+                },
+            ],
+            toolConfig: {
+                functionCallingConfig: {
+                    mode,
+                    ...(typeof choice === "object" && { allowedFunctionNames: [choice.name] }),
+                },
+            },
+        };
+    }
+}
+
+/**
+ * Convert GenAI usage metadata to token counts. Thoughts are billed as output
+ * but reported apart from candidatesTokenCount, so they are added to the
+ * output tokens. Context cache hits are included in promptTokenCount.
+ */
+function toTokenUsage(metadata: GenerateContentResponseUsageMetadata | undefined): TokenUsage {
+    const thinkingTokens = metadata?.thoughtsTokenCount ?? 0;
+    return {
+        inputTokens: metadata?.promptTokenCount ?? 0,
+        outputTokens: (metadata?.candidatesTokenCount ?? 0) + thinkingTokens,
+        ...(metadata?.cachedContentTokenCount && {
+            cacheReadTokens: metadata.cachedContentTokenCount,
+        }),
+        ...(thinkingTokens > 0 && { thinkingTokens }),
+    };
 }
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "@jest/globals";
+import { HashEmbeddingProvider } from "./HashEmbeddingProvider";
+
+describe("HashEmbeddingProvider", () => {
+    it("returns stable, normalized vectors of the configured size", async () => {
+        const provider = new HashEmbeddingProvider({ dimensions: 32 });
+
+        const first = await provider.embed(["The quick brown fox"]);
+        const second = await new HashEmbeddingProvider({ dimensions: 32 }).embed([
+            "the QUICK brown fox!",
+        ]);
+
+        expect(first.embeddings[0]).toHaveLength(32);
+        expect(first.embeddings[0]).toEqual(second.embeddings[0]);
+        const norm = Math.sqrt(first.embeddings[0].reduce((sum, v) => sum + v * v, 0));
+        expect(norm).toBeCloseTo(1);
+        expect(first.usage).toEqual({ inputTokens: 0 });
+    });
+
+    it("returns a zero vector for text without words", async () => {
+        const { embeddings } = await new HashEmbeddingProvider({ dimensions: 8 }).embed(["?!"]);
+
+        expect(embeddings[0]).toEqual(new Array(8).fill(0));
+    });
+
+    it("rejects fewer than one dimension", () => {
+        expect(() => new HashEmbeddingProvider({ dimensions: 0 })).toThrow(
+            "dimensions must be at least 1"
+        );
+    });
+});
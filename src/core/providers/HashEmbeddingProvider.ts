@@ -0,0 +1,59 @@
+import { IEmbeddingProvider, EmbeddingResponse } from "./IEmbeddingProvider";
+import { HashEmbeddingConfig } from "../types";
+
+/**
+ * Local deterministic embedding provider using feature hashing.
+ *
+ * Each lowercased word and adjacent word pair is hashed into a bucket of a
+ * fixed-size vector, which is then L2-normalized. The vectors capture lexical
+ * overlap only, but they are stable across runs and need no network access,
+ * which makes them suitable for tests and offline development.
+ */
+export class HashEmbeddingProvider implements IEmbeddingProvider {
+    private dimensions: number;
+    readonly provider = "hash";
+    readonly model: string;
+
+    constructor(config?: Partial<Omit<HashEmbeddingConfig, "provider">>) {
+        this.model = config?.model ?? "hash";
+        this.dimensions = config?.dimensions ?? 256;
+
+        if (this.dimensions < 1) {
+            throw new Error("dimensions must be at least 1");
+        }
+    }
+
+    async embed(texts: string[]): Promise<EmbeddingResponse> {
+        return {
+            embeddings: texts.map((text) => this.embedText(text)),
+            usage: { inputTokens: 0 },
+        };
+    }
+
+    private embedText(text: string): number[] {
+        const vector = new Array<number>(this.dimensions).fill(0);
+        const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+        words.forEach((word, index) => {
+            vector[this.bucket(word)] += 1;
+            if (index > 0) {
+                vector[this.bucket(`${words[index - 1]} ${word}`)] += 0.5;
+            }
+        });
+
+        const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+        return norm === 0 ? vector : vector.map((v) => v / norm);
+    }
+
+    /**
+     * 32-bit FNV-1a hash of a feature, reduced to a bucket index
+     */
+    private bucket(feature: string): number {
+        let hash = 0x811c9dc5;
+        for (let i = 0; i < feature.length; i++) {
+            hash ^= feature.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193);
+        }
+        return (hash >>> 0) % this.dimensions;
+    }
+}
@@ -0,0 +1,38 @@
+/**
+ * What an embedding will be used for.
+ * Some providers produce different vectors for stored documents and search queries.
+ */
+export type EmbeddingPurpose = "document" | "query";
+
+/**
+ * Response from an embedding provider
+ */
+export interface EmbeddingResponse {
+    embeddings: number[][]; // One vector per input text, in input order
+    usage?: {
+        inputTokens: number;
+    };
+}
+
+/**
+ * Interface for embedding providers
+ */
+export interface IEmbeddingProvider {
+    /**
+     * Provider identifier
+     */
+    readonly provider: string;
+
+    /**
+     * Embedding model identifier
+     */
+    readonly model: string;
+
+    /**
+     * Embed a list of texts
+     * @param texts The texts to embed
+     * @param purpose Whether the texts are documents to index or search queries (default: "document")
+     * @returns One embedding per input text, in input order
+     */
+    embed(texts: string[], purpose?: EmbeddingPurpose): Promise<EmbeddingResponse>;
+}
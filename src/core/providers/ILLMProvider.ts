@@ -1,4 +1,16 @@
-import { TokenUsage, LLMConfig, BatchMetadata, BatchStatus, StreamChunk } from "../types";
+import {
+    TokenUsage,
+    LLMConfig,
+    BatchMetadata,
+    BatchStatus,
+    StreamChunk,
+    PromptInput,
+    InvokeOptions,
+    ToolCall,
+    Citation,
+    WebSource,
+    ThinkingBlock,
+} from "../types";
 
 /**
  * Response from an LLM provider
@@ -8,8 +20,24 @@ export interface LLMResponse {
     usage?: TokenUsage;
     raw?: any; // Provider-specific raw response
     thinking?: string; // For Anthropic extended thinking
+    thinkingBlocks?: ThinkingBlock[]; // Signed thinking blocks, sent back with tool calls
+    toolCalls?: ToolCall[]; // Tools the model asked to call, if any
+    stopReason?: StopReason;
+    citations?: Citation[]; // Sources backing spans of content
+    sources?: WebSource[]; // Web pages found by web search or read by web fetch
 }
 
+/**
+ * Normalized reason the model stopped generating
+ */
+export type StopReason =
+    | "end_turn"
+    | "max_tokens"
+    | "tool_use"
+    | "stop_sequence"
+    | "content_filter"
+    | string;
+
 /**
  * Provider-level batch request (prompt already generated by the node)
  */
@@ -50,11 +78,12 @@ export interface ProviderBatchResponse {
 export interface ILLMProvider {
     /**
      * Core invocation method for sending prompts to the LLM
-     * @param prompt The prompt text to send
+     * @param prompt The prompt text to send, or a list of conversation messages
      * @param config The LLM configuration
+     * @param options Per-call options such as tools
      * @returns The LLM response with content and usage data
      */
-    invoke(prompt: string, config: LLMConfig): Promise<LLMResponse>;
+    invoke(prompt: PromptInput, config: LLMConfig, options?: InvokeOptions): Promise<LLMResponse>;
 
     /**
      * Provider identifier
@@ -65,7 +94,14 @@ export interface ILLMProvider {
      * Streaming invocation — yields incremental text deltas.
      * The final chunk carries tokenUsage with text: "".
      */
-    invokeStream?(prompt: string, config: LLMConfig): AsyncGenerator<StreamChunk>;
+    invokeStream?(prompt: PromptInput, config: LLMConfig): AsyncGenerator<StreamChunk>;
+
+    /**
+     * Whether the provider can honour InvokeOptions.responseFormat natively for
+     * this config. Callers fall back to prompting for JSON when this is false
+     * or not implemented.
+     */
+    supportsResponseFormat?(config: LLMConfig): boolean;
 
     /**
      * Whether this provider supports batch processing
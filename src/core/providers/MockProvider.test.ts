@@ -0,0 +1,114 @@
+import { describe, expect, it } from "@jest/globals";
+import { MockProvider } from "./MockProvider";
+import { LLMNode } from "../LLMNode";
+import { StructuredOutputNode } from "../../nodes/StructuredOutputNode";
+import { textParser } from "../../parsers/structured";
+import { z } from "zod";
+import { LLMConfig } from "../types";
+
+const config: LLMConfig = { provider: "mock", model: "mock-model" };
+
+describe("MockProvider", () => {
+    it("serves sequence responses in order, then the default response", async () => {
+        const provider = new MockProvider({ responses: ["first", "second"], defaultResponse: "fallback" });
+
+        const contents = [];
+        for (let i = 0; i < 3; i++) {
+            contents.push((await provider.invoke("hello", config)).content);
+        }
+
+        expect(contents).toEqual(["first", "second", "fallback"]);
+    });
+
+    it("prefers matching responses and respects their use limit", async () => {
+        const provider = new MockProvider({
+            responses: [{ match: "weather", content: "sunny", times: 1 }, "in sequence"],
+        });
+
+        expect((await provider.invoke("what's the weather?", config)).content).toBe("sunny");
+        expect((await provider.invoke("what's the weather?", config)).content).toBe("in sequence");
+    });
+
+    it("throws scripted errors and fails when no response is left", async () => {
+        const provider = new MockProvider({ responses: [{ error: "rate limited" }] });
+
+        await expect(provider.invoke("hello", config)).rejects.toThrow("rate limited");
+        await expect(provider.invoke("hello", config)).rejects.toThrow(/no response/);
+    });
+
+    it("reports scripted usage and estimates missing fields", async () => {
+        const provider = new MockProvider({
+            responses: [{ content: "12345678", usage: { inputTokens: 7 } }],
+        });
+
+        const response = await provider.invoke("hello", config);
+
+        expect(response.usage).toEqual({ inputTokens: 7, outputTokens: 2 });
+    });
+
+    it("streams the content in chunks followed by a usage chunk", async () => {
+        const provider = new MockProvider({ responses: ["one two three"] });
+
+        const chunks = [];
+        for await (const chunk of provider.invokeStream("hello", config)) {
+            chunks.push(chunk);
+        }
+
+        expect(chunks.map((chunk) => chunk.text).join("")).toBe("one two three");
+        expect(chunks[chunks.length - 1].tokenUsage).toBeDefined();
+    });
+
+    it("completes batches after the configured number of polls", async () => {
+        const provider = new MockProvider({ responses: ["a", "b"], batchPolls: 1 });
+        const metadata = await provider.createBatch(
+            [
+                { customId: "req-0", prompt: "first" },
+                { customId: "req-1", prompt: "second" },
+            ],
+            config
+        );
+
+        expect((await provider.retrieveBatch(metadata, config)).status).toBe("in_progress");
+        const completed = await provider.retrieveBatch(metadata, config);
+        expect(completed.status).toBe("completed");
+        expect(completed.results?.map((result) => result.content)).toEqual(["a", "b"]);
+    });
+
+    it("records the prompts a pipeline generated", async () => {
+        const provider = new MockProvider({ responses: ["Paris", "It is the capital of France."] });
+        const capital = new LLMNode<{ country: string }, string>({
+            promptTemplate: "Capital of {{country}}?",
+            llmConfig: config,
+            parser: textParser(),
+            provider,
+        });
+        const describeCity = new LLMNode<string, string>({
+            promptTemplate: (city) => `Describe ${city}`,
+            llmConfig: config,
+            parser: textParser(),
+            provider,
+        });
+
+        const output = await capital.pipe(describeCity).execute({ country: "France" });
+
+        expect(output).toBe("It is the capital of France.");
+        expect(provider.getPrompts()).toEqual(["Capital of France?", "Describe Paris"]);
+    });
+
+    it("keeps each call's messages as they were sent", async () => {
+        const provider = new MockProvider({ responses: ["not json", '{"answer": 42}'] });
+        const node = new StructuredOutputNode<{}, { answer: number }>({
+            promptTemplate: "What is the answer?",
+            schema: z.object({ answer: z.number() }),
+            llmConfig: config,
+            provider,
+        });
+
+        await node.execute({});
+
+        // The repair turns are appended to the node's message list after the first call
+        const [first, repair] = provider.getCalls();
+        expect(first.messages).toHaveLength(1);
+        expect(repair.messages).toHaveLength(3);
+    });
+});
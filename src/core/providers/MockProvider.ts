@@ -0,0 +1,385 @@
+import {
+    ILLMProvider,
+    LLMResponse,
+    ProviderBatchRequest,
+    ProviderBatchResponse,
+    ProviderBatchItemResult,
+} from "./ILLMProvider";
+import {
+    BatchMetadata,
+    ChatMessage,
+    InvokeOptions,
+    LLMConfig,
+    PromptInput,
+    StreamChunk,
+    TokenUsage,
+    Citation,
+    WebSource,
+    ThinkingBlock,
+} from "../types";
+import { copyPrompt, estimateTokens, promptToText, toChatMessages } from "../messages";
+
+/**
+ * A scripted response for MockProvider
+ */
+export type MockResponse = {
+    /**
+     * Only use this response for matching prompts. A string matches if the
+     * prompt contains it. Responses without `match` are served in sequence.
+     * Conversations are matched against their text rendering ("role: content" per message).
+     */
+    match?: string | RegExp | ((prompt: string, config: LLMConfig) => boolean);
+    /** Response text, or a function producing it from the prompt */
+    content?: string | ((prompt: string, config: LLMConfig) => string);
+    /** Thinking text to return alongside the content */
+    thinking?: string;
+    /** Signed thinking blocks, as Anthropic returns them with tool calls */
+    thinkingBlocks?: ThinkingBlock[];
+    /** Tool calls to request; ids default to "call_<n>" */
+    toolCalls?: Array<{ id?: string; name: string; arguments?: Record<string, any> }>;
+    /** Citations to return alongside the content */
+    citations?: Citation[];
+    /** Web sources to return alongside the content */
+    sources?: WebSource[];
+    /** Stop reason to report (default: "tool_use" with tool calls, otherwise "end_turn") */
+    stopReason?: string;
+    /** Token usage to report; missing fields are estimated from text length */
+    usage?: Partial<TokenUsage>;
+    /** Delay before responding, in milliseconds (overrides the provider default) */
+    latencyMs?: number;
+    /** Throw this error instead of responding */
+    error?: Error | string;
+    /** Number of times a `match` response may be used (default: unlimited) */
+    times?: number;
+};
+
+/**
+ * A call received by MockProvider
+ */
+export type MockCall = {
+    method: "invoke" | "invokeStream" | "createBatch";
+    prompt: string; // Text rendering of the prompt
+    messages: ChatMessage[];
+    config: LLMConfig;
+    options?: InvokeOptions;
+    timestamp: Date;
+};
+
+/**
+ * Stored state of a mock batch
+ */
+type MockBatch = {
+    results: ProviderBatchItemResult[];
+    pollsRemaining: number;
+};
+
+/**
+ * Deterministic provider for offline tests.
+ *
+ * Returns scripted responses keyed by prompt match or served in sequence,
+ * simulates token usage, latency and errors, and records every call so tests
+ * can assert on the prompts a node generated. No network access is needed.
+ *
+ * Response resolution for each call:
+ * 1. The first `match` response that matches the prompt and has uses left
+ * 2. The next unused sequence response (one without `match`)
+ * 3. The default response, if configured
+ * Otherwise the call throws.
+ */
+export class MockProvider implements ILLMProvider {
+    readonly provider: string;
+    private matchResponses: MockResponse[] = [];
+    private sequenceResponses: MockResponse[] = [];
+    private matchUses = new Map<MockResponse, number>();
+    private defaultResponse?: MockResponse;
+    private latencyMs: number;
+    private simulateUsage: boolean;
+    private batchPolls: number;
+    private structuredOutput: boolean;
+    private batches = new Map<string, MockBatch>();
+    private batchCounter = 0;
+    private calls: MockCall[] = [];
+
+    /**
+     * @param options Configuration options
+     * @param options.responses Scripted responses; strings are served in sequence
+     * @param options.defaultResponse Response used when nothing else matches
+     * @param options.latencyMs Default delay before each response (default: 0)
+     * @param options.simulateUsage Estimate token usage from text length when not scripted (default: true)
+     * @param options.batchPolls Number of retrieveBatch calls reporting 'in_progress' before completion (default: 0)
+     * @param options.provider Provider identifier (default: "mock")
+     * @param options.structuredOutput Report native structured output support, so nodes
+     *   send a responseFormat instead of falling back to prompting (default: true)
+     */
+    constructor(options: {
+        responses?: (string | MockResponse)[];
+        defaultResponse?: string | MockResponse;
+        latencyMs?: number;
+        simulateUsage?: boolean;
+        batchPolls?: number;
+        provider?: string;
+        structuredOutput?: boolean;
+    } = {}) {
+        this.provider = options.provider ?? "mock";
+        this.latencyMs = options.latencyMs ?? 0;
+        this.simulateUsage = options.simulateUsage ?? true;
+        this.batchPolls = options.batchPolls ?? 0;
+        this.structuredOutput = options.structuredOutput ?? true;
+        if (options.defaultResponse !== undefined) {
+            this.defaultResponse = this.normalize(options.defaultResponse);
+        }
+        for (const response of options.responses ?? []) {
+            this.addResponse(response);
+        }
+    }
+
+    /**
+     * Add a scripted response
+     */
+    addResponse(response: string | MockResponse): this {
+        const normalized = this.normalize(response);
+        if (normalized.match !== undefined) {
+            this.matchResponses.push(normalized);
+        } else {
+            this.sequenceResponses.push(normalized);
+        }
+        return this;
+    }
+
+    /**
+     * Get all calls received so far
+     */
+    getCalls(): MockCall[] {
+        return [...this.calls];
+    }
+
+    /**
+     * Get the prompts received so far
+     */
+    getPrompts(): string[] {
+        return this.calls.map((call) => call.prompt);
+    }
+
+    /**
+     * Clear recorded calls, scripted responses and batches
+     */
+    reset(): void {
+        this.calls = [];
+        this.matchResponses = [];
+        this.sequenceResponses = [];
+        this.matchUses.clear();
+        this.batches.clear();
+    }
+
+    async invoke(
+        prompt: PromptInput,
+        config: LLMConfig,
+        options?: InvokeOptions
+    ): Promise<LLMResponse> {
+        const text = this.recordCall("invoke", prompt, config, options);
+
+        const response = this.resolve(text, config);
+        await this.delay(response);
+        return this.buildResponse(response, text, config);
+    }
+
+    async *invokeStream(
+        prompt: PromptInput,
+        config: LLMConfig
+    ): AsyncGenerator<StreamChunk> {
+        const text = this.recordCall("invokeStream", prompt, config);
+
+        const response = this.resolve(text, config);
+        await this.delay(response);
+        const { content, usage } = this.buildResponse(response, text, config);
+
+        // Split into word-sized chunks, keeping whitespace attached
+        for (const text of content.match(/\S+\s*|\s+/g) ?? []) {
+            yield { text };
+        }
+
+        yield { text: "", tokenUsage: usage };
+    }
+
+    supportsResponseFormat(): boolean {
+        return this.structuredOutput;
+    }
+
+    supportsBatch(): boolean {
+        return true;
+    }
+
+    async createBatch(
+        requests: ProviderBatchRequest[],
+        config: LLMConfig
+    ): Promise<BatchMetadata> {
+        const results: ProviderBatchItemResult[] = [];
+
+        for (const request of requests) {
+            this.recordCall("createBatch", request.prompt, config);
+
+            try {
+                const response = this.resolve(request.prompt, config);
+                const { content, usage } = this.buildResponse(response, request.prompt, config);
+                results.push({
+                    customId: request.customId,
+                    status: "success",
+                    content,
+                    tokenUsage: usage,
+                });
+            } catch (error: any) {
+                results.push({
+                    customId: request.customId,
+                    status: "failed",
+                    error: error?.message ?? String(error),
+                });
+            }
+        }
+
+        const batchId = `mock-batch-${++this.batchCounter}`;
+        this.batches.set(batchId, { results, pollsRemaining: this.batchPolls });
+
+        return {
+            batchId,
+            provider: this.provider,
+            model: config.model,
+            requestCount: requests.length,
+            createdAt: new Date().toISOString(),
+        };
+    }
+
+    async retrieveBatch(
+        metadata: BatchMetadata,
+        config: LLMConfig
+    ): Promise<ProviderBatchResponse> {
+        const batch = this.batches.get(metadata.batchId);
+        if (!batch) {
+            throw new Error(`Unknown mock batch: ${metadata.batchId}`);
+        }
+
+        const completed = batch.results.filter((r) => r.status === "success").length;
+        const requestCounts = {
+            total: batch.results.length,
+            completed,
+            failed: batch.results.length - completed,
+        };
+
+        if (batch.pollsRemaining > 0) {
+            batch.pollsRemaining--;
+            return { status: "in_progress", requestCounts };
+        }
+
+        return { status: "completed", results: batch.results, requestCounts };
+    }
+
+    /**
+     * Record a call and return the prompt's text rendering
+     */
+    private recordCall(
+        method: MockCall["method"],
+        prompt: PromptInput,
+        config: LLMConfig,
+        options?: InvokeOptions
+    ): string {
+        const text = promptToText(prompt);
+        this.calls.push({
+            method,
+            prompt: text,
+            // Copy so the record keeps what was sent even if the caller
+            // appends to its messages later
+            messages: toChatMessages(copyPrompt(prompt)),
+            config,
+            ...(options && { options }),
+            timestamp: new Date(),
+        });
+        return text;
+    }
+
+    /**
+     * Pick the response for a prompt, throwing if none is available
+     * or the chosen response is a scripted error
+     */
+    private resolve(prompt: string, config: LLMConfig): MockResponse {
+        let response = this.matchResponses.find((candidate) => {
+            const used = this.matchUses.get(candidate) ?? 0;
+            return (
+                (candidate.times === undefined || used < candidate.times) &&
+                this.matches(candidate, prompt, config)
+            );
+        });
+
+        if (response) {
+            this.matchUses.set(response, (this.matchUses.get(response) ?? 0) + 1);
+        } else {
+            response = this.sequenceResponses.shift() ?? this.defaultResponse;
+        }
+
+        if (!response) {
+            throw new Error(
+                `MockProvider has no response for prompt: ${prompt.substring(0, 100)}${prompt.length > 100 ? "..." : ""}`
+            );
+        }
+
+        if (response.error !== undefined) {
+            throw typeof response.error === "string"
+                ? new Error(response.error)
+                : response.error;
+        }
+
+        return response;
+    }
+
+    private matches(response: MockResponse, prompt: string, config: LLMConfig): boolean {
+        const { match } = response;
+        if (typeof match === "string") return prompt.includes(match);
+        if (match instanceof RegExp) return match.test(prompt);
+        if (typeof match === "function") return match(prompt, config);
+        return false;
+    }
+
+    private buildResponse(
+        response: MockResponse,
+        prompt: string,
+        config: LLMConfig
+    ): LLMResponse & { usage: TokenUsage } {
+        const content =
+            typeof response.content === "function"
+                ? response.content(prompt, config)
+                : response.content ?? "";
+
+        const usage: TokenUsage = {
+            inputTokens: this.simulateUsage ? estimateTokens(prompt) : 0,
+            outputTokens: this.simulateUsage ? estimateTokens(content) : 0,
+            ...response.usage,
+        };
+
+        const toolCalls = response.toolCalls?.map((call, i) => ({
+            id: call.id ?? `call_${i}`,
+            name: call.name,
+            arguments: call.arguments ?? {},
+        }));
+
+        return {
+            content,
+            thinking: response.thinking,
+            usage,
+            raw: { mock: true, content },
+            ...(response.thinkingBlocks && { thinkingBlocks: response.thinkingBlocks }),
+            ...(toolCalls?.length && { toolCalls }),
+            ...(response.citations && { citations: response.citations }),
+            ...(response.sources && { sources: response.sources }),
+            stopReason: response.stopReason ?? (toolCalls?.length ? "tool_use" : "end_turn"),
+        };
+    }
+
+    private async delay(response: MockResponse): Promise<void> {
+        const ms = response.latencyMs ?? this.latencyMs;
+        if (ms > 0) {
+            await new Promise((resolve) => setTimeout(resolve, ms));
+        }
+    }
+
+    private normalize(response: string | MockResponse): MockResponse {
+        return typeof response === "string" ? { content: response } : response;
+    }
+}
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { OllamaProvider } from "./OllamaProvider";
+import { OllamaConfig } from "../types";
+import { imageFromBase64, pdfFromBase64, textPart } from "../content";
+
+const config: OllamaConfig = { provider: "ollama", model: "llama3.2" };
+
+/**
+ * A streaming response that delivers the body in the given pieces
+ */
+function streamResponse(pieces: string[]): Response {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+            pieces.forEach((piece) => controller.enqueue(encoder.encode(piece)));
+            controller.close();
+        },
+    });
+    return new Response(body, { status: 200 });
+}
+
+describe("OllamaProvider", () => {
+    const originalHost = process.env.OLLAMA_HOST;
+    const originalFetch = global.fetch;
+    let fetchMock: jest.Mock<typeof fetch>;
+
+    beforeEach(() => {
+        fetchMock = jest.fn<typeof fetch>();
+        global.fetch = fetchMock;
+    });
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+        if (originalHost === undefined) {
+            delete process.env.OLLAMA_HOST;
+        } else {
+            process.env.OLLAMA_HOST = originalHost;
+        }
+    });
+
+    it("assumes http:// for an OLLAMA_HOST without a scheme", async () => {
+        process.env.OLLAMA_HOST = "127.0.0.1:11434";
+        fetchMock.mockResolvedValue(
+            new Response(JSON.stringify({ message: { content: "hi" }, done: true }), { status: 200 })
+        );
+
+        await new OllamaProvider().invoke("hello", config);
+
+        expect(fetchMock.mock.calls[0][0]).toBe("http://127.0.0.1:11434/api/chat");
+    });
+
+    it("keeps the scheme and drops trailing slashes of a full URL", async () => {
+        fetchMock.mockResolvedValue(
+            new Response(JSON.stringify({ message: { content: "hi" }, done: true }), { status: 200 })
+        );
+
+        await new OllamaProvider("https://ollama.example.com/").invoke("hello", config);
+
+        expect(fetchMock.mock.calls[0][0]).toBe("https://ollama.example.com/api/chat");
+    });
+
+    it("sends a keepAlive of 0 to unload the model", async () => {
+        fetchMock.mockResolvedValue(
+            new Response(JSON.stringify({ message: { content: "hi" }, done: true }), { status: 200 })
+        );
+
+        await new OllamaProvider().invoke("hello", { ...config, keepAlive: 0 });
+
+        const body = JSON.parse(fetchMock.mock.calls[0][1]!.body as string);
+        expect(body.keep_alive).toBe(0);
+    });
+
+    it("sends images as base64 beside the message text", async () => {
+        fetchMock.mockResolvedValue(
+            new Response(JSON.stringify({ message: { content: "hi" }, done: true }), { status: 200 })
+        );
+
+        await new OllamaProvider().invoke(
+            [
+                {
+                    role: "user",
+                    content: [
+                        textPart("What is "),
+                        imageFromBase64("data:image/png;base64,iVBORw0KGgo="),
+                        textPart("?"),
+                    ],
+                },
+            ],
+            config
+        );
+
+        const body = JSON.parse(fetchMock.mock.calls[0][1]!.body as string);
+        expect(body.messages).toEqual([
+            { role: "user", content: "What is ?", images: ["iVBORw0KGgo="] },
+        ]);
+    });
+
+    it("rejects document parts", async () => {
+        await expect(
+            new OllamaProvider().invoke(
+                [{ role: "user", content: [pdfFromBase64("JVBERi0=")] }],
+                config
+            )
+        ).rejects.toThrow("Ollama does not support document inputs");
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("parses a last stream line that has no trailing newline", async () => {
+        fetchMock.mockResolvedValue(
+            streamResponse([
+                '{"message":{"content":"Hel"},"done":false}\n{"message":{"con',
+                'tent":"lo"},"done":false}\n',
+                '{"message":{"content":"!"},"done":true,"prompt_eval_count":5,"eval_count":3}',
+            ])
+        );
+
+        const chunks = [];
+        for await (const chunk of new OllamaProvider().invokeStream("hello", config)) {
+            chunks.push(chunk);
+        }
+
+        expect(chunks.map((chunk) => chunk.text).join("")).toBe("Hello!");
+        expect(chunks[chunks.length - 1].tokenUsage).toEqual({ inputTokens: 5, outputTokens: 3 });
+    });
+});
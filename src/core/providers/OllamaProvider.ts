@@ -0,0 +1,253 @@
+import { ILLMProvider, LLMResponse } from "./ILLMProvider";
+import { OllamaConfig, StreamChunk, TokenUsage, PromptInput, InvokeOptions, ToolCall } from "../types";
+import { toChatMessages } from "../messages";
+import { loadMedia } from "../content";
+
+const DEFAULT_OLLAMA_BASE_URL = "http://localhost:11434";
+
+/**
+ * Normalize an Ollama address: OLLAMA_HOST is often set without a scheme
+ * (e.g. "127.0.0.1:11434"), which fetch rejects, so http:// is assumed
+ */
+function normalizeBaseUrl(url: string): string {
+    const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(url) ? url : `http://${url}`;
+    return withScheme.replace(/\/+$/, "");
+}
+
+/**
+ * Parse a newline-delimited JSON stream, one object per line. A last line
+ * without a trailing newline is parsed once the stream ends.
+ */
+async function* readJsonLines(body: AsyncIterable<Uint8Array>): AsyncGenerator<any> {
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    for await (const bytes of body) {
+        buffer += decoder.decode(bytes, { stream: true });
+
+        let newlineIndex: number;
+        while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
+            const line = buffer.slice(0, newlineIndex).trim();
+            buffer = buffer.slice(newlineIndex + 1);
+            if (line) {
+                yield JSON.parse(line);
+            }
+        }
+    }
+
+    buffer = (buffer + decoder.decode()).trim();
+    if (buffer) {
+        yield JSON.parse(buffer);
+    }
+}
+
+/**
+ * Ollama provider implementation using the local Ollama HTTP API
+ */
+export class OllamaProvider implements ILLMProvider {
+    private baseUrl: string;
+    readonly provider = "ollama";
+
+    constructor(baseUrl?: string) {
+        this.baseUrl = normalizeBaseUrl(
+            baseUrl ||
+            process.env.OLLAMA_HOST ||
+            DEFAULT_OLLAMA_BASE_URL
+        );
+    }
+
+    async invoke(
+        prompt: PromptInput,
+        config: OllamaConfig,
+        options?: InvokeOptions
+    ): Promise<LLMResponse> {
+        const response = await this.post(config, await this.buildRequestBody(prompt, config, false, options));
+        const body = await response.json();
+
+        // Ollama does not assign tool call ids
+        const toolCalls: ToolCall[] = (body.message?.tool_calls ?? []).map((call: any, i: number) => ({
+            id: `call_${i}`,
+            name: call.function?.name,
+            arguments: call.function?.arguments ?? {},
+        }));
+
+        return {
+            content: body.message?.content ?? "",
+            thinking: body.message?.thinking || undefined,
+            usage: {
+                inputTokens: body.prompt_eval_count || 0,
+                outputTokens: body.eval_count || 0,
+            },
+            raw: body,
+            ...(toolCalls.length > 0 && { toolCalls }),
+            stopReason:
+                toolCalls.length > 0
+                    ? "tool_use"
+                    : body.done_reason === "length"
+                      ? "max_tokens"
+                      : body.done_reason === "stop"
+                        ? "end_turn"
+                        : body.done_reason,
+        };
+    }
+
+    async *invokeStream(
+        prompt: PromptInput,
+        config: OllamaConfig
+    ): AsyncGenerator<StreamChunk> {
+        const response = await this.post(config, await this.buildRequestBody(prompt, config, true));
+
+        if (!response.body) {
+            throw new Error("Ollama returned an empty response stream");
+        }
+
+        const tokenUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+        for await (const event of readJsonLines(response.body as unknown as AsyncIterable<Uint8Array>)) {
+            if (event.error) {
+                throw new Error(`Ollama error: ${event.error}`);
+            }
+            if (event.message?.content) {
+                yield { text: event.message.content };
+            }
+            if (event.done) {
+                tokenUsage.inputTokens = event.prompt_eval_count || 0;
+                tokenUsage.outputTokens = event.eval_count || 0;
+            }
+        }
+
+        yield { text: "", tokenUsage };
+    }
+
+    supportsResponseFormat(): boolean {
+        return true;
+    }
+
+    supportsBatch(): boolean {
+        return false;
+    }
+
+    private async buildRequestBody(
+        prompt: PromptInput,
+        config: OllamaConfig,
+        stream: boolean,
+        invokeOptions?: InvokeOptions
+    ): Promise<Record<string, any>> {
+        const {
+            model,
+            temperature,
+            maxTokens,
+            topK,
+            topP,
+            format,
+            keepAlive,
+            numKeep,
+            providerOptions,
+        } = config;
+
+        const messages: any[] = [];
+        if (providerOptions?.systemPrompt) {
+            messages.push({ role: "system", content: providerOptions.systemPrompt });
+        }
+        for (const message of toChatMessages(prompt)) {
+            // Ollama takes images as a list of base64 strings beside the text
+            const images: string[] = [];
+            if (typeof message.content !== "string") {
+                for (const part of message.content) {
+                    if (part.type === "document") {
+                        throw new Error("Ollama does not support document inputs");
+                    }
+                    if (part.type === "image") {
+                        images.push((await loadMedia(part)).data);
+                    }
+                }
+            }
+            const text = typeof message.content === "string"
+                ? message.content
+                : message.content.map((part) => (part.type === "text" ? part.text : "")).join("");
+
+            messages.push({
+                role: message.role,
+                content: text,
+                ...(images.length > 0 && { images }),
+                ...(message.toolCalls?.length && {
+                    tool_calls: message.toolCalls.map((call) => ({
+                        function: { name: call.name, arguments: call.arguments },
+                    })),
+                }),
+                ...(message.role === "tool" && message.name && { tool_name: message.name }),
+            });
+        }
+
+        // Ollama has no tool_choice; "none" is honoured by not sending tools
+        const tools =
+            invokeOptions?.toolChoice === "none"
+                ? []
+                : (invokeOptions?.tools ?? []).map((tool) => ({
+                      type: "function",
+                      function: {
+                          name: tool.name,
+                          description: tool.description,
+                          parameters: tool.parameters,
+                      },
+                  }));
+
+        const options: Record<string, any> = {
+            ...(temperature !== undefined && { temperature }),
+            ...(maxTokens !== undefined && { num_predict: maxTokens }),
+            ...(topK !== undefined && { top_k: topK }),
+            ...(topP !== undefined && { top_p: topP }),
+            ...(numKeep !== undefined && { num_keep: numKeep }),
+        };
+
+        return {
+            model,
+            messages,
+            stream,
+            ...(tools.length > 0 && { tools }),
+            // A JSON schema in format constrains the output to that schema
+            ...(invokeOptions?.responseFormat
+                ? { format: invokeOptions.responseFormat.schema }
+                : format && { format }),
+            ...(keepAlive !== undefined && { keep_alive: keepAlive }),
+            ...(Object.keys(options).length > 0 && { options }),
+        };
+    }
+
+    private async post(config: OllamaConfig, body: Record<string, any>): Promise<Response> {
+        const baseUrl = config.baseUrl ? normalizeBaseUrl(config.baseUrl) : this.baseUrl;
+
+        let response: Response;
+        try {
+            response = await fetch(`${baseUrl}/api/chat`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(body),
+            });
+        } catch (error: any) {
+            throw Object.assign(
+                new Error(
+                    `Could not reach Ollama at ${baseUrl}. Is the Ollama server running? (${error?.message ?? error})`
+                ),
+                { cause: error }
+            );
+        }
+
+        if (!response.ok) {
+            const text = await response.text().catch(() => "");
+            let message = text;
+            try {
+                message = JSON.parse(text).error ?? text;
+            } catch {
+                // Not JSON; use the raw body
+            }
+            const error: any = new Error(
+                `Ollama request failed with status ${response.status}: ${message}`
+            );
+            error.status = response.status;
+            throw error;
+        }
+
+        return response;
+    }
+}
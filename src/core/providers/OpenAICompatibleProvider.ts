@@ -0,0 +1,141 @@
+import { OpenAIProvider } from "./OpenAIProvider";
+import { LLMResponse } from "./ILLMProvider";
+import {
+    OpenAIConfig,
+    OpenAICompatibleCapabilities,
+    LLMConfig,
+    StreamChunk,
+    PromptInput,
+    InvokeOptions,
+} from "../types";
+import { splitSystemMessages } from "../messages";
+import { concatContent } from "../content";
+
+/**
+ * Provider for any server implementing the OpenAI chat completions API,
+ * such as Grok (xAI), vLLM, LM Studio or LiteLLM.
+ *
+ * Reuses OpenAIProvider's chat completions path, including streaming and
+ * usage reporting. The responses API and batch processing are OpenAI-only
+ * and are not used.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+    readonly provider: string;
+    private capabilities: Required<OpenAICompatibleCapabilities>;
+
+    constructor(options: {
+        baseURL: string;
+        apiKey?: string;
+        headers?: Record<string, string>;
+        provider?: string; // Identifier reported in usage records (default: "openai-compatible")
+        capabilities?: OpenAICompatibleCapabilities;
+    }) {
+        // Many local servers need no key, but the OpenAI client requires one.
+        // Never fall back to OPENAI_API_KEY so it isn't sent to a third-party server.
+        super(options.apiKey || "not-needed", {
+            baseURL: options.baseURL,
+            defaultHeaders: options.headers,
+        });
+
+        this.provider = options.provider ?? "openai-compatible";
+        this.capabilities = {
+            streaming: true,
+            streamUsage: true,
+            systemPrompt: true,
+            penalties: true,
+            tools: true,
+            structuredOutput: true,
+            ...options.capabilities,
+        };
+    }
+
+    async invoke(
+        prompt: PromptInput,
+        config: LLMConfig,
+        options?: InvokeOptions
+    ): Promise<LLMResponse> {
+        if (options?.tools?.length && !this.capabilities.tools) {
+            throw new Error(
+                `Provider '${this.provider}' is configured without tool calling support.`
+            );
+        }
+        if (options?.responseFormat && !this.capabilities.structuredOutput) {
+            throw new Error(
+                `Provider '${this.provider}' is configured without structured output support.`
+            );
+        }
+
+        const [effectivePrompt, effectiveConfig] = this.applySystemPrompt(prompt, config);
+        return this.useChatCompletions(effectivePrompt, effectiveConfig, options);
+    }
+
+    async *invokeStream(
+        prompt: PromptInput,
+        config: LLMConfig
+    ): AsyncGenerator<StreamChunk> {
+        if (!this.capabilities.streaming) {
+            throw new Error(
+                `Provider '${this.provider}' is configured without streaming support.`
+            );
+        }
+
+        const [effectivePrompt, effectiveConfig] = this.applySystemPrompt(prompt, config);
+        yield* this.streamChatCompletions(effectivePrompt, effectiveConfig);
+    }
+
+    supportsResponseFormat(): boolean {
+        return this.capabilities.structuredOutput;
+    }
+
+    supportsBatch(): boolean {
+        return false;
+    }
+
+    protected prepareChatCompletionParams(params: any, config: OpenAIConfig): any {
+        const prepared = { ...params };
+
+        if (!this.capabilities.streamUsage) {
+            delete prepared.stream_options;
+        }
+        if (!this.capabilities.penalties) {
+            delete prepared.frequency_penalty;
+            delete prepared.presence_penalty;
+        }
+
+        return prepared;
+    }
+
+    /**
+     * Fold the system prompt and any system messages into the first user
+     * message for models without a system role
+     */
+    private applySystemPrompt(
+        prompt: PromptInput,
+        config: LLMConfig
+    ): [PromptInput, OpenAIConfig] {
+        if (this.capabilities.systemPrompt) {
+            return [prompt, config as OpenAIConfig];
+        }
+
+        const { system, messages } = splitSystemMessages(
+            prompt,
+            config.providerOptions?.systemPrompt
+        );
+        if (!system) {
+            return [prompt, config as OpenAIConfig];
+        }
+
+        const firstUserIndex = messages.findIndex((m) => m.role === "user");
+        const folded =
+            firstUserIndex === -1
+                ? [{ role: "user" as const, content: system }, ...messages]
+                : messages.map((m, i) =>
+                      i === firstUserIndex
+                          ? { ...m, content: concatContent([system, m.content]) }
+                          : m
+                  );
+
+        const { systemPrompt: _, ...providerOptions } = config.providerOptions ?? {};
+        return [folded, { ...config, providerOptions } as OpenAIConfig];
+    }
+}
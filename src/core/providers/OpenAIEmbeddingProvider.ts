@@ -0,0 +1,43 @@
+import OpenAI from "openai";
+import { IEmbeddingProvider, EmbeddingResponse } from "./IEmbeddingProvider";
+import { OpenAIEmbeddingConfig } from "../types";
+
+/**
+ * OpenAI embedding provider implementation
+ */
+export class OpenAIEmbeddingProvider implements IEmbeddingProvider {
+    private client: OpenAI;
+    private dimensions?: number;
+    readonly provider = "openai";
+    readonly model: string;
+
+    constructor(config: Omit<OpenAIEmbeddingConfig, "provider">) {
+        this.model = config.model;
+        this.dimensions = config.dimensions;
+        this.client = new OpenAI({
+            apiKey: config.apiKey || process.env.OPENAI_API_KEY,
+        });
+    }
+
+    async embed(texts: string[]): Promise<EmbeddingResponse> {
+        if (texts.length === 0) {
+            return { embeddings: [] };
+        }
+
+        const response = await this.client.embeddings.create({
+            model: this.model,
+            input: texts,
+            ...(this.dimensions !== undefined && { dimensions: this.dimensions }),
+        });
+
+        // The API does not guarantee ordering, so sort by index
+        const embeddings = [...response.data]
+            .sort((a, b) => a.index - b.index)
+            .map((item) => item.embedding);
+
+        return {
+            embeddings,
+            usage: { inputTokens: response.usage?.prompt_tokens || 0 },
+        };
+    }
+}
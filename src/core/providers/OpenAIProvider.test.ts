@@ -0,0 +1,233 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { OpenAIProvider } from "./OpenAIProvider";
+import { imageFromBase64, imageFromUrl, pdfFromBase64, textPart } from "../content";
+import { OpenAIConfig, PromptInput } from "../types";
+
+const PDF_BASE64 = Buffer.from("%PDF-1.4").toString("base64");
+
+/**
+ * A JSON response with the given body
+ */
+function jsonResponse(body: unknown): Response {
+    return new Response(JSON.stringify(body), {
+        status: 200,
+        headers: { "content-type": "application/json" },
+    });
+}
+
+/**
+ * A chat completions response with the given message and usage
+ */
+function chatCompletion(
+    message: Record<string, unknown>,
+    usage: Record<string, unknown> = {}
+): Response {
+    return jsonResponse({
+        id: "chatcmpl-1",
+        object: "chat.completion",
+        created: 0,
+        model: "gpt-4.1-mini",
+        choices: [{ index: 0, message: { role: "assistant", ...message }, finish_reason: "stop" }],
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15, ...usage },
+    });
+}
+
+/**
+ * A responses API response with the given output items and usage
+ */
+function responsesResult(output: unknown[], usage: Record<string, unknown> = {}): Response {
+    return jsonResponse({
+        id: "resp-1",
+        object: "response",
+        created_at: 0,
+        status: "completed",
+        model: "gpt-5",
+        output,
+        usage: { input_tokens: 10, output_tokens: 5, total_tokens: 15, ...usage },
+    });
+}
+
+/**
+ * A responses API message output item
+ */
+function outputMessage(text: string, annotations: unknown[] = []): Record<string, unknown> {
+    return {
+        type: "message",
+        id: "msg-1",
+        role: "assistant",
+        status: "completed",
+        content: [{ type: "output_text", text, annotations }],
+    };
+}
+
+describe("OpenAIProvider", () => {
+    const originalFetch = global.fetch;
+    let fetchMock: jest.Mock<typeof fetch>;
+    let provider: OpenAIProvider;
+    const chatConfig: OpenAIConfig = { provider: "openai", model: "gpt-4.1-mini" };
+    const responsesConfig: OpenAIConfig = { provider: "openai", model: "gpt-5" };
+
+    beforeEach(() => {
+        fetchMock = jest.fn<typeof fetch>();
+        global.fetch = fetchMock;
+        // The client captures fetch when it is created
+        provider = new OpenAIProvider("test-key");
+    });
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    const requestBody = () => JSON.parse(fetchMock.mock.calls[0][1]?.body as string);
+
+    const prompt: PromptInput = [
+        {
+            role: "user",
+            content: [
+                textPart("Compare these."),
+                imageFromUrl("https://example.com/cat.png"),
+                imageFromBase64("iVBORw0KGgo="),
+                pdfFromBase64(PDF_BASE64),
+            ],
+        },
+    ];
+
+    it("maps content parts to chat completions parts", async () => {
+        fetchMock.mockResolvedValue(chatCompletion({ content: "done" }));
+
+        await provider.invoke(prompt, chatConfig);
+
+        expect(requestBody().messages[0].content).toEqual([
+            { type: "text", text: "Compare these." },
+            { type: "image_url", image_url: { url: "https://example.com/cat.png" } },
+            { type: "image_url", image_url: { url: "data:image/png;base64,iVBORw0KGgo=" } },
+            {
+                type: "file",
+                file: { filename: "document.pdf", file_data: `data:application/pdf;base64,${PDF_BASE64}` },
+            },
+        ]);
+    });
+
+    it("maps content parts to responses API input parts", async () => {
+        fetchMock.mockResolvedValue(responsesResult([outputMessage("done")]));
+
+        await provider.invoke(prompt, responsesConfig);
+
+        expect(requestBody().input[0].content).toEqual([
+            { type: "input_text", text: "Compare these." },
+            { type: "input_image", image_url: "https://example.com/cat.png" },
+            { type: "input_image", image_url: "data:image/png;base64,iVBORw0KGgo=" },
+            {
+                type: "input_file",
+                filename: "document.pdf",
+                file_data: `data:application/pdf;base64,${PDF_BASE64}`,
+            },
+        ]);
+    });
+
+    it("offsets responses API citations into output_text and lists searched pages", async () => {
+        fetchMock.mockResolvedValue(
+            responsesResult([
+                {
+                    type: "web_search_call",
+                    id: "ws-1",
+                    status: "completed",
+                    action: {
+                        type: "search",
+                        query: "tides",
+                        sources: [
+                            { type: "url", url: "https://a.example" },
+                            { type: "url", url: "https://b.example" },
+                        ],
+                    },
+                },
+                outputMessage("Intro. "),
+                outputMessage("Tides follow the moon.", [
+                    {
+                        type: "url_citation",
+                        url: "https://a.example",
+                        title: "A",
+                        start_index: 0,
+                        end_index: 21,
+                    },
+                ]),
+            ])
+        );
+
+        const response = await provider.invoke("Why are there tides?", {
+            ...responsesConfig,
+            webSearch: { enabled: true },
+        });
+
+        expect(response.content).toBe("Intro. Tides follow the moon.");
+        expect(response.citations).toEqual([
+            { url: "https://a.example", title: "A", startIndex: 7, endIndex: 28 },
+        ]);
+        expect(response.sources).toEqual([{ url: "https://a.example" }, { url: "https://b.example" }]);
+        expect(requestBody().include).toEqual(["web_search_call.action.sources"]);
+    });
+
+    it("returns chat completions URL annotations as citations", async () => {
+        fetchMock.mockResolvedValue(
+            chatCompletion({
+                content: "Tides follow the moon.",
+                annotations: [
+                    {
+                        type: "url_citation",
+                        url_citation: { url: "https://a.example", title: "A", start_index: 0, end_index: 21 },
+                    },
+                ],
+            })
+        );
+
+        const response = await provider.invoke("Why are there tides?", chatConfig);
+
+        expect(response.citations).toEqual([
+            { url: "https://a.example", title: "A", startIndex: 0, endIndex: 21 },
+        ]);
+    });
+
+    it("reports cached prompt tokens from both APIs", async () => {
+        fetchMock
+            .mockResolvedValueOnce(
+                chatCompletion({ content: "done" }, { prompt_tokens_details: { cached_tokens: 8 } })
+            )
+            .mockResolvedValueOnce(
+                responsesResult([outputMessage("done")], { input_tokens_details: { cached_tokens: 6 } })
+            );
+
+        const chat = await provider.invoke("hello", chatConfig);
+        const responses = await provider.invoke("hello", responsesConfig);
+
+        expect(chat.usage).toEqual({ inputTokens: 10, outputTokens: 5, cacheReadTokens: 8 });
+        expect(responses.usage).toEqual({ inputTokens: 10, outputTokens: 5, cacheReadTokens: 6 });
+    });
+
+    it("reports reasoning tokens and web searches", async () => {
+        fetchMock
+            .mockResolvedValueOnce(
+                chatCompletion({ content: "done" }, { completion_tokens_details: { reasoning_tokens: 3 } })
+            )
+            .mockResolvedValueOnce(
+                responsesResult(
+                    [
+                        { type: "web_search_call", id: "ws-1", status: "completed" },
+                        { type: "web_search_call", id: "ws-2", status: "completed" },
+                        outputMessage("done"),
+                    ],
+                    { output_tokens_details: { reasoning_tokens: 4 } }
+                )
+            );
+
+        const chat = await provider.invoke("hello", chatConfig);
+        const responses = await provider.invoke("hello", responsesConfig);
+
+        expect(chat.usage).toEqual({ inputTokens: 10, outputTokens: 5, thinkingTokens: 3 });
+        expect(responses.usage).toEqual({
+            inputTokens: 10,
+            outputTokens: 5,
+            thinkingTokens: 4,
+            searchCount: 2,
+        });
+    });
+});
@@ -1,21 +1,43 @@
-import OpenAI, { toFile } from "openai";
+import OpenAI, { ClientOptions, toFile } from "openai";
 import { ILLMProvider, LLMResponse, ProviderBatchRequest, ProviderBatchResponse, ProviderBatchItemResult } from "./ILLMProvider";
-import { OpenAIConfig, BatchMetadata, BatchStatus, LLMConfig, StreamChunk, TokenUsage } from "../types";
+import {
+    OpenAIConfig,
+    BatchMetadata,
+    BatchStatus,
+    LLMConfig,
+    StreamChunk,
+    TokenUsage,
+    PromptInput,
+    InvokeOptions,
+    ToolCall,
+    ToolChoice,
+    MessageContent,
+    Citation,
+    WebSource,
+} from "../types";
+import { toChatMessages } from "../messages";
+import { contentToText, toDataUrl } from "../content";
+import { sdkRetryOptions } from "../retry";
 
 /**
  * OpenAI provider implementation
  */
 export class OpenAIProvider implements ILLMProvider {
-    private client: OpenAI;
-    readonly provider = "openai";
+    protected client: OpenAI;
+    readonly provider: string = "openai";
 
-    constructor(apiKey?: string) {
+    constructor(apiKey?: string, clientOptions?: Omit<ClientOptions, "apiKey">) {
         this.client = new OpenAI({
             apiKey: apiKey || process.env.OPENAI_API_KEY,
+            ...clientOptions,
         });
     }
 
-    async invoke(prompt: string, config: OpenAIConfig): Promise<LLMResponse> {
+    async invoke(
+        prompt: PromptInput,
+        config: OpenAIConfig,
+        options?: InvokeOptions
+    ): Promise<LLMResponse> {
         const {
             model,
             temperature,
@@ -35,7 +57,7 @@ export class OpenAIProvider implements ILLMProvider {
             // Use responses API for newer models (GPT-5, etc.)
             const params: any = {
                 model,
-                input: prompt,
+                input: await this.buildResponsesInput(prompt),
                 max_output_tokens: maxTokens,
             };
 
@@ -55,42 +77,95 @@ export class OpenAIProvider implements ILLMProvider {
                 params.reasoning = reasoning;
             }
 
-            // Add web search if enabled
+            // Add web search and function tools
+            const tools = [
+                ...(webSearch?.enabled ? [{ type: "web_search" }] : []),
+                ...(config.tools ?? []),
+                ...(options?.tools ?? []).map((tool) => ({
+                    type: "function",
+                    name: tool.name,
+                    description: tool.description,
+                    parameters: tool.parameters,
+                    strict: false,
+                })),
+            ];
+            if (tools.length > 0) {
+                params.tools = tools;
+            }
             if (webSearch?.enabled) {
-                params.tools = [{ type: "web_search" }];
+                // Return the pages each search consulted, not only the cited ones
+                params.include = ["web_search_call.action.sources"];
+            }
+            if (options?.toolChoice) {
+                params.tool_choice = this.toResponsesToolChoice(options.toolChoice);
+            }
+            if (options?.responseFormat) {
+                const { name, description, schema, strict } = options.responseFormat;
+                params.text = {
+                    format: {
+                        type: "json_schema",
+                        name,
+                        schema,
+                        strict: strict ?? false,
+                        ...(description && { description }),
+                    },
+                };
             }
 
             try {
-                const response = await this.client.responses.create(params);
+                const response = await this.client.responses.create(params, sdkRetryOptions(config));
 
                 // Extract content from response output
                 let content = response.output_text;
+                const toolCalls: ToolCall[] = (response.output ?? [])
+                    .filter((item: any) => item.type === "function_call")
+                    .map((item: any) => ({
+                        id: item.call_id,
+                        name: item.name,
+                        arguments: parseToolArguments(item.arguments),
+                    }));
+
+                // Reasoning summaries are returned when requested with reasoning.summary
+                const thinking = (response.output ?? [])
+                    .filter((item: any) => item.type === "reasoning")
+                    .flatMap((item: any) => (item.summary ?? []).map((part: any) => part.text))
+                    .join("\n\n");
+
+                const { citations, sources } = extractResponsesCitations(response.output ?? []);
 
                 return {
                     content,
+                    ...(thinking && { thinking }),
+                    ...(citations.length > 0 && { citations }),
+                    ...(sources.length > 0 && { sources }),
                     usage: {
                         inputTokens: response.usage?.input_tokens || 0,
                         outputTokens: response.usage?.output_tokens || 0,
-                        thinkingTokens:
-                            (response.usage as any)?.reasoning_tokens || 0,
-                        searchCount: (response.usage as any)?.search_count,
+                        ...usageDetails(response.usage, response.output),
                     },
                     raw: response,
+                    ...(toolCalls.length > 0 && { toolCalls }),
+                    stopReason:
+                        toolCalls.length > 0
+                            ? "tool_use"
+                            : response.incomplete_details?.reason === "max_output_tokens"
+                              ? "max_tokens"
+                              : response.incomplete_details?.reason ?? "end_turn",
                 };
             } catch (error: any) {
                 // If responses API fails, fall back to chat completions
                 if (error?.status === 404) {
-                    return this.useChatCompletions(prompt, config);
+                    return this.useChatCompletions(prompt, config, options);
                 }
                 throw error;
             }
         } else {
-            return this.useChatCompletions(prompt, config);
+            return this.useChatCompletions(prompt, config, options);
         }
     }
 
     async *invokeStream(
-        prompt: string,
+        prompt: PromptInput,
         config: OpenAIConfig
     ): AsyncGenerator<StreamChunk> {
         const useResponsesAPI = this.shouldUseResponsesAPI(config.model);
@@ -111,8 +186,8 @@ export class OpenAIProvider implements ILLMProvider {
         yield* this.streamChatCompletions(prompt, config);
     }
 
-    private async *streamChatCompletions(
-        prompt: string,
+    protected async *streamChatCompletions(
+        prompt: PromptInput,
         config: OpenAIConfig
     ): AsyncGenerator<StreamChunk> {
         const {
@@ -125,11 +200,7 @@ export class OpenAIProvider implements ILLMProvider {
             providerOptions,
         } = config;
 
-        const messages: any[] = [];
-        if (providerOptions?.systemPrompt) {
-            messages.push({ role: "system", content: providerOptions.systemPrompt });
-        }
-        messages.push({ role: "user", content: prompt });
+        const messages = await this.buildChatMessages(prompt, providerOptions?.systemPrompt);
 
         const params: any = {
             model,
@@ -144,7 +215,10 @@ export class OpenAIProvider implements ILLMProvider {
         if (frequencyPenalty !== undefined) params.frequency_penalty = frequencyPenalty;
         if (presencePenalty !== undefined) params.presence_penalty = presencePenalty;
 
-        const stream = await this.client.chat.completions.create(params) as unknown as AsyncIterable<any>;
+        const stream = await this.client.chat.completions.create(
+            this.prepareChatCompletionParams(params, config),
+            sdkRetryOptions(config)
+        ) as unknown as AsyncIterable<any>;
 
         const tokenUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
 
@@ -156,6 +230,7 @@ export class OpenAIProvider implements ILLMProvider {
             if (chunk.usage) {
                 tokenUsage.inputTokens = chunk.usage.prompt_tokens || 0;
                 tokenUsage.outputTokens = chunk.usage.completion_tokens || 0;
+                Object.assign(tokenUsage, usageDetails(chunk.usage));
             }
         }
 
@@ -163,7 +238,7 @@ export class OpenAIProvider implements ILLMProvider {
     }
 
     private async *streamResponsesAPI(
-        prompt: string,
+        prompt: PromptInput,
         config: OpenAIConfig
     ): AsyncGenerator<StreamChunk> {
         const {
@@ -180,7 +255,7 @@ export class OpenAIProvider implements ILLMProvider {
 
         const params: any = {
             model,
-            input: prompt,
+            input: await this.buildResponsesInput(prompt),
             stream: true,
         };
 
@@ -193,7 +268,10 @@ export class OpenAIProvider implements ILLMProvider {
         if (reasoning) params.reasoning = reasoning;
         if (webSearch?.enabled) params.tools = [{ type: "web_search" }];
 
-        const stream = await this.client.responses.create(params) as unknown as AsyncIterable<any>;
+        const stream = await this.client.responses.create(
+            params,
+            sdkRetryOptions(config)
+        ) as unknown as AsyncIterable<any>;
 
         const tokenUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
 
@@ -205,6 +283,7 @@ export class OpenAIProvider implements ILLMProvider {
                 if (usage) {
                     tokenUsage.inputTokens = usage.input_tokens || 0;
                     tokenUsage.outputTokens = usage.output_tokens || 0;
+                    Object.assign(tokenUsage, usageDetails(usage, (event as any).response.output));
                 }
             }
         }
@@ -212,9 +291,10 @@ export class OpenAIProvider implements ILLMProvider {
         yield { text: "", tokenUsage };
     }
 
-    private async useChatCompletions(
-        prompt: string,
-        config: OpenAIConfig
+    protected async useChatCompletions(
+        prompt: PromptInput,
+        config: OpenAIConfig,
+        options?: InvokeOptions
     ): Promise<LLMResponse> {
         const {
             model,
@@ -227,14 +307,7 @@ export class OpenAIProvider implements ILLMProvider {
         } = config;
 
         // Use chat completions for older models
-        const messages: any[] = [];
-        if (providerOptions?.systemPrompt) {
-            messages.push({
-                role: "system",
-                content: providerOptions.systemPrompt,
-            });
-        }
-        messages.push({ role: "user", content: prompt });
+        const messages = await this.buildChatMessages(prompt, providerOptions?.systemPrompt);
 
         const params: any = {
             model,
@@ -250,21 +323,249 @@ export class OpenAIProvider implements ILLMProvider {
         if (presencePenalty !== undefined)
             params.presence_penalty = presencePenalty;
 
-        const response = await this.client.chat.completions.create(params);
+        const tools = [
+            ...(config.tools ?? []),
+            ...(options?.tools ?? []).map((tool) => ({
+                type: "function",
+                function: {
+                    name: tool.name,
+                    description: tool.description,
+                    parameters: tool.parameters,
+                },
+            })),
+        ];
+        if (tools.length > 0) {
+            params.tools = tools;
+        }
+        if (options?.toolChoice) {
+            params.tool_choice = this.toChatToolChoice(options.toolChoice);
+        }
+        if (options?.responseFormat) {
+            const { name, description, schema, strict } = options.responseFormat;
+            params.response_format = {
+                type: "json_schema",
+                json_schema: {
+                    name,
+                    schema,
+                    strict: strict ?? false,
+                    ...(description && { description }),
+                },
+            };
+        }
+
+        const response = await this.client.chat.completions.create(
+            this.prepareChatCompletionParams(params, config),
+            sdkRetryOptions(config)
+        ) as OpenAI.Chat.Completions.ChatCompletion;
+
+        const choice = response.choices[0];
+        const toolCalls: ToolCall[] = (choice?.message?.tool_calls ?? [])
+            .filter((call: any) => call.type === "function")
+            .map((call: any) => ({
+                id: call.id,
+                name: call.function.name,
+                arguments: parseToolArguments(call.function.arguments),
+            }));
+
+        // Search-enabled chat models annotate their answer with URL citations
+        const citations: Citation[] = ((choice?.message as any)?.annotations ?? [])
+            .filter((annotation: any) => annotation.type === "url_citation")
+            .map((annotation: any) => ({
+                url: annotation.url_citation.url,
+                ...(annotation.url_citation.title && { title: annotation.url_citation.title }),
+                startIndex: annotation.url_citation.start_index,
+                endIndex: annotation.url_citation.end_index,
+            }));
 
         return {
-            content: response.choices[0]?.message?.content || "",
+            content: choice?.message?.content || "",
+            ...(citations.length > 0 && { citations }),
             usage: {
                 inputTokens: response.usage?.prompt_tokens || 0,
                 outputTokens: response.usage?.completion_tokens || 0,
-                thinkingTokens:
-                    response.usage?.completion_tokens_details
-                        ?.reasoning_tokens || 0,
+                ...usageDetails(response.usage),
             },
             raw: response,
+            ...(toolCalls.length > 0 && { toolCalls }),
+            stopReason: this.toStopReason(choice?.finish_reason),
         };
     }
 
+    /**
+     * Build chat completions messages, with the configured system prompt first
+     */
+    protected async buildChatMessages(prompt: PromptInput, systemPrompt?: string): Promise<any[]> {
+        const messages: any[] = [];
+        if (systemPrompt) {
+            messages.push({ role: "system", content: systemPrompt });
+        }
+        for (const message of toChatMessages(prompt)) {
+            if (message.role === "tool") {
+                messages.push({
+                    role: "tool",
+                    tool_call_id: message.toolCallId,
+                    content: contentToText(message.content),
+                });
+            } else if (message.toolCalls?.length) {
+                messages.push({
+                    role: "assistant",
+                    content: contentToText(message.content) || null,
+                    tool_calls: message.toolCalls.map((call) => ({
+                        id: call.id,
+                        type: "function",
+                        function: {
+                            name: call.name,
+                            arguments: JSON.stringify(call.arguments),
+                        },
+                    })),
+                });
+            } else {
+                messages.push({
+                    role: message.role,
+                    content: await this.toChatContent(message.content),
+                });
+            }
+        }
+        return messages;
+    }
+
+    /**
+     * Convert message content to chat completions content: text stays a
+     * string, parts become text / image_url / file parts
+     */
+    private async toChatContent(content: MessageContent): Promise<string | any[]> {
+        if (typeof content === "string") {
+            return content;
+        }
+        return Promise.all(
+            content.map(async (part) => {
+                switch (part.type) {
+                    case "text":
+                        return { type: "text", text: part.text };
+                    case "image":
+                        return {
+                            type: "image_url",
+                            image_url: { url: part.url ?? (await toDataUrl(part)) },
+                        };
+                    case "document":
+                        return {
+                            type: "file",
+                            file: {
+                                filename: part.filename ?? "document.pdf",
+                                file_data: await toDataUrl(part),
+                            },
+                        };
+                }
+            })
+        );
+    }
+
+    /**
+     * Convert message content to responses API content parts
+     */
+    private async toResponsesContent(content: MessageContent): Promise<string | any[]> {
+        if (typeof content === "string") {
+            return content;
+        }
+        return Promise.all(
+            content.map(async (part) => {
+                switch (part.type) {
+                    case "text":
+                        return { type: "input_text", text: part.text };
+                    case "image":
+                        return {
+                            type: "input_image",
+                            image_url: part.url ?? (await toDataUrl(part)),
+                        };
+                    case "document":
+                        return {
+                            type: "input_file",
+                            filename: part.filename ?? "document.pdf",
+                            file_data: await toDataUrl(part),
+                        };
+                }
+            })
+        );
+    }
+
+    /**
+     * Build responses API input. Plain prompts are sent as-is; conversations are
+     * sent as a list of role/content messages, with tool calls and results as
+     * function_call / function_call_output items.
+     */
+    private async buildResponsesInput(prompt: PromptInput): Promise<string | any[]> {
+        if (typeof prompt === "string") {
+            return prompt;
+        }
+
+        const input: any[] = [];
+        for (const message of toChatMessages(prompt)) {
+            if (message.role === "tool") {
+                input.push({
+                    type: "function_call_output",
+                    call_id: message.toolCallId,
+                    output: contentToText(message.content),
+                });
+                continue;
+            }
+            if (message.content.length > 0 || !message.toolCalls?.length) {
+                input.push({
+                    role: message.role,
+                    content: await this.toResponsesContent(message.content),
+                });
+            }
+            for (const call of message.toolCalls ?? []) {
+                input.push({
+                    type: "function_call",
+                    call_id: call.id,
+                    name: call.name,
+                    arguments: JSON.stringify(call.arguments),
+                });
+            }
+        }
+        return input;
+    }
+
+    private toChatToolChoice(choice: ToolChoice): any {
+        return typeof choice === "string"
+            ? choice
+            : { type: "function", function: { name: choice.name } };
+    }
+
+    private toResponsesToolChoice(choice: ToolChoice): any {
+        return typeof choice === "string"
+            ? choice
+            : { type: "function", name: choice.name };
+    }
+
+    /**
+     * Map a chat completions finish_reason to a normalized stop reason
+     */
+    private toStopReason(finishReason?: string | null): string | undefined {
+        switch (finishReason) {
+            case "stop":
+                return "end_turn";
+            case "length":
+                return "max_tokens";
+            case "tool_calls":
+            case "function_call":
+                return "tool_use";
+            case "content_filter":
+                return "content_filter";
+            default:
+                return finishReason ?? undefined;
+        }
+    }
+
+    /**
+     * Hook for adjusting chat completions request parameters before they are sent.
+     * Subclasses targeting OpenAI-compatible servers use this to drop parameters
+     * the server does not support.
+     */
+    protected prepareChatCompletionParams(params: any, config: OpenAIConfig): any {
+        return params;
+    }
+
     private shouldUseResponsesAPI(model: string): boolean {
         // Use responses API for GPT-5 and newer models
         // Note: We'll try responses API first and fall back if needed
@@ -272,6 +573,10 @@ export class OpenAIProvider implements ILLMProvider {
         return responsesModels.some((m) => model.toLowerCase().includes(m));
     }
 
+    supportsResponseFormat(): boolean {
+        return true;
+    }
+
     supportsBatch(): boolean {
         return true;
     }
@@ -319,14 +624,14 @@ export class OpenAIProvider implements ILLMProvider {
         const file = await this.client.files.create({
             file: await toFile(Buffer.from(jsonlContent), "batch_input.jsonl"),
             purpose: "batch" as any,
-        });
+        }, sdkRetryOptions(config));
 
         // Create batch
         const batch = await this.client.batches.create({
             input_file_id: file.id,
             endpoint: endpoint as any,
             completion_window: "24h",
-        });
+        }, sdkRetryOptions(config));
 
         return {
             batchId: batch.id,
@@ -341,7 +646,7 @@ export class OpenAIProvider implements ILLMProvider {
         metadata: BatchMetadata,
         config: LLMConfig
     ): Promise<ProviderBatchResponse> {
-        const batch = await this.client.batches.retrieve(metadata.batchId);
+        const batch = await this.client.batches.retrieve(metadata.batchId, sdkRetryOptions(config));
 
         const status = batch.status as BatchStatus;
 
@@ -360,7 +665,10 @@ export class OpenAIProvider implements ILLMProvider {
 
         // Download and parse output file
         if (batch.output_file_id) {
-            const fileResponse = await this.client.files.content(batch.output_file_id);
+            const fileResponse = await this.client.files.content(
+                batch.output_file_id,
+                sdkRetryOptions(config)
+            );
             const fileContents = await fileResponse.text();
             const outputLines = fileContents.split("\n").filter((line) => line.trim());
 
@@ -393,7 +701,11 @@ export class OpenAIProvider implements ILLMProvider {
 
                     itemResult.status = "success";
                     itemResult.content = content;
-                    itemResult.tokenUsage = { inputTokens, outputTokens };
+                    itemResult.tokenUsage = {
+                        inputTokens,
+                        outputTokens,
+                        ...usageDetails(body.usage, body.output),
+                    };
                 } else if (entry.error) {
                     itemResult.error = entry.error.message || "Request failed";
                 } else {
@@ -406,7 +718,10 @@ export class OpenAIProvider implements ILLMProvider {
 
         // Download and parse error file
         if (batch.error_file_id) {
-            const errorResponse = await this.client.files.content(batch.error_file_id);
+            const errorResponse = await this.client.files.content(
+                batch.error_file_id,
+                sdkRetryOptions(config)
+            );
             const errorContents = await errorResponse.text();
             const errorLines = errorContents.split("\n").filter((line) => line.trim());
 
@@ -427,3 +742,81 @@ export class OpenAIProvider implements ILLMProvider {
         return { status, results, requestCounts };
     }
 }
+
+/**
+ * Usage beyond input and output tokens, from chat completions or responses
+ * API usage:
+ * - Cached prompt tokens. OpenAI caches long prompt prefixes automatically
+ *   and counts them in the input tokens as well.
+ * - Reasoning tokens, which are counted in the output tokens as well
+ * - Web searches, one per web_search_call item in a responses API output
+ */
+function usageDetails(
+    usage: any,
+    output?: any[]
+): Pick<TokenUsage, "cacheReadTokens" | "thinkingTokens" | "searchCount"> {
+    const cached =
+        usage?.prompt_tokens_details?.cached_tokens ?? usage?.input_tokens_details?.cached_tokens;
+    const reasoning =
+        usage?.completion_tokens_details?.reasoning_tokens ??
+        usage?.output_tokens_details?.reasoning_tokens;
+    const searches = (output ?? []).filter((item) => item.type === "web_search_call").length;
+    return {
+        ...(cached && { cacheReadTokens: cached }),
+        ...(reasoning && { thinkingTokens: reasoning }),
+        ...(searches > 0 && { searchCount: searches }),
+    };
+}
+
+/**
+ * Parse tool call arguments sent as a JSON string. Malformed JSON is kept
+ * under `_raw` so the tool loop can report it back to the model.
+ */
+function parseToolArguments(args: string | undefined): Record<string, any> {
+    if (!args) {
+        return {};
+    }
+    try {
+        return JSON.parse(args);
+    } catch {
+        return { _raw: args };
+    }
+}
+
+/**
+ * Collect URL citations from the responses API output, with spans into
+ * output_text, and the pages consulted by web search calls
+ */
+function extractResponsesCitations(output: any[]): { citations: Citation[]; sources: WebSource[] } {
+    const citations: Citation[] = [];
+    const sources: WebSource[] = [];
+    // output_text joins the output_text parts of all messages
+    let offset = 0;
+
+    for (const item of output) {
+        if (item.type === "message") {
+            for (const part of item.content ?? []) {
+                if (part.type !== "output_text") continue;
+                for (const annotation of part.annotations ?? []) {
+                    if (annotation.type === "url_citation") {
+                        citations.push({
+                            url: annotation.url,
+                            ...(annotation.title && { title: annotation.title }),
+                            startIndex: offset + annotation.start_index,
+                            endIndex: offset + annotation.end_index,
+                        });
+                    }
+                }
+                offset += part.text.length;
+            }
+        } else if (item.type === "web_search_call") {
+            for (const source of item.action?.sources ?? []) {
+                if (source.url) {
+                    sources.push({ url: source.url });
+                }
+            }
+        }
+    }
+
+    return { citations, sources };
+}
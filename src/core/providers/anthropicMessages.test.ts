@@ -0,0 +1,311 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+    applyPromptCaching,
+    extractCitations,
+    extractThinkingBlocks,
+    StreamedCitations,
+    StreamedThinking,
+    toAnthropicMessages,
+    toTokenUsage,
+} from "./anthropicMessages";
+import { MockProvider } from "./MockProvider";
+import { ChatMessage, ThinkingBlock } from "../types";
+import { defineTool } from "../tools";
+import { imageFromBase64, imageFromUrl, pdfFromUrl, textPart } from "../content";
+import { TextNode } from "../../nodes/TextNode";
+import { z } from "zod";
+
+const thinkingBlocks: ThinkingBlock[] = [
+    { type: "thinking", thinking: "I should check the weather.", signature: "sig-1" },
+    { type: "redacted_thinking", data: "opaque" },
+];
+
+describe("toAnthropicMessages", () => {
+    it("sends an assistant turn's thinking blocks back before its tool calls", async () => {
+        const messages: ChatMessage[] = [
+            { role: "user", content: "Weather in Paris?" },
+            {
+                role: "assistant",
+                content: "",
+                toolCalls: [{ id: "call_0", name: "weather", arguments: { city: "Paris" } }],
+                thinkingBlocks,
+            },
+            { role: "tool", content: "sunny", toolCallId: "call_0", name: "weather" },
+        ];
+
+        const result = await toAnthropicMessages(messages);
+
+        expect(result[1].content).toEqual([
+            ...thinkingBlocks,
+            { type: "tool_use", id: "call_0", name: "weather", input: { city: "Paris" } },
+        ]);
+        expect(result[2]).toEqual({
+            role: "user",
+            content: [{ type: "tool_result", tool_use_id: "call_0", content: "sunny" }],
+        });
+    });
+
+    it("maps text, image and document parts to content blocks", async () => {
+        const messages: ChatMessage[] = [
+            {
+                role: "user",
+                content: [
+                    textPart("Compare these.", { cachePoint: true }),
+                    imageFromBase64("iVBORw0KGgo=", "image/png"),
+                    pdfFromUrl("https://example.com/report.pdf", "report.pdf"),
+                ],
+            },
+        ];
+
+        const [message] = await toAnthropicMessages(messages);
+
+        expect(message.content).toEqual([
+            { type: "text", text: "Compare these.", cache_control: { type: "ephemeral" } },
+            {
+                type: "image",
+                source: { type: "base64", media_type: "image/png", data: "iVBORw0KGgo=" },
+            },
+            {
+                type: "document",
+                source: { type: "url", url: "https://example.com/report.pdf" },
+                title: "report.pdf",
+            },
+        ]);
+    });
+
+    it("downloads URLs when URL sources are not allowed", async () => {
+        const originalFetch = global.fetch;
+        global.fetch = async () =>
+            new Response(Buffer.from("GIF89a"), { headers: { "content-type": "image/gif" } });
+        try {
+            const [message] = await toAnthropicMessages(
+                [{ role: "user", content: [imageFromUrl("https://example.com/a.gif")] }],
+                false
+            );
+
+            expect(message.content[0].source).toEqual({
+                type: "base64",
+                media_type: "image/gif",
+                data: Buffer.from("GIF89a").toString("base64"),
+            });
+        } finally {
+            global.fetch = originalFetch;
+        }
+    });
+});
+
+describe("extractThinkingBlocks", () => {
+    it("keeps thinking and redacted thinking with their signatures", () => {
+        const content = [
+            { type: "thinking", thinking: "I should check the weather.", signature: "sig-1" },
+            { type: "redacted_thinking", data: "opaque" },
+            { type: "tool_use", id: "call_0", name: "weather", input: {} },
+        ];
+
+        expect(extractThinkingBlocks(content)).toEqual(thinkingBlocks);
+    });
+});
+
+describe("StreamedThinking", () => {
+    it("rebuilds thinking blocks and their signatures from deltas", () => {
+        const streamed = new StreamedThinking();
+        const events = [
+            { type: "content_block_start", index: 0, content_block: { type: "thinking", thinking: "", signature: "" } },
+            { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "I should " } },
+            { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "check the weather." } },
+            { type: "content_block_delta", index: 0, delta: { type: "signature_delta", signature: "sig-1" } },
+            { type: "content_block_start", index: 1, content_block: { type: "redacted_thinking", data: "opaque" } },
+            { type: "content_block_start", index: 2, content_block: { type: "text", text: "" } },
+        ];
+        events.forEach((event) => streamed.add(event));
+
+        expect(streamed.thinkingBlocks()).toEqual(thinkingBlocks);
+    });
+});
+
+describe("extractCitations", () => {
+    it("spans each citation over its text block and lists searched and fetched pages", () => {
+        const content = [
+            {
+                type: "web_search_tool_result",
+                content: [
+                    { type: "web_search_result", url: "https://a.example", title: "A", page_age: "2 days" },
+                    { type: "web_search_result", url: "https://b.example" },
+                ],
+            },
+            { type: "text", text: "Intro. " },
+            {
+                type: "text",
+                text: "Tides follow the moon.",
+                citations: [
+                    {
+                        type: "web_search_result_location",
+                        url: "https://a.example",
+                        title: "A",
+                        cited_text: "The moon drives tides.",
+                    },
+                ],
+            },
+            {
+                type: "web_fetch_tool_result",
+                content: { type: "web_fetch_result", url: "https://c.example", content: { title: "C" } },
+            },
+            {
+                type: "text",
+                text: " See the report.",
+                citations: [{ type: "page_location", document_index: 0, document_title: "Report" }],
+            },
+        ];
+
+        expect(extractCitations(content)).toEqual({
+            citations: [
+                {
+                    url: "https://a.example",
+                    title: "A",
+                    citedText: "The moon drives tides.",
+                    startIndex: 7,
+                    endIndex: 29,
+                },
+                { title: "Report", documentIndex: 0, startIndex: 29, endIndex: 45 },
+            ],
+            sources: [
+                { url: "https://a.example", title: "A", pageAge: "2 days" },
+                { url: "https://b.example" },
+                { url: "https://c.example", title: "C" },
+            ],
+        });
+    });
+});
+
+describe("StreamedCitations", () => {
+    it("rebuilds citations from citation deltas once their block ends", () => {
+        const streamed = new StreamedCitations();
+        let text = "";
+        const events: [any, string][] = [
+            [{ type: "content_block_start", index: 0, content_block: { type: "text", text: "" } }, ""],
+            [{ type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Intro. " } }, "Intro. "],
+            [{ type: "content_block_stop", index: 0 }, ""],
+            [
+                {
+                    type: "content_block_start",
+                    index: 1,
+                    content_block: {
+                        type: "web_search_tool_result",
+                        content: [{ type: "web_search_result", url: "https://a.example", title: "A" }],
+                    },
+                },
+                "",
+            ],
+            [{ type: "content_block_start", index: 2, content_block: { type: "text", text: "" } }, ""],
+            [
+                {
+                    type: "content_block_delta",
+                    index: 2,
+                    delta: { type: "citations_delta", citation: { url: "https://a.example", cited_text: "Moon." } },
+                },
+                "",
+            ],
+            [{ type: "content_block_delta", index: 2, delta: { type: "text_delta", text: "Tides." } }, "Tides."],
+            [{ type: "content_block_stop", index: 2 }, ""],
+        ];
+        for (const [event, delta] of events) {
+            streamed.add(event, text.length);
+            text += delta;
+        }
+
+        expect(streamed.citations()).toEqual([
+            { url: "https://a.example", citedText: "Moon.", startIndex: 7, endIndex: 13 },
+        ]);
+        expect(streamed.sources()).toEqual([{ url: "https://a.example", title: "A" }]);
+    });
+});
+
+describe("applyPromptCaching", () => {
+    const messages = () => [
+        {
+            role: "user",
+            content: [{ type: "text", text: "Long preamble", cache_control: { type: "ephemeral" } }],
+        },
+        { role: "assistant", content: "Noted." },
+        { role: "user", content: "Question?" },
+    ];
+
+    it("caches the system prompt when enabled", () => {
+        expect(applyPromptCaching("Be terse.", [], true)).toEqual({
+            system: [{ type: "text", text: "Be terse.", cache_control: { type: "ephemeral" } }],
+            messages: [],
+        });
+    });
+
+    it("leaves the system prompt as text when caching is off", () => {
+        expect(applyPromptCaching("Be terse.", [], undefined)).toEqual({
+            system: "Be terse.",
+            messages: [],
+        });
+    });
+
+    it("caches the conversation and applies the ttl to every cache point", () => {
+        const { system, messages: cached } = applyPromptCaching("Be terse.", messages(), {
+            systemPrompt: false,
+            messages: true,
+            ttl: "1h",
+        });
+
+        const control = { type: "ephemeral", ttl: "1h" };
+        expect(system).toBe("Be terse.");
+        expect(cached[0].content[0].cache_control).toEqual(control);
+        expect(cached[1].content).toBe("Noted.");
+        expect(cached[2].content).toEqual([{ type: "text", text: "Question?", cache_control: control }]);
+    });
+});
+
+describe("toTokenUsage", () => {
+    it("counts cache reads and writes as input tokens and reports them separately", () => {
+        expect(
+            toTokenUsage({
+                input_tokens: 10,
+                output_tokens: 5,
+                cache_read_input_tokens: 200,
+                cache_creation_input_tokens: 50,
+            })
+        ).toEqual({ inputTokens: 260, outputTokens: 5, cacheReadTokens: 200, cacheWriteTokens: 50 });
+    });
+
+    it("reports web search and fetch counts from server_tool_use", () => {
+        expect(
+            toTokenUsage({
+                input_tokens: 10,
+                output_tokens: 5,
+                server_tool_use: { web_search_requests: 2, web_fetch_requests: 1 },
+            })
+        ).toEqual({ inputTokens: 10, outputTokens: 5, searchCount: 2, fetchCount: 1 });
+    });
+});
+
+describe("tool calling with thinking", () => {
+    it("keeps the thinking blocks of a tool-calling turn for the follow-up call", async () => {
+        const provider = new MockProvider({
+            responses: [
+                { thinkingBlocks, toolCalls: [{ name: "weather", arguments: { city: "Paris" } }] },
+                "Bring sunglasses.",
+            ],
+        });
+        const node = new TextNode<{}>({
+            promptTemplate: "Weather in Paris?",
+            llmConfig: { provider: "mock", model: "mock-model" },
+            tools: [
+                defineTool({
+                    name: "weather",
+                    description: "Current weather for a city",
+                    inputSchema: z.object({ city: z.string() }),
+                    handler: async () => "sunny",
+                }),
+            ],
+            provider,
+        });
+
+        await node.execute({});
+
+        expect(provider.getCalls()[1].messages[1].thinkingBlocks).toEqual(thinkingBlocks);
+    });
+});
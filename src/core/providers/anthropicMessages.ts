@@ -0,0 +1,455 @@
+import {
+    ChatMessage,
+    Citation,
+    ContentPart,
+    WebSource,
+    MessageContent,
+    PromptCachingConfig,
+    ResponseFormat,
+    ThinkingBlock,
+    TokenUsage,
+    ToolCall,
+    ToolChoice,
+    ToolSpec,
+} from "../types";
+import { contentToText, loadMedia } from "../content";
+
+/**
+ * Helpers shared by the Anthropic and Bedrock providers, which both speak the
+ * Anthropic Messages API.
+ */
+
+/**
+ * Convert user/assistant/tool messages to Anthropic message params.
+ * Assistant tool calls become tool_use blocks, preceded by the turn's thinking
+ * blocks, which Anthropic requires back when thinking is enabled. Consecutive
+ * tool results are grouped into a single user message of tool_result blocks.
+ *
+ * @param messages The messages to convert
+ * @param allowUrls Send image/document URLs as URL sources instead of downloading them
+ */
+export async function toAnthropicMessages(
+    messages: ChatMessage[],
+    allowUrls: boolean = true
+): Promise<any[]> {
+    const result: any[] = [];
+
+    for (const message of messages) {
+        if (message.role === "tool") {
+            const block = {
+                type: "tool_result",
+                tool_use_id: message.toolCallId,
+                content: contentToText(message.content),
+            };
+            const previous = result[result.length - 1];
+            if (previous?.role === "user" && Array.isArray(previous.content)
+                && previous.content.every((b: any) => b.type === "tool_result")) {
+                previous.content.push(block);
+            } else {
+                result.push({ role: "user", content: [block] });
+            }
+        } else if (message.toolCalls?.length) {
+            result.push({
+                role: "assistant",
+                content: [
+                    ...(message.thinkingBlocks ?? []),
+                    ...(message.content.length > 0
+                        ? [{ type: "text", text: contentToText(message.content) }]
+                        : []),
+                    ...message.toolCalls.map((call) => ({
+                        type: "tool_use",
+                        id: call.id,
+                        name: call.name,
+                        input: call.arguments,
+                    })),
+                ],
+            });
+        } else {
+            result.push({
+                role: message.role as "user" | "assistant",
+                content: await toAnthropicContent(message.content, allowUrls),
+            });
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Convert message content to Anthropic content: text stays a string, parts
+ * become text / image / document blocks
+ */
+async function toAnthropicContent(content: MessageContent, allowUrls: boolean): Promise<any> {
+    if (typeof content === "string") {
+        return content;
+    }
+    return Promise.all(
+        content.map(async (part) => {
+            if (part.type === "text") {
+                return { type: "text", text: part.text, ...cacheControl(part) };
+            }
+
+            let source: any;
+            if (part.url && allowUrls) {
+                source = { type: "url", url: part.url };
+            } else {
+                const { data, mediaType } = await loadMedia(part);
+                source = { type: "base64", media_type: mediaType, data };
+            }
+
+            return part.type === "image"
+                ? { type: "image", source, ...cacheControl(part) }
+                : {
+                      type: "document",
+                      source,
+                      ...(part.filename && { title: part.filename }),
+                      ...cacheControl(part),
+                  };
+        })
+    );
+}
+
+/**
+ * cache_control for a part marked as a cache point
+ */
+function cacheControl(part: ContentPart): { cache_control?: any } {
+    return part.cachePoint ? { cache_control: { type: "ephemeral" } } : {};
+}
+
+/**
+ * Apply prompt caching settings to a request: cache the system prompt and,
+ * optionally, the conversation up to the latest message. Cache points marked
+ * on content parts are already in the messages and always apply.
+ *
+ * @returns The system prompt (as blocks when cached) and the messages
+ */
+export function applyPromptCaching(
+    system: string | undefined,
+    messages: any[],
+    caching: boolean | PromptCachingConfig | undefined
+): { system?: any; messages: any[] } {
+    const settings: PromptCachingConfig = caching === true ? {} : caching || { systemPrompt: false };
+    const control = { type: "ephemeral", ...(settings.ttl && { ttl: settings.ttl }) };
+
+    if (settings.ttl) {
+        for (const message of messages) {
+            for (const block of Array.isArray(message.content) ? message.content : []) {
+                if (block.cache_control) {
+                    block.cache_control = control;
+                }
+            }
+        }
+    }
+
+    if (settings.messages && messages.length > 0) {
+        const last = messages[messages.length - 1];
+        if (typeof last.content === "string") {
+            last.content = [{ type: "text", text: last.content, cache_control: control }];
+        } else if (last.content.length > 0) {
+            last.content[last.content.length - 1].cache_control = control;
+        }
+    }
+
+    if (system && (settings.systemPrompt ?? true)) {
+        return { system: [{ type: "text", text: system, cache_control: control }], messages };
+    }
+    return { ...(system && { system }), messages };
+}
+
+/**
+ * Convert Anthropic usage to token counts. Anthropic reports cache reads and
+ * writes separately from input_tokens; they are included in inputTokens.
+ * Web searches and fetches come from server_tool_use. Thinking is billed as
+ * output and not counted separately, so thinkingTokens is left unset.
+ */
+export function toTokenUsage(usage: any): TokenUsage {
+    const cacheReadTokens = usage?.cache_read_input_tokens || 0;
+    const cacheWriteTokens = usage?.cache_creation_input_tokens || 0;
+    const searchCount = usage?.server_tool_use?.web_search_requests || 0;
+    const fetchCount = usage?.server_tool_use?.web_fetch_requests || 0;
+    return {
+        inputTokens: (usage?.input_tokens || 0) + cacheReadTokens + cacheWriteTokens,
+        outputTokens: usage?.output_tokens || 0,
+        ...(cacheReadTokens > 0 && { cacheReadTokens }),
+        ...(cacheWriteTokens > 0 && { cacheWriteTokens }),
+        ...(searchCount > 0 && { searchCount }),
+        ...(fetchCount > 0 && { fetchCount }),
+    };
+}
+
+/**
+ * Merge a message_delta usage into the usage from message_start; fields the
+ * delta leaves null keep their earlier values
+ */
+export function mergeStreamUsage(usage: any, delta: any): any {
+    const merged = { ...usage };
+    for (const [key, value] of Object.entries(delta ?? {})) {
+        if (value !== null && value !== undefined) {
+            merged[key] = value;
+        }
+    }
+    return merged;
+}
+
+/**
+ * Convert tool specs to Anthropic tool definitions
+ */
+export function toAnthropicTools(tools?: ToolSpec[]): any[] {
+    return (tools ?? []).map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters,
+    }));
+}
+
+/**
+ * Convert a tool choice to Anthropic's tool_choice parameter
+ */
+export function toAnthropicToolChoice(choice: ToolChoice): any {
+    if (typeof choice === "object") {
+        return { type: "tool", name: choice.name };
+    }
+    switch (choice) {
+        case "required":
+            return { type: "any" };
+        case "none":
+            return { type: "none" };
+        default:
+            return { type: "auto" };
+    }
+}
+
+/**
+ * Structured output is requested by forcing a call to a tool whose input
+ * schema is the output schema; the tool input is the structured response
+ */
+export function toStructuredOutputTool(format: ResponseFormat): any {
+    return {
+        name: format.name,
+        description: format.description ?? "Respond with the final output in this format.",
+        input_schema: format.schema,
+    };
+}
+
+/**
+ * Take the structured output tool call out of a response, returning its
+ * input as JSON text and the remaining tool calls
+ */
+export function takeStructuredOutput(
+    toolCalls: ToolCall[],
+    format: ResponseFormat
+): { content?: string; toolCalls: ToolCall[] } {
+    const outputCall = toolCalls.find((call) => call.name === format.name);
+    if (!outputCall) {
+        return { toolCalls };
+    }
+    return {
+        content: JSON.stringify(outputCall.arguments),
+        toolCalls: toolCalls.filter((call) => call !== outputCall),
+    };
+}
+
+/**
+ * Collect tool_use blocks from a message's content
+ */
+export function extractToolCalls(content: any[]): ToolCall[] {
+    return content
+        .filter((block) => block.type === "tool_use")
+        .map((block) => ({
+            id: block.id,
+            name: block.name,
+            arguments: block.input ?? {},
+        }));
+}
+
+/**
+ * Collect thinking and redacted_thinking blocks from a message's content
+ */
+export function extractThinkingBlocks(content: any[]): ThinkingBlock[] {
+    return content.flatMap((block): ThinkingBlock[] => {
+        if (block.type === "thinking") {
+            return [{ type: "thinking", thinking: block.thinking, signature: block.signature }];
+        }
+        if (block.type === "redacted_thinking") {
+            return [{ type: "redacted_thinking", data: block.data }];
+        }
+        return [];
+    });
+}
+
+/**
+ * Collect citations from text blocks, with spans into the concatenated text,
+ * and the pages returned by web search and web fetch
+ */
+export function extractCitations(content: any[]): { citations: Citation[]; sources: WebSource[] } {
+    const citations: Citation[] = [];
+    const sources: WebSource[] = [];
+    let offset = 0;
+
+    for (const block of content) {
+        if (block.type === "text") {
+            const start = offset;
+            offset += block.text.length;
+            for (const citation of block.citations ?? []) {
+                citations.push(toCitation(citation, start, offset));
+            }
+        } else {
+            sources.push(...toWebSources(block));
+        }
+    }
+
+    return { citations, sources };
+}
+
+/**
+ * Normalize an Anthropic citation; the span is the text block it is attached to
+ */
+function toCitation(citation: any, startIndex: number, endIndex: number): Citation {
+    return {
+        ...(citation.url && { url: citation.url }),
+        ...((citation.title ?? citation.document_title) && {
+            title: citation.title ?? citation.document_title,
+        }),
+        ...(citation.cited_text && { citedText: citation.cited_text }),
+        ...(citation.document_index !== undefined && { documentIndex: citation.document_index }),
+        startIndex,
+        endIndex,
+    };
+}
+
+/**
+ * Pages listed in a web_search_tool_result or web_fetch_tool_result block
+ */
+function toWebSources(block: any): WebSource[] {
+    if (block.type === "web_search_tool_result" && Array.isArray(block.content)) {
+        return block.content
+            .filter((result: any) => result.type === "web_search_result")
+            .map((result: any) => ({
+                url: result.url,
+                ...(result.title && { title: result.title }),
+                ...(result.page_age && { pageAge: result.page_age }),
+            }));
+    }
+    if (block.type === "web_fetch_tool_result" && block.content?.type === "web_fetch_result") {
+        const title = block.content.content?.title;
+        return [{ url: block.content.url, ...(title && { title }) }];
+    }
+    return [];
+}
+
+/**
+ * Rebuilds citations and web sources from stream events. Citations arrive as
+ * citations_delta events on the text block they support.
+ */
+export class StreamedCitations {
+    private blockStarts = new Map<number, number>();
+    private pending: { index: number; citation: any }[] = [];
+    private collected: Citation[] = [];
+    private webSources: WebSource[] = [];
+
+    /**
+     * Feed a stream event before its text is added to the content
+     *
+     * @param event The stream event
+     * @param contentLength Length of the text received so far
+     */
+    add(event: any, contentLength: number): void {
+        if (event.type === "content_block_start") {
+            if (event.content_block.type === "text") {
+                this.blockStarts.set(event.index, contentLength);
+            } else {
+                this.webSources.push(...toWebSources(event.content_block));
+            }
+        } else if (event.type === "content_block_delta" && event.delta.type === "citations_delta") {
+            this.pending.push({ index: event.index, citation: event.delta.citation });
+        } else if (event.type === "content_block_stop") {
+            const start = this.blockStarts.get(event.index) ?? contentLength;
+            for (const { citation } of this.pending.filter((p) => p.index === event.index)) {
+                this.collected.push(toCitation(citation, start, contentLength));
+            }
+            this.pending = this.pending.filter((p) => p.index !== event.index);
+        }
+    }
+
+    citations(): Citation[] {
+        return this.collected;
+    }
+
+    sources(): WebSource[] {
+        return this.webSources;
+    }
+}
+
+/**
+ * Rebuilds tool_use blocks from stream events, where the input arrives as
+ * partial JSON deltas
+ */
+export class StreamedToolCalls {
+    private pending = new Map<number, { id: string; name: string; json: string }>();
+
+    /**
+     * Feed a stream event; events other than tool_use blocks are ignored
+     */
+    add(event: any): void {
+        if (event.type === "content_block_start" && event.content_block.type === "tool_use") {
+            this.pending.set(event.index, {
+                id: event.content_block.id,
+                name: event.content_block.name,
+                json: "",
+            });
+        } else if (event.type === "content_block_delta" && event.delta.type === "input_json_delta") {
+            const call = this.pending.get(event.index);
+            if (call) {
+                call.json += event.delta.partial_json;
+            }
+        }
+    }
+
+    toolCalls(): ToolCall[] {
+        return [...this.pending.values()].map((call) => ({
+            id: call.id,
+            name: call.name,
+            arguments: call.json ? JSON.parse(call.json) : {},
+        }));
+    }
+}
+
+/**
+ * Rebuilds thinking blocks from stream events, where the thinking and its
+ * signature arrive as deltas
+ */
+export class StreamedThinking {
+    private blocks = new Map<number, ThinkingBlock>();
+
+    /**
+     * Feed a stream event; events other than thinking blocks are ignored
+     */
+    add(event: any): void {
+        if (event.type === "content_block_start") {
+            const block = event.content_block;
+            if (block.type === "thinking") {
+                this.blocks.set(event.index, {
+                    type: "thinking",
+                    thinking: block.thinking ?? "",
+                    signature: block.signature ?? "",
+                });
+            } else if (block.type === "redacted_thinking") {
+                this.blocks.set(event.index, { type: "redacted_thinking", data: block.data });
+            }
+        } else if (event.type === "content_block_delta") {
+            const block = this.blocks.get(event.index);
+            if (block?.type !== "thinking") {
+                return;
+            }
+            if (event.delta.type === "thinking_delta") {
+                block.thinking += event.delta.thinking;
+            } else if (event.delta.type === "signature_delta") {
+                block.signature += event.delta.signature;
+            }
+        }
+    }
+
+    thinkingBlocks(): ThinkingBlock[] {
+        return [...this.blocks.values()];
+    }
+}
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { RateLimiter, mapWithConcurrency } from "./rateLimiter";
+
+describe("RateLimiter", () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it("caps requests in flight at maxConcurrent", async () => {
+        const limiter = new RateLimiter({ maxConcurrent: 2 });
+        let inFlight = 0;
+        let peak = 0;
+        const request = async () => {
+            peak = Math.max(peak, ++inFlight);
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            inFlight--;
+        };
+
+        await Promise.all(Array.from({ length: 5 }, () => limiter.run(request)));
+
+        expect(peak).toBe(2);
+    });
+
+    it("holds requests over requestsPerMinute until the window moves on", async () => {
+        jest.useFakeTimers();
+        const limiter = new RateLimiter({ requestsPerMinute: 2 });
+        const started: number[] = [];
+
+        const runs = [1, 2, 3].map((id) => limiter.run(async () => started.push(id)));
+        await jest.advanceTimersByTimeAsync(0);
+        expect(started).toEqual([1, 2]);
+
+        await jest.advanceTimersByTimeAsync(60000);
+        await Promise.all(runs);
+        expect(started).toEqual([1, 2, 3]);
+    });
+
+    it("replaces a token estimate with the tokens actually used", async () => {
+        jest.useFakeTimers();
+        const limiter = new RateLimiter({ tokensPerMinute: 100 });
+        const started: string[] = [];
+
+        // Estimated at 90 tokens but used 10, leaving room for the next request
+        const first = await limiter.acquire(90);
+        first.release(10);
+        await limiter.run(async () => started.push("second"), 80);
+
+        expect(started).toEqual(["second"]);
+    });
+
+    it("does not keep the process alive while waiting for the window", async () => {
+        const setTimeoutSpy = jest.spyOn(global, "setTimeout");
+        const limiter = new RateLimiter({ requestsPerMinute: 1 });
+
+        await limiter.run(async () => undefined);
+        void limiter.run(async () => undefined);
+
+        const timer = setTimeoutSpy.mock.results[0].value as NodeJS.Timeout;
+        setTimeoutSpy.mockRestore();
+        expect(timer.hasRef()).toBe(false);
+        clearTimeout(timer);
+    });
+});
+
+describe("mapWithConcurrency", () => {
+    it("returns results in input order", async () => {
+        const results = await mapWithConcurrency([30, 10, 20], 2, async (ms, index) => {
+            await new Promise((resolve) => setTimeout(resolve, ms));
+            return index;
+        });
+
+        expect(results).toEqual([0, 1, 2]);
+    });
+});
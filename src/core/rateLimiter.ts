@@ -0,0 +1,260 @@
+import { LLMConfig, RateLimits } from "./types";
+
+/**
+ * A slot granted by a RateLimiter. Release it when the request finishes so
+ * the next one can start.
+ */
+export interface RateLimitLease {
+    /**
+     * Release the slot
+     *
+     * @param actualTokens Tokens the request actually used, replacing the
+     *   estimate it was admitted with
+     */
+    release(actualTokens?: number): void;
+}
+
+/**
+ * Client-side limiter for requests per minute, tokens per minute and
+ * requests in flight. Requests wait in arrival order until all limits allow
+ * them to start.
+ *
+ * Key features:
+ * - Sliding one-minute window for request and token limits
+ * - Token estimates are replaced by actual usage once a request finishes
+ * - Concurrency pool that caps requests in flight
+ *
+ * Implementation notes:
+ * - A request estimated above the token limit on its own is admitted once
+ *   the window is empty, so it can never wait forever
+ * - Limits can be changed at any time; waiting requests see the new limits
+ */
+export class RateLimiter {
+    /**
+     * Current limits
+     * @private
+     */
+    private limits: RateLimits;
+
+    /**
+     * Requests started within the last minute, oldest first
+     * @private
+     */
+    private window: { time: number; tokens: number }[] = [];
+
+    /**
+     * Number of requests started and not yet released
+     * @private
+     */
+    private inFlight = 0;
+
+    /**
+     * Requests waiting to start, in arrival order
+     * @private
+     */
+    private queue: { tokens: number; resolve: (lease: RateLimitLease) => void }[] = [];
+
+    /**
+     * Timer that wakes the queue when the oldest window entry expires
+     * @private
+     */
+    private timer?: ReturnType<typeof setTimeout>;
+
+    /**
+     * Creates a new RateLimiter
+     *
+     * @param limits Limits to enforce; omitted limits are not enforced
+     */
+    constructor(limits: RateLimits = {}) {
+        this.limits = { ...limits };
+    }
+
+    /**
+     * Replace the limits, e.g. after an account's quota changed
+     */
+    setLimits(limits: RateLimits): void {
+        this.limits = { ...limits };
+        this.drain();
+    }
+
+    /**
+     * Get the current limits
+     */
+    getLimits(): RateLimits {
+        return { ...this.limits };
+    }
+
+    /**
+     * Wait until a request may start and take a slot for it
+     *
+     * @param estimatedTokens Tokens the request is expected to use
+     */
+    acquire(estimatedTokens: number = 0): Promise<RateLimitLease> {
+        return new Promise((resolve) => {
+            this.queue.push({ tokens: estimatedTokens, resolve });
+            this.drain();
+        });
+    }
+
+    /**
+     * Run a request once the limits allow it
+     *
+     * @param fn The request
+     * @param estimatedTokens Tokens the request is expected to use
+     * @param actualTokens Reads the tokens actually used from the result
+     */
+    async run<T>(
+        fn: () => Promise<T>,
+        estimatedTokens: number = 0,
+        actualTokens?: (result: T) => number | undefined
+    ): Promise<T> {
+        const lease = await this.acquire(estimatedTokens);
+        let result: T;
+        try {
+            result = await fn();
+        } catch (error) {
+            lease.release();
+            throw error;
+        }
+        lease.release(actualTokens?.(result));
+        return result;
+    }
+
+    /**
+     * Start waiting requests in order for as long as the limits allow
+     * @private
+     */
+    private drain(): void {
+        const now = Date.now();
+        while (this.window.length > 0 && this.window[0].time <= now - 60000) {
+            this.window.shift();
+        }
+
+        while (this.queue.length > 0 && this.canStart(this.queue[0].tokens)) {
+            const { tokens, resolve } = this.queue.shift()!;
+            const entry = { time: now, tokens };
+            this.window.push(entry);
+            this.inFlight++;
+
+            let released = false;
+            resolve({
+                release: (actualTokens?: number) => {
+                    if (released) {
+                        return;
+                    }
+                    released = true;
+                    if (actualTokens !== undefined) {
+                        entry.tokens = actualTokens;
+                    }
+                    this.inFlight--;
+                    this.drain();
+                },
+            });
+        }
+
+        if (this.queue.length === 0 && this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+
+        // Requests blocked by the window can start once its oldest entry
+        // expires; requests blocked by concurrency wait for a release
+        if (this.queue.length > 0 && this.window.length > 0 && !this.timer) {
+            this.timer = setTimeout(() => {
+                this.timer = undefined;
+                this.drain();
+            }, Math.max(0, this.window[0].time + 60000 - now));
+            // Don't keep the process alive just to wait out the window
+            this.timer.unref?.();
+        }
+    }
+
+    /**
+     * Whether a request with the given token estimate may start now
+     * @private
+     */
+    private canStart(tokens: number): boolean {
+        const { requestsPerMinute, tokensPerMinute, maxConcurrent } = this.limits;
+        if (maxConcurrent !== undefined && this.inFlight >= maxConcurrent) {
+            return false;
+        }
+        if (requestsPerMinute !== undefined && this.window.length >= requestsPerMinute) {
+            return false;
+        }
+        if (tokensPerMinute !== undefined && this.window.length > 0) {
+            const used = this.window.reduce((total, entry) => total + entry.tokens, 0);
+            return used + tokens <= tokensPerMinute;
+        }
+        return true;
+    }
+}
+
+/**
+ * Limiters shared by all nodes, keyed by provider and model
+ */
+const sharedLimiters = new Map<string, RateLimiter>();
+
+/**
+ * Get the limiter shared by every node that uses a provider and model,
+ * creating it with the given limits on first use. Later calls return the
+ * same limiter without changing its limits; use setLimits for that.
+ */
+export function getSharedRateLimiter(
+    provider: string,
+    model: string,
+    limits: RateLimits = {}
+): RateLimiter {
+    const key = `${provider}:${model}`;
+    let limiter = sharedLimiters.get(key);
+    if (!limiter) {
+        limiter = new RateLimiter(limits);
+        sharedLimiters.set(key, limiter);
+    }
+    return limiter;
+}
+
+/**
+ * Get the limiter an LLM config opts into, if any: the instance it passes,
+ * or the shared limiter for its provider and model
+ */
+export function resolveRateLimiter(config: LLMConfig): RateLimiter | undefined {
+    if (!config.rateLimit) {
+        return undefined;
+    }
+    if (config.rateLimit instanceof RateLimiter) {
+        return config.rateLimit;
+    }
+    return getSharedRateLimiter(config.provider, config.model, config.rateLimit);
+}
+
+/**
+ * Map over items with at most `concurrency` calls in flight, keeping the
+ * results in input order
+ *
+ * @param items The items to map
+ * @param concurrency Maximum calls in flight (default: all at once)
+ * @param fn The mapping function
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    concurrency: number | undefined,
+    fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    if (concurrency === undefined || concurrency >= items.length) {
+        return Promise.all(items.map(fn));
+    }
+    if (concurrency < 1) {
+        throw new Error("concurrency must be at least 1");
+    }
+
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const worker = async (): Promise<void> => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index], index);
+        }
+    };
+    await Promise.all(Array.from({ length: concurrency }, worker));
+    return results;
+}
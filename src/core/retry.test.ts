@@ -0,0 +1,199 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { getRetryAfterMs, isRetryableError, streamWithRetry, withRetry } from "./retry";
+import { LLMConfig, RetryAttempt, RetryPolicy } from "./types";
+import { ILLMProvider } from "./providers/ILLMProvider";
+import { AnthropicProvider } from "./providers/AnthropicProvider";
+import { OpenAIProvider } from "./providers/OpenAIProvider";
+
+const fastPolicy: RetryPolicy = { maxAttempts: 3, initialDelayMs: 1, jitter: false };
+
+function httpError(status: number, headers?: Record<string, string>) {
+    return Object.assign(new Error(`HTTP ${status}`), { status, headers });
+}
+
+describe("isRetryableError", () => {
+    it("retries rate limits, overloads, server errors and network failures", () => {
+        expect(isRetryableError(httpError(429))).toBe(true);
+        expect(isRetryableError(httpError(529))).toBe(true);
+        expect(isRetryableError(httpError(503))).toBe(true);
+        expect(isRetryableError(Object.assign(new Error("reset"), { code: "ECONNRESET" }))).toBe(true);
+        expect(isRetryableError({ name: "ThrottlingException" })).toBe(true);
+        const fetchError = Object.assign(new TypeError("fetch failed"), {
+            cause: { code: "ECONNREFUSED" },
+        });
+        expect(isRetryableError(fetchError)).toBe(true);
+    });
+
+    it("does not retry errors caused by the request", () => {
+        expect(isRetryableError(httpError(400))).toBe(false);
+        expect(isRetryableError(httpError(401))).toBe(false);
+        expect(isRetryableError(new Error("invalid prompt"))).toBe(false);
+        expect(isRetryableError(undefined)).toBe(false);
+    });
+});
+
+describe("getRetryAfterMs", () => {
+    it("reads retry-after-ms before retry-after", () => {
+        expect(getRetryAfterMs(httpError(429, { "retry-after-ms": "250", "retry-after": "3" }))).toBe(250);
+        expect(getRetryAfterMs(httpError(429, { "retry-after": "3" }))).toBe(3000);
+    });
+
+    it("reads headers exposed through a get method", () => {
+        const headers = new Headers({ "retry-after": "2" });
+
+        expect(getRetryAfterMs({ headers })).toBe(2000);
+    });
+
+    it("returns undefined without a usable header", () => {
+        expect(getRetryAfterMs(httpError(429))).toBeUndefined();
+        expect(getRetryAfterMs(httpError(429, { "retry-after": "soon" }))).toBeUndefined();
+    });
+});
+
+describe("withRetry", () => {
+    it("runs once without a policy", async () => {
+        let calls = 0;
+        const failing = () => {
+            calls++;
+            return Promise.reject(httpError(429));
+        };
+
+        await expect(withRetry(failing, undefined)).rejects.toThrow("HTTP 429");
+        expect(calls).toBe(1);
+    });
+
+    it("retries transient failures until one succeeds", async () => {
+        const retries: RetryAttempt[] = [];
+        const result = await withRetry(
+            async (attempt) => {
+                if (attempt < 3) {
+                    throw httpError(503);
+                }
+                return attempt;
+            },
+            { ...fastPolicy, onRetry: (retry) => retries.push(retry) }
+        );
+
+        expect(result).toBe(3);
+        expect(retries.map((retry) => retry.attempt)).toEqual([1, 2]);
+        expect(retries.map((retry) => retry.delayMs)).toEqual([1, 2]);
+    });
+
+    it("gives up after maxAttempts", async () => {
+        let calls = 0;
+        const failing = () => {
+            calls++;
+            return Promise.reject(httpError(500));
+        };
+
+        await expect(withRetry(failing, fastPolicy)).rejects.toThrow("HTTP 500");
+        expect(calls).toBe(3);
+    });
+
+    it("does not retry errors the policy rejects", async () => {
+        let calls = 0;
+        const failing = () => {
+            calls++;
+            return Promise.reject(httpError(400));
+        };
+
+        await expect(withRetry(failing, fastPolicy)).rejects.toThrow("HTTP 400");
+        expect(calls).toBe(1);
+    });
+
+    it("waits as long as retry-after asks, capped at maxDelayMs", async () => {
+        const delays: number[] = [];
+        await withRetry(
+            async (attempt) => {
+                if (attempt === 1) {
+                    throw httpError(429, { "retry-after": "60" });
+                }
+            },
+            { ...fastPolicy, maxDelayMs: 5 },
+            (retry) => delays.push(retry.delayMs)
+        );
+
+        expect(delays).toEqual([5]);
+    });
+});
+
+describe("streamWithRetry", () => {
+    it("retries opening a stream until its first item arrives", async () => {
+        let opened = 0;
+        async function* open() {
+            opened++;
+            if (opened === 1) {
+                throw httpError(503);
+            }
+            yield "a";
+            yield "b";
+        }
+
+        const items = [];
+        for await (const item of streamWithRetry(open, fastPolicy)) {
+            items.push(item);
+        }
+
+        expect(opened).toBe(2);
+        expect(items).toEqual(["a", "b"]);
+    });
+
+    it("does not retry once part of the stream was yielded", async () => {
+        let opened = 0;
+        async function* open() {
+            opened++;
+            yield "a";
+            throw httpError(503);
+        }
+
+        const items: string[] = [];
+        await expect(async () => {
+            for await (const item of streamWithRetry(open, fastPolicy)) {
+                items.push(item);
+            }
+        }).rejects.toThrow("HTTP 503");
+        expect(opened).toBe(1);
+        expect(items).toEqual(["a"]);
+    });
+});
+
+describe("provider SDK clients", () => {
+    const originalFetch = global.fetch;
+    let fetchMock: jest.Mock<typeof fetch>;
+
+    beforeEach(() => {
+        // A server error the SDKs retry right away
+        fetchMock = jest.fn<typeof fetch>().mockImplementation(async () =>
+            new Response(JSON.stringify({ error: { message: "unavailable" } }), {
+                status: 500,
+                headers: { "content-type": "application/json", "retry-after-ms": "1" },
+            })
+        );
+        global.fetch = fetchMock;
+    });
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    const cases: [string, () => ILLMProvider, LLMConfig][] = [
+        ["OpenAI", () => new OpenAIProvider("test-key"), { provider: "openai", model: "gpt-4o-mini" }],
+        [
+            "Anthropic",
+            () => new AnthropicProvider("test-key"),
+            { provider: "anthropic", model: "claude-sonnet-4-5", maxTokens: 100 },
+        ],
+    ];
+
+    it.each(cases)("%s keeps its own retries without a retry policy", async (_, create, config) => {
+        await expect(create().invoke("hello", config)).rejects.toThrow();
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it.each(cases)("%s leaves retrying to a configured retry policy", async (_, create, config) => {
+        await expect(
+            create().invoke("hello", { ...config, retry: { maxAttempts: 1 } } as LLMConfig)
+        ).rejects.toThrow();
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+});
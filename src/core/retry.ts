@@ -0,0 +1,223 @@
+import { LLMConfig, RetryAttempt, RetryPolicy } from "./types";
+
+/**
+ * HTTP statuses worth retrying: timeouts, conflicts, rate limits, server
+ * errors and Anthropic's 529 overloaded
+ */
+const RETRYABLE_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+
+/**
+ * Network error codes that indicate a dropped or refused connection
+ */
+const RETRYABLE_CODES = new Set([
+    "ECONNRESET",
+    "ECONNREFUSED",
+    "ECONNABORTED",
+    "ETIMEDOUT",
+    "EPIPE",
+    "EAI_AGAIN",
+    "ENOTFOUND",
+    "UND_ERR_SOCKET",
+    "UND_ERR_CONNECT_TIMEOUT",
+    "UND_ERR_HEADERS_TIMEOUT",
+]);
+
+/**
+ * Error names used by the provider SDKs for throttling, overloads and
+ * connection failures
+ */
+const RETRYABLE_NAMES = new Set([
+    "APIConnectionError",
+    "APIConnectionTimeoutError",
+    "RateLimitError",
+    "InternalServerError",
+    "ThrottlingException",
+    "ServiceUnavailableException",
+    "ModelNotReadyException",
+    "InternalServerException",
+]);
+
+/**
+ * Whether an error from a provider is transient: rate limits, overloads,
+ * server errors and network failures. Errors caused by the request itself,
+ * such as invalid parameters or authentication, are not retryable.
+ */
+export function isRetryableError(error: any): boolean {
+    if (!error) {
+        return false;
+    }
+
+    const status = getErrorStatus(error);
+    if (status !== undefined) {
+        return RETRYABLE_STATUSES.has(status);
+    }
+
+    if (RETRYABLE_NAMES.has(error.name) || RETRYABLE_CODES.has(error.code)) {
+        return true;
+    }
+    if (error.error?.type === "overloaded_error" || error.type === "overloaded_error") {
+        return true;
+    }
+    // fetch reports network failures as a TypeError with the cause attached
+    return error.cause !== undefined && error.cause !== error && isRetryableError(error.cause);
+}
+
+/**
+ * The HTTP status of a provider error, as exposed by the various SDKs
+ */
+function getErrorStatus(error: any): number | undefined {
+    const status = error.status ?? error.statusCode ?? error.$metadata?.httpStatusCode;
+    return typeof status === "number" ? status : undefined;
+}
+
+/**
+ * How long the server asked the client to wait, from the retry-after-ms or
+ * retry-after header of an error
+ */
+export function getRetryAfterMs(error: any): number | undefined {
+    const headers = error?.headers ?? error?.response?.headers;
+    if (!headers) {
+        return undefined;
+    }
+    const read = (name: string): string | undefined => {
+        const value = typeof headers.get === "function" ? headers.get(name) : headers[name];
+        return value === null || value === undefined ? undefined : String(value);
+    };
+
+    const retryAfterMs = Number(read("retry-after-ms"));
+    if (read("retry-after-ms") !== undefined && Number.isFinite(retryAfterMs)) {
+        return Math.max(0, retryAfterMs);
+    }
+
+    const retryAfter = read("retry-after");
+    if (retryAfter === undefined) {
+        return undefined;
+    }
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Delay before retrying after the given failed attempt
+ */
+function getDelayMs(policy: RetryPolicy, attempt: number, error: any): number {
+    const maxDelayMs = policy.maxDelayMs ?? 30000;
+
+    if (policy.respectRetryAfter ?? true) {
+        const retryAfterMs = getRetryAfterMs(error);
+        if (retryAfterMs !== undefined) {
+            return Math.min(retryAfterMs, maxDelayMs);
+        }
+    }
+
+    const base = Math.min(
+        (policy.initialDelayMs ?? 1000) * Math.pow(policy.backoffMultiplier ?? 2, attempt - 1),
+        maxDelayMs
+    );
+    return policy.jitter ?? true ? base / 2 + Math.random() * (base / 2) : base;
+}
+
+/**
+ * Decide whether a failed attempt should be retried, and after how long
+ *
+ * @returns The retry to make, or undefined to give up and rethrow
+ */
+function planRetry(
+    policy: RetryPolicy | undefined,
+    attempt: number,
+    error: any
+): RetryAttempt | undefined {
+    if (!policy || attempt >= (policy.maxAttempts ?? 3)) {
+        return undefined;
+    }
+    if (!(policy.retryOn ?? isRetryableError)(error)) {
+        return undefined;
+    }
+    return { attempt, error, delayMs: getDelayMs(policy, attempt, error) };
+}
+
+/**
+ * Request options for the OpenAI and Anthropic SDK clients. When a config
+ * sets a retry policy, the client's own retries are turned off so the policy
+ * is the only retry layer; otherwise the client keeps its default retries.
+ */
+export function sdkRetryOptions(config: LLMConfig): { maxRetries?: number } {
+    return config.retry ? { maxRetries: 0 } : {};
+}
+
+/**
+ * Run an async function, retrying it under a retry policy. Without a policy
+ * the function runs once.
+ *
+ * @param fn The function to run; receives the attempt number, starting at 1
+ * @param policy The retry policy
+ * @param onRetry Called before waiting for each retry, after the policy's own onRetry
+ * @returns The result of the first successful attempt
+ */
+export async function withRetry<T>(
+    fn: (attempt: number) => Promise<T>,
+    policy: RetryPolicy | undefined,
+    onRetry?: (attempt: RetryAttempt) => void
+): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await fn(attempt);
+        } catch (error) {
+            const retry = planRetry(policy, attempt, error);
+            if (!retry) {
+                throw error;
+            }
+            policy?.onRetry?.(retry);
+            onRetry?.(retry);
+            await sleep(retry.delayMs);
+        }
+    }
+}
+
+/**
+ * Open a stream, retrying under a retry policy until its first item arrives.
+ * Once anything has been yielded, errors are thrown as-is, since the caller
+ * has already seen part of the response.
+ *
+ * @param open Opens the stream; called again for each retry
+ * @param policy The retry policy
+ * @param onRetry Called before waiting for each retry, after the policy's own onRetry
+ */
+export async function* streamWithRetry<T>(
+    open: () => AsyncIterable<T>,
+    policy: RetryPolicy | undefined,
+    onRetry?: (attempt: RetryAttempt) => void
+): AsyncGenerator<T> {
+    const { iterator, first } = await withRetry(async () => {
+        const iterator = open()[Symbol.asyncIterator]();
+        return { iterator, first: await iterator.next() };
+    }, policy, onRetry);
+
+    let done = first.done;
+    try {
+        if (first.done) {
+            return;
+        }
+        yield first.value;
+        while (true) {
+            const next = await iterator.next();
+            if ((done = next.done)) {
+                return;
+            }
+            yield next.value;
+        }
+    } finally {
+        // Close the underlying stream if the caller stopped early
+        if (!done) {
+            await iterator.return?.();
+        }
+    }
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
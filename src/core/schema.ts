@@ -0,0 +1,225 @@
+import { z } from "zod";
+
+/**
+ * Render a zod schema as a TypeScript-like type for use in prompts, with
+ * descriptions and constraints as comments.
+ *
+ * The schema is described as the JSON the model has to produce, i.e. the
+ * input side of any transforms. Types with no JSON form render as `any`.
+ *
+ * @example
+ * describeZodSchema(z.object({ name: z.string().describe("Full name"), age: z.number().optional() }))
+ * // {
+ * //   name: string; // Full name
+ * //   age?: number;
+ * // }
+ */
+export function describeZodSchema(schema: z.ZodType): string {
+    const jsonSchema = z.toJSONSchema(schema, { io: "input", unrepresentable: "any" });
+    return describeJsonSchema(jsonSchema as Record<string, any>);
+}
+
+/**
+ * Render a JSON Schema as a TypeScript-like type. Definitions referenced with
+ * $ref are rendered once as named types after the main type.
+ */
+export function describeJsonSchema(schema: Record<string, any>): string {
+    const definitions: Record<string, any> = { ...schema.definitions, ...schema.$defs };
+    const names = new Map(
+        Object.keys(definitions).map((key, index) => [
+            key,
+            /^[A-Za-z_$][\w$]*$/.test(key) && !key.startsWith("__") ? key : `Type${index + 1}`,
+        ])
+    );
+    const renderer = new SchemaRenderer(names);
+
+    const lines = [renderer.render(schema, "")];
+    for (const [key, definition] of Object.entries(definitions)) {
+        lines.push("", `type ${names.get(key)} = ${renderer.render(definition, "")};`);
+    }
+    return lines.join("\n");
+}
+
+/**
+ * Format validation issues as a list with the full path of each issue, e.g.
+ * `- items[2].price: Invalid input: expected number, received string`
+ */
+export function formatZodIssues(error: z.ZodError): string {
+    return error.issues
+        .map((issue) => `- ${formatIssuePath(issue.path)}: ${issue.message}`)
+        .join("\n");
+}
+
+/**
+ * Render an issue path as a property access expression; the root is "(root)"
+ */
+function formatIssuePath(path: PropertyKey[]): string {
+    if (path.length === 0) {
+        return "(root)";
+    }
+    return path
+        .map((key, index) => {
+            if (typeof key === "number") {
+                return `[${key}]`;
+            }
+            const name = String(key);
+            if (!/^[A-Za-z_$][\w$]*$/.test(name)) {
+                return `[${JSON.stringify(name)}]`;
+            }
+            return index === 0 ? name : `.${name}`;
+        })
+        .join("");
+}
+
+/**
+ * Renders JSON Schema nodes as TypeScript-like type expressions
+ */
+class SchemaRenderer {
+    /**
+     * @param definitionNames Display names for $defs entries, keyed by definition key
+     */
+    constructor(private definitionNames: Map<string, string>) {}
+
+    /**
+     * Render a schema node
+     *
+     * @param schema The schema node
+     * @param indent Indentation of the line the type starts on
+     */
+    render(schema: Record<string, any> | boolean, indent: string): string {
+        if (schema === true || schema === undefined) {
+            return "any";
+        }
+        if (schema === false) {
+            return "never";
+        }
+
+        if (schema.$ref) {
+            const key = String(schema.$ref).split("/").pop()!;
+            return this.definitionNames.get(key) ?? "any";
+        }
+        if (schema.const !== undefined) {
+            return JSON.stringify(schema.const);
+        }
+        if (Array.isArray(schema.enum)) {
+            return schema.enum.map((value: unknown) => JSON.stringify(value)).join(" | ");
+        }
+
+        const variants = schema.anyOf ?? schema.oneOf;
+        if (Array.isArray(variants)) {
+            return variants.map((variant) => this.render(variant, indent)).join(" | ");
+        }
+        if (Array.isArray(schema.allOf)) {
+            return schema.allOf.map((part: any) => this.renderMember(part, indent)).join(" & ");
+        }
+
+        if (Array.isArray(schema.type)) {
+            return schema.type
+                .map((type: string) => this.render({ ...schema, type }, indent))
+                .join(" | ");
+        }
+
+        switch (schema.type) {
+            case "string":
+                return "string";
+            case "number":
+            case "integer":
+                return "number";
+            case "boolean":
+                return "boolean";
+            case "null":
+                return "null";
+            case "array":
+                return this.renderArray(schema, indent);
+            case "object":
+                return this.renderObject(schema, indent);
+            default:
+                return schema.properties ? this.renderObject(schema, indent) : "any";
+        }
+    }
+
+    /**
+     * Render an intersection member, parenthesizing unions
+     */
+    private renderMember(schema: Record<string, any>, indent: string): string {
+        const rendered = this.render(schema, indent);
+        return rendered.includes(" | ") && !rendered.startsWith("{") ? `(${rendered})` : rendered;
+    }
+
+    private renderArray(schema: Record<string, any>, indent: string): string {
+        if (Array.isArray(schema.prefixItems)) {
+            const items = schema.prefixItems.map((item: any) => this.render(item, indent));
+            return `[${items.join(", ")}]`;
+        }
+
+        const item = this.render(schema.items ?? true, indent);
+        return /^[\w$."]+$/.test(item) ? `${item}[]` : `Array<${item}>`;
+    }
+
+    private renderObject(schema: Record<string, any>, indent: string): string {
+        const properties: Record<string, any> = schema.properties ?? {};
+        const required = new Set<string>(schema.required ?? []);
+        const inner = indent + "  ";
+
+        const additional = schema.additionalProperties;
+        if (Object.keys(properties).length === 0 && additional && typeof additional === "object") {
+            return `Record<string, ${this.render(additional, indent)}>`;
+        }
+
+        const lines: string[] = [];
+        for (const [key, property] of Object.entries(properties)) {
+            const name = /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+            const optional = required.has(key) ? "" : "?";
+            const comment = this.comment(property);
+            lines.push(
+                `${inner}${name}${optional}: ${this.render(property, inner)};${comment && ` // ${comment}`}`
+            );
+        }
+
+        if (additional && typeof additional === "object") {
+            lines.push(`${inner}[key: string]: ${this.render(additional, inner)};`);
+        }
+
+        if (lines.length === 0) {
+            return additional === false ? "{}" : "Record<string, any>";
+        }
+        return `{\n${lines.join("\n")}\n${indent}}`;
+    }
+
+    /**
+     * Describe a property's description and constraints for a trailing comment
+     */
+    private comment(schema: Record<string, any>): string {
+        if (typeof schema !== "object" || schema === null) {
+            return "";
+        }
+
+        const notes: string[] = [];
+        if (schema.description) {
+            notes.push(String(schema.description).replace(/\s+/g, " "));
+        }
+        if (schema.type === "integer") {
+            notes.push("integer");
+        }
+        if (schema.format) {
+            notes.push(`format: ${schema.format}`);
+        } else if (schema.pattern) {
+            notes.push(`pattern: ${schema.pattern}`);
+        }
+        if (schema.minLength !== undefined) notes.push(`min length ${schema.minLength}`);
+        if (schema.maxLength !== undefined) notes.push(`max length ${schema.maxLength}`);
+        if (schema.minItems !== undefined) notes.push(`min items ${schema.minItems}`);
+        if (schema.maxItems !== undefined) notes.push(`max items ${schema.maxItems}`);
+        if (schema.minimum !== undefined && schema.minimum > Number.MIN_SAFE_INTEGER) {
+            notes.push(`>= ${schema.minimum}`);
+        }
+        if (schema.exclusiveMinimum !== undefined) notes.push(`> ${schema.exclusiveMinimum}`);
+        if (schema.maximum !== undefined && schema.maximum < Number.MAX_SAFE_INTEGER) {
+            notes.push(`<= ${schema.maximum}`);
+        }
+        if (schema.exclusiveMaximum !== undefined) notes.push(`< ${schema.exclusiveMaximum}`);
+        if (schema.default !== undefined) notes.push(`default: ${JSON.stringify(schema.default)}`);
+
+        return notes.join("; ");
+    }
+}
@@ -0,0 +1,91 @@
+import { z } from "zod";
+import { ToolCall, ToolDefinition, ToolInvocation, ToolSpec } from "./types";
+
+/**
+ * Define a tool with its argument types inferred from the input schema
+ *
+ * @example
+ * const getWeather = defineTool({
+ *     name: "get_weather",
+ *     description: "Get the current weather for a city",
+ *     inputSchema: z.object({ city: z.string() }),
+ *     handler: async ({ city }) => fetchWeather(city),
+ * });
+ */
+export function defineTool<TArgs, TResult>(
+    tool: ToolDefinition<TArgs, TResult>
+): ToolDefinition<TArgs, TResult> {
+    return tool;
+}
+
+/**
+ * Convert a tool definition to the provider-level spec, with its input
+ * schema as JSON Schema
+ */
+export function toToolSpec(tool: ToolDefinition): ToolSpec {
+    const { $schema, ...parameters } = z.toJSONSchema(tool.inputSchema) as Record<string, any>;
+    return {
+        name: tool.name,
+        description: tool.description,
+        parameters,
+    };
+}
+
+/**
+ * Run a tool call requested by the model.
+ * Unknown tools, invalid arguments and handler errors don't throw; they are
+ * recorded on the invocation so the error can be reported back to the model.
+ *
+ * @param tools The available tools
+ * @param call The tool call from the model response
+ * @param iteration Index of the LLM call that requested the tool
+ */
+export async function executeToolCall(
+    tools: ToolDefinition[],
+    call: ToolCall,
+    iteration: number
+): Promise<ToolInvocation> {
+    const startTime = Date.now();
+    const invocation: ToolInvocation = {
+        id: call.id,
+        name: call.name,
+        arguments: call.arguments,
+        durationMs: 0,
+        iteration,
+    };
+
+    try {
+        const tool = tools.find((t) => t.name === call.name);
+        if (!tool) {
+            throw new Error(
+                `Unknown tool '${call.name}'. Available tools: ${tools.map((t) => t.name).join(", ")}`
+            );
+        }
+
+        const parsed = tool.inputSchema.safeParse(call.arguments);
+        if (!parsed.success) {
+            throw new Error(
+                `Invalid arguments for tool '${call.name}':\n${z.prettifyError(parsed.error)}`
+            );
+        }
+
+        invocation.result = await tool.handler(parsed.data);
+    } catch (error: any) {
+        invocation.error = error?.message ?? String(error);
+    }
+
+    invocation.durationMs = Date.now() - startTime;
+    return invocation;
+}
+
+/**
+ * Render a tool invocation's outcome as the content of a tool message
+ */
+export function formatToolResult(invocation: ToolInvocation): string {
+    if (invocation.error !== undefined) {
+        return `Error: ${invocation.error}`;
+    }
+    return typeof invocation.result === "string"
+        ? invocation.result
+        : JSON.stringify(invocation.result ?? null);
+}
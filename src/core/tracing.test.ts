@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { OTLPJsonExporter, SpanData, SpanExporter, Tracer } from "./tracing";
+
+/**
+ * Exporter that keeps every span it receives
+ */
+class CollectingExporter implements SpanExporter {
+    spans: SpanData[] = [];
+
+    export(spans: SpanData[]): void {
+        this.spans.push(...spans);
+    }
+}
+
+describe("Tracer", () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+        jest.useRealTimers();
+    });
+
+    it("nests spans started inside trace under it", async () => {
+        const exporter = new CollectingExporter();
+        const tracer = new Tracer({ exporters: [exporter] });
+
+        await tracer.trace("pipeline", {}, async () => {
+            await tracer.trace("node", {}, async () => undefined);
+        });
+
+        const [node, pipeline] = exporter.spans;
+        expect(node.parentSpanId).toBe(pipeline.spanId);
+        expect(node.traceId).toBe(pipeline.traceId);
+        expect(pipeline.status.code).toBe("ok");
+    });
+
+    it("marks spans of failed work with an error and an exception event", async () => {
+        const exporter = new CollectingExporter();
+        const tracer = new Tracer({ exporters: [exporter] });
+
+        await expect(
+            tracer.trace("node", {}, async () => {
+                throw new Error("boom");
+            })
+        ).rejects.toThrow("boom");
+
+        expect(exporter.spans[0].status).toEqual({ code: "error", message: "boom" });
+        expect(exporter.spans[0].events.map((event) => event.name)).toEqual(["exception"]);
+    });
+
+    it("reports failed timed OTLP flushes to the tracer's onError", async () => {
+        jest.useFakeTimers();
+        global.fetch = jest.fn<typeof fetch>().mockResolvedValue(
+            new Response("unavailable", { status: 503 })
+        );
+        const errors: unknown[] = [];
+        const tracer = new Tracer({
+            exporters: [new OTLPJsonExporter({ flushIntervalMs: 1000 })],
+            onError: (error) => errors.push(error),
+        });
+
+        tracer.startSpan("node").end();
+        await jest.advanceTimersByTimeAsync(1000);
+
+        expect(errors).toHaveLength(1);
+        expect((errors[0] as Error).message).toMatch(/OTLP export .* failed: 503/);
+    });
+});
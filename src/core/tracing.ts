@@ -0,0 +1,595 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomBytes } from "crypto";
+import { TokenUsage } from "./types";
+
+/**
+ * Value of a span attribute
+ */
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * Span attributes; undefined values are left out
+ */
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/**
+ * "client" for calls to a provider, "internal" for nodes and pipelines
+ */
+export type SpanKind = "internal" | "client";
+
+/**
+ * A finished span, as passed to exporters. Times are milliseconds since the
+ * Unix epoch.
+ */
+export interface SpanData {
+    traceId: string; // 32 hex characters
+    spanId: string; // 16 hex characters
+    parentSpanId?: string;
+    name: string;
+    kind: SpanKind;
+    startTime: number;
+    endTime: number;
+    attributes: Record<string, SpanAttributeValue>;
+    status: { code: "unset" | "ok" | "error"; message?: string };
+    events: { name: string; time: number; attributes: Record<string, SpanAttributeValue> }[];
+}
+
+/**
+ * Receives spans as they end
+ */
+export interface SpanExporter {
+    /**
+     * Export finished spans. Errors are reported to the tracer's onError and
+     * never reach the traced code.
+     *
+     * @param spans The finished spans
+     * @param onError The tracer's onError, for errors of work that continues
+     *   after export returns, such as a timed flush
+     */
+    export(spans: SpanData[], onError?: (error: unknown) => void): void | Promise<void>;
+
+    /**
+     * Send any buffered spans
+     */
+    flush?(): Promise<void>;
+
+    /**
+     * Send any buffered spans and release resources
+     */
+    shutdown?(): Promise<void>;
+}
+
+/**
+ * A unit of traced work: a pipeline, a node execution or a provider call
+ */
+export class Span {
+    readonly traceId: string;
+    readonly spanId: string;
+    readonly parentSpanId?: string;
+    readonly startTime = Date.now();
+
+    /**
+     * Attributes set so far
+     * @private
+     */
+    private attributes: Record<string, SpanAttributeValue> = {};
+
+    /**
+     * Events recorded so far, e.g. exceptions
+     * @private
+     */
+    private events: SpanData["events"] = [];
+
+    /**
+     * Outcome of the work
+     * @private
+     */
+    private status: SpanData["status"] = { code: "unset" };
+
+    /**
+     * Whether end() has been called
+     * @private
+     */
+    private ended = false;
+
+    /**
+     * Created by Tracer.startSpan
+     */
+    constructor(
+        readonly tracer: Tracer,
+        readonly name: string,
+        readonly kind: SpanKind,
+        parent?: Span
+    ) {
+        this.traceId = parent?.traceId ?? randomBytes(16).toString("hex");
+        this.spanId = randomBytes(8).toString("hex");
+        this.parentSpanId = parent?.spanId;
+    }
+
+    /**
+     * Set attributes, replacing earlier values of the same keys
+     */
+    setAttributes(attributes: SpanAttributes): this {
+        for (const [key, value] of Object.entries(attributes)) {
+            if (value !== undefined) {
+                this.attributes[key] = value;
+            }
+        }
+        return this;
+    }
+
+    /**
+     * Record a point in time within the span
+     */
+    addEvent(name: string, attributes: SpanAttributes = {}): this {
+        const values: Record<string, SpanAttributeValue> = {};
+        for (const [key, value] of Object.entries(attributes)) {
+            if (value !== undefined) {
+                values[key] = value;
+            }
+        }
+        this.events.push({ name, time: Date.now(), attributes: values });
+        return this;
+    }
+
+    /**
+     * Mark the span as failed and record the error as an exception event
+     */
+    recordError(error: unknown): this {
+        const message = error instanceof Error ? error.message : String(error);
+        this.status = { code: "error", message };
+        return this.addEvent("exception", {
+            "exception.type": error instanceof Error ? error.name : typeof error,
+            "exception.message": message,
+            "exception.stacktrace": error instanceof Error ? error.stack : undefined,
+        });
+    }
+
+    /**
+     * Set the status of a span that has not failed
+     */
+    setOk(): this {
+        if (this.status.code !== "error") {
+            this.status = { code: "ok" };
+        }
+        return this;
+    }
+
+    /**
+     * End the span and hand it to the tracer's exporters. Later calls are ignored.
+     */
+    end(): void {
+        if (this.ended) {
+            return;
+        }
+        this.ended = true;
+        this.tracer.export({
+            traceId: this.traceId,
+            spanId: this.spanId,
+            ...(this.parentSpanId && { parentSpanId: this.parentSpanId }),
+            name: this.name,
+            kind: this.kind,
+            startTime: this.startTime,
+            endTime: Date.now(),
+            attributes: { ...this.attributes },
+            status: { ...this.status },
+            events: [...this.events],
+        });
+    }
+}
+
+/**
+ * The span of the work currently running, following the async call chain
+ */
+const activeSpan = new AsyncLocalStorage<Span>();
+
+/**
+ * Tracer
+ *
+ * Creates spans for pipelines, node executions and provider calls and sends
+ * them to exporters when they end. Register one with setTracer to trace every
+ * node, or pass one in a node's `tracer` option.
+ *
+ * Key features:
+ * - Spans nest along the async call chain (pipeline → node → provider call),
+ *   so concurrent executions produce separate traces
+ * - Multiple exporters, e.g. the console during development plus a collector
+ * - Exporter failures are reported to onError and never break the traced code
+ *
+ * Example use cases:
+ * - Printing a timing tree of a pipeline run
+ * - Sending traces to an OpenTelemetry collector, Jaeger or any OTLP backend
+ *
+ * @example
+ * const tracer = new Tracer({ exporters: [new ConsoleSpanExporter()] });
+ * setTracer(tracer);
+ * await pipeline.execute(input);
+ * await tracer.shutdown();
+ */
+export class Tracer {
+    /**
+     * Exporters that receive every finished span
+     * @private
+     */
+    private exporters: SpanExporter[];
+
+    /**
+     * Called when an exporter fails
+     * @private
+     */
+    private onError: (error: unknown) => void;
+
+    /**
+     * @param options.exporters Exporters that receive every finished span
+     * @param options.onError Called when an exporter fails (default: console.warn)
+     */
+    constructor(
+        options: { exporters?: SpanExporter[]; onError?: (error: unknown) => void } = {}
+    ) {
+        this.exporters = options.exporters ?? [];
+        this.onError =
+            options.onError ?? ((error) => console.warn("Failed to export spans:", error));
+    }
+
+    /**
+     * Start a span as a child of the active span. The span is not made
+     * active; use trace() for work that creates nested spans.
+     */
+    startSpan(
+        name: string,
+        options: { kind?: SpanKind; attributes?: SpanAttributes } = {}
+    ): Span {
+        const span = new Span(this, name, options.kind ?? "internal", activeSpan.getStore());
+        return span.setAttributes(options.attributes ?? {});
+    }
+
+    /**
+     * Run a function in a new span that is active while it runs, so spans it
+     * starts are nested under it. The span ends when the function settles and
+     * records its error if it throws.
+     */
+    async trace<T>(
+        name: string,
+        options: { kind?: SpanKind; attributes?: SpanAttributes },
+        fn: (span: Span) => Promise<T>
+    ): Promise<T> {
+        const span = this.startSpan(name, options);
+        try {
+            const result = await activeSpan.run(span, () => fn(span));
+            span.setOk();
+            return result;
+        } catch (error) {
+            span.recordError(error);
+            throw error;
+        } finally {
+            span.end();
+        }
+    }
+
+    /**
+     * Send a finished span to every exporter
+     */
+    export(span: SpanData): void {
+        for (const exporter of this.exporters) {
+            try {
+                Promise.resolve(exporter.export([span], this.onError)).catch(this.onError);
+            } catch (error) {
+                this.onError(error);
+            }
+        }
+    }
+
+    /**
+     * Send spans buffered by the exporters
+     */
+    async flush(): Promise<void> {
+        await Promise.all(this.exporters.map((exporter) => exporter.flush?.()));
+    }
+
+    /**
+     * Send spans buffered by the exporters and shut them down, e.g. before
+     * the process exits
+     */
+    async shutdown(): Promise<void> {
+        await Promise.all(this.exporters.map((exporter) => exporter.shutdown?.()));
+    }
+}
+
+/**
+ * Tracer registered with setTracer
+ */
+let globalTracer: Tracer | undefined;
+
+/**
+ * Register a tracer for every node that has no tracer of its own; pass
+ * undefined to turn tracing off
+ */
+export function setTracer(tracer: Tracer | undefined): void {
+    globalTracer = tracer;
+}
+
+/**
+ * Get the tracer registered with setTracer, if any
+ */
+export function getTracer(): Tracer | undefined {
+    return globalTracer;
+}
+
+/**
+ * Get the span of the work currently running, if any
+ */
+export function getActiveSpan(): Span | undefined {
+    return activeSpan.getStore();
+}
+
+/**
+ * Pick the tracer for new spans: the given tracer, the active span's tracer
+ * or the registered tracer, in that order
+ */
+export function resolveTracer(tracer?: Tracer): Tracer | undefined {
+    return tracer ?? getActiveSpan()?.tracer ?? globalTracer;
+}
+
+/**
+ * Run a function in a span of the tracer picked by resolveTracer. Without a
+ * tracer the function runs untraced and receives no span.
+ */
+export function traceSpan<T>(
+    tracer: Tracer | undefined,
+    name: string,
+    options: { kind?: SpanKind; attributes?: SpanAttributes },
+    fn: (span?: Span) => Promise<T>
+): Promise<T> {
+    const resolved = resolveTracer(tracer);
+    return resolved ? resolved.trace(name, options, fn) : fn();
+}
+
+/**
+ * Span attributes for the token usage of a call, following the OpenTelemetry
+ * GenAI conventions for input and output tokens
+ */
+export function usageAttributes(usage: TokenUsage): SpanAttributes {
+    return {
+        "gen_ai.usage.input_tokens": usage.inputTokens,
+        "gen_ai.usage.output_tokens": usage.outputTokens,
+        "llm_nodes.usage.cache_read_tokens": usage.cacheReadTokens,
+        "llm_nodes.usage.cache_write_tokens": usage.cacheWriteTokens,
+        "llm_nodes.usage.thinking_tokens": usage.thinkingTokens,
+        "llm_nodes.usage.search_count": usage.searchCount,
+        "llm_nodes.usage.fetch_count": usage.fetchCount,
+    };
+}
+
+/**
+ * Prints each trace as an indented tree of spans with their durations and
+ * attributes once its root span ends
+ *
+ * @example
+ * // pipeline 1520ms
+ * //   node StructuredOutputNode 1518ms
+ * //     chat gpt-4o-mini 1490ms gen_ai.usage.input_tokens=212 gen_ai.usage.output_tokens=57
+ */
+export class ConsoleSpanExporter implements SpanExporter {
+    /**
+     * Finished spans of traces whose root span has not ended, by trace id
+     * @private
+     */
+    private pending = new Map<string, SpanData[]>();
+
+    /**
+     * Writes a line of output
+     * @private
+     */
+    private log: (line: string) => void;
+
+    /**
+     * @param options.log Writes a line of output (default: console.log)
+     */
+    constructor(options: { log?: (line: string) => void } = {}) {
+        this.log = options.log ?? ((line) => console.log(line));
+    }
+
+    export(spans: SpanData[]): void {
+        for (const span of spans) {
+            const trace = this.pending.get(span.traceId) ?? [];
+            trace.push(span);
+            this.pending.set(span.traceId, trace);
+
+            if (!span.parentSpanId) {
+                this.pending.delete(span.traceId);
+                this.print(span, trace, 0);
+            }
+        }
+    }
+
+    async flush(): Promise<void> {
+        // Print spans whose root has not ended as separate trees
+        for (const trace of this.pending.values()) {
+            const ids = new Set(trace.map((span) => span.spanId));
+            for (const span of trace.filter((span) => !ids.has(span.parentSpanId!))) {
+                this.print(span, trace, 0);
+            }
+        }
+        this.pending.clear();
+    }
+
+    async shutdown(): Promise<void> {
+        await this.flush();
+    }
+
+    /**
+     * Print a span and its children, in start order
+     * @private
+     */
+    private print(span: SpanData, trace: SpanData[], depth: number): void {
+        const attributes = Object.entries(span.attributes).map(([key, value]) => `${key}=${value}`);
+        const status = span.status.code === "error" ? [`ERROR: ${span.status.message}`] : [];
+        this.log(
+            [
+                `${"  ".repeat(depth)}${span.name}`,
+                `${span.endTime - span.startTime}ms`,
+                ...attributes,
+                ...status,
+            ].join(" ")
+        );
+
+        trace
+            .filter((child) => child.parentSpanId === span.spanId)
+            .sort((a, b) => a.startTime - b.startTime)
+            .forEach((child) => this.print(child, trace, depth + 1));
+    }
+}
+
+/**
+ * Convert spans to an OTLP/JSON trace export request, the body the
+ * OpenTelemetry collector accepts on /v1/traces
+ *
+ * @param spans The spans to convert
+ * @param serviceName The service.name resource attribute
+ */
+export function toOTLPJson(spans: SpanData[], serviceName: string): Record<string, any> {
+    const toAttributes = (attributes: Record<string, SpanAttributeValue>) =>
+        Object.entries(attributes).map(([key, value]) => ({
+            key,
+            value:
+                typeof value === "string"
+                    ? { stringValue: value }
+                    : typeof value === "boolean"
+                      ? { boolValue: value }
+                      : Number.isInteger(value)
+                        ? { intValue: String(value) }
+                        : { doubleValue: value },
+        }));
+    const toNanos = (ms: number) => `${Math.round(ms)}000000`;
+
+    return {
+        resourceSpans: [
+            {
+                resource: {
+                    attributes: toAttributes({ "service.name": serviceName }),
+                },
+                scopeSpans: [
+                    {
+                        scope: { name: "llm-nodes" },
+                        spans: spans.map((span) => ({
+                            traceId: span.traceId,
+                            spanId: span.spanId,
+                            ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+                            name: span.name,
+                            // SPAN_KIND_INTERNAL or SPAN_KIND_CLIENT
+                            kind: span.kind === "client" ? 3 : 1,
+                            startTimeUnixNano: toNanos(span.startTime),
+                            endTimeUnixNano: toNanos(span.endTime),
+                            attributes: toAttributes(span.attributes),
+                            events: span.events.map((event) => ({
+                                name: event.name,
+                                timeUnixNano: toNanos(event.time),
+                                attributes: toAttributes(event.attributes),
+                            })),
+                            status: {
+                                // STATUS_CODE_UNSET, STATUS_CODE_OK or STATUS_CODE_ERROR
+                                code: { unset: 0, ok: 1, error: 2 }[span.status.code],
+                                ...(span.status.message && { message: span.status.message }),
+                            },
+                        })),
+                    },
+                ],
+            },
+        ],
+    };
+}
+
+/**
+ * Options for OTLPJsonExporter
+ */
+export interface OTLPJsonExporterOptions {
+    url?: string; // Collector traces endpoint (default: http://localhost:4318/v1/traces)
+    headers?: Record<string, string>; // E.g. an authorization header for a hosted backend
+    serviceName?: string; // service.name resource attribute (default: "llm-nodes")
+    maxBatchSize?: number; // Spans buffered before sending (default: 100)
+    flushIntervalMs?: number; // Longest time a span waits in the buffer (default: 5000)
+}
+
+/**
+ * Sends spans to an OpenTelemetry collector or any backend that accepts
+ * OTLP/HTTP with JSON bodies. Spans are buffered and sent in batches; call
+ * the tracer's flush or shutdown before the process exits.
+ *
+ * @example
+ * // docker run -p 4318:4318 otel/opentelemetry-collector
+ * setTracer(new Tracer({ exporters: [new OTLPJsonExporter({ serviceName: "summarizer" })] }));
+ */
+export class OTLPJsonExporter implements SpanExporter {
+    /**
+     * Spans waiting to be sent
+     * @private
+     */
+    private buffer: SpanData[] = [];
+
+    /**
+     * Timer that sends the buffer after flushIntervalMs
+     * @private
+     */
+    private timer?: ReturnType<typeof setTimeout>;
+
+    /**
+     * Resolved options
+     * @private
+     */
+    private options: Required<Omit<OTLPJsonExporterOptions, "headers">> & {
+        headers: Record<string, string>;
+    };
+
+    constructor(options: OTLPJsonExporterOptions = {}) {
+        this.options = {
+            url: options.url ?? "http://localhost:4318/v1/traces",
+            headers: options.headers ?? {},
+            serviceName: options.serviceName ?? "llm-nodes",
+            maxBatchSize: options.maxBatchSize ?? 100,
+            flushIntervalMs: options.flushIntervalMs ?? 5000,
+        };
+    }
+
+    async export(spans: SpanData[], onError?: (error: unknown) => void): Promise<void> {
+        this.buffer.push(...spans);
+        if (this.buffer.length >= this.options.maxBatchSize) {
+            await this.flush();
+        } else if (!this.timer) {
+            this.timer = setTimeout(() => {
+                this.timer = undefined;
+                this.flush().catch(
+                    onError ?? ((error) => console.warn("Failed to export spans:", error))
+                );
+            }, this.options.flushIntervalMs);
+            // Buffered spans must not keep the process alive
+            this.timer.unref?.();
+        }
+    }
+
+    async flush(): Promise<void> {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        if (this.buffer.length === 0) {
+            return;
+        }
+
+        const spans = this.buffer;
+        this.buffer = [];
+        const response = await fetch(this.options.url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", ...this.options.headers },
+            body: JSON.stringify(toOTLPJson(spans, this.options.serviceName)),
+        });
+        if (!response.ok) {
+            throw new Error(
+                `OTLP export to ${this.options.url} failed: ${response.status} ${await response.text()}`
+            );
+        }
+    }
+
+    async shutdown(): Promise<void> {
+        await this.flush();
+    }
+}
@@ -1,9 +1,18 @@
+import type { z } from "zod";
+import type { ILLMProvider, LLMResponse, StopReason } from "./providers/ILLMProvider";
+import type { RateLimiter } from "./rateLimiter";
+import type { CacheConfig } from "./cache";
+import type { Budget, BudgetLimits } from "./budget";
+import type { Tracer } from "./tracing";
+
 /**
  * Token usage information from an LLM call
  */
 export type TokenUsage = {
-    inputTokens: number;
+    inputTokens: number; // All input tokens, including cache reads and writes
     outputTokens: number;
+    cacheReadTokens?: number; // Input tokens served from the provider's prompt cache
+    cacheWriteTokens?: number; // Input tokens written to the provider's prompt cache
     thinkingTokens?: number; // For tracking reasoning/thinking tokens separately
     searchCount?: number; // For web search usage tracking
     fetchCount?: number; // For web fetch usage tracking
@@ -18,6 +27,155 @@ export interface StreamChunk {
     tokenUsage?: TokenUsage;
 }
 
+/**
+ * Role of a message in a conversation
+ */
+export type ChatRole = "system" | "user" | "assistant" | "tool";
+
+/**
+ * A tool call requested by the model
+ */
+export interface ToolCall {
+    id: string;
+    name: string;
+    arguments: Record<string, any>;
+}
+
+/**
+ * Binary media given as bytes, base64 (or a data: URL), a file path or a URL.
+ * Set exactly one of `data`, `path` or `url`.
+ */
+export type MediaSource = {
+    data?: Buffer | Uint8Array | string; // Strings are base64 or a data: URL
+    path?: string; // Read when the request is sent
+    url?: string; // Passed through where the provider accepts URLs, otherwise downloaded
+    mediaType?: string; // e.g. "image/png"; inferred from the data or file extension if omitted
+};
+
+/**
+ * Marks the end of a stable prompt prefix. Providers with explicit prompt
+ * caching (Anthropic, Bedrock) cache the prompt up to and including the
+ * marked part; others cache prefixes automatically and ignore the mark.
+ */
+export type CachePoint = { cachePoint?: boolean };
+
+/**
+ * A piece of message content
+ */
+export type TextPart = { type: "text"; text: string } & CachePoint;
+export type ImagePart = { type: "image" } & MediaSource & CachePoint;
+export type DocumentPart = { type: "document"; filename?: string } & MediaSource & CachePoint; // PDF documents
+export type ContentPart = TextPart | ImagePart | DocumentPart;
+
+/**
+ * Message content: plain text, or a list of text, image and document parts
+ */
+export type MessageContent = string | ContentPart[];
+
+/**
+ * A single message in a multi-turn conversation
+ */
+export interface ChatMessage {
+    role: ChatRole;
+    content: MessageContent;
+    toolCalls?: ToolCall[]; // Assistant messages: tools the model asked to call
+    toolCallId?: string; // Tool messages: the call this result answers
+    name?: string; // Tool messages: the name of the tool that was called
+    thinkingBlocks?: ThinkingBlock[]; // Assistant messages: thinking to send back with the tool calls
+}
+
+/**
+ * An extended thinking block as returned by Anthropic models, with the
+ * signature needed to send it back on a later turn
+ */
+export type ThinkingBlock =
+    | { type: "thinking"; thinking: string; signature: string }
+    | { type: "redacted_thinking"; data: string };
+
+/**
+ * Provider-level tool description, with parameters as JSON Schema
+ */
+export interface ToolSpec {
+    name: string;
+    description: string;
+    parameters: Record<string, any>;
+}
+
+/**
+ * Whether and which tools the model may call
+ */
+export type ToolChoice = "auto" | "required" | "none" | { name: string };
+
+/**
+ * Per-call options passed to providers alongside the config
+ */
+export interface InvokeOptions {
+    tools?: ToolSpec[];
+    toolChoice?: ToolChoice;
+    responseFormat?: ResponseFormat; // Constrain the response to JSON matching a schema
+}
+
+/**
+ * Request for JSON output matching a JSON Schema, using the provider's native
+ * structured-output mode
+ */
+export interface ResponseFormat {
+    name: string; // Identifier for the schema, e.g. "invoice"
+    description?: string;
+    schema: Record<string, any>; // JSON Schema of the expected output
+    strict?: boolean; // OpenAI strict schema adherence; the schema must meet its restrictions (default: false)
+}
+
+/**
+ * A tool the model can call, with a zod schema for its input and a handler
+ * that runs it
+ */
+export interface ToolDefinition<TArgs = any, TResult = any> {
+    name: string;
+    description: string;
+    inputSchema: z.ZodType<TArgs>;
+    handler: (args: TArgs) => Promise<TResult> | TResult;
+}
+
+/**
+ * Record of a tool call executed during a node run
+ */
+export type ToolInvocation = {
+    id: string;
+    name: string;
+    arguments: Record<string, any>;
+    result?: any; // Handler return value
+    error?: string; // Set if the tool was unknown, the arguments were invalid or the handler threw
+    durationMs: number;
+    iteration: number; // Index of the LLM call that requested this tool call
+};
+
+/**
+ * One LLM call in a tool loop and the tool calls it requested
+ */
+export type ToolLoopStep = {
+    iteration: number;
+    toolInvocations: ToolInvocation[];
+    tokenUsage: TokenUsage;
+};
+
+/**
+ * Result of a node run with tools
+ */
+export type ToolLoopResult<TOutput> = {
+    output: TOutput;
+    toolInvocations: ToolInvocation[];
+    steps: ToolLoopStep[];
+    tokenUsage: TokenUsage; // Summed across every LLM call in the loop
+    reachedMaxIterations: boolean; // The final answer was forced because maxToolIterations was hit
+};
+
+/**
+ * Input accepted by providers: a single user prompt (text or content parts)
+ * or a list of messages
+ */
+export type PromptInput = string | ContentPart[] | ChatMessage[];
+
 /**
  * Record of a single LLM call usage
  */
@@ -26,6 +184,80 @@ export type UsageRecord = {
     provider: string;
     model: string;
     tokenUsage: TokenUsage;
+    executionId?: string; // Id of the tracked execution that made the call, if any
+    retries?: number; // Failed attempts retried before the call succeeded
+    cacheHit?: boolean; // Served from the response cache; tokenUsage is zero
+};
+
+/**
+ * A passage of the response backed by a source, normalized across providers
+ */
+export type Citation = {
+    url?: string; // Web page the passage is based on
+    title?: string; // Page or document title
+    citedText?: string; // Text quoted from the source
+    documentIndex?: number; // Index of the cited document in the prompt, for document citations
+    startIndex: number; // Start of the supported span in the response content
+    endIndex: number; // End of the supported span (exclusive)
+};
+
+/**
+ * A web page the model found or read with web search or web fetch
+ */
+export type WebSource = {
+    url: string;
+    title?: string;
+    pageAge?: string; // Anthropic web search: age of the page, as reported
+};
+
+/**
+ * A single LLM call made during an execution
+ */
+export type LLMCallRecord = {
+    timestamp: Date;
+    provider: string;
+    model: string;
+    content: string; // Raw completion text
+    thinking?: string; // Reasoning trace, when the provider returns one
+    toolCalls?: ToolCall[];
+    stopReason?: StopReason;
+    citations?: Citation[];
+    sources?: WebSource[];
+    tokenUsage: TokenUsage;
+    latencyMs: number; // Includes time spent on retries
+    retries: number; // Failed attempts retried before the call succeeded
+    cacheHit?: boolean; // Served from the response cache
+    raw?: any; // Provider-specific raw response
+};
+
+/**
+ * Output of a tracked execution with the usage of every LLM call it made
+ */
+export type ExecutionResult<TOutput> = {
+    output: TOutput;
+    executionId: string;
+    usageRecords: UsageRecord[];
+    tokenUsage: TokenUsage;
+};
+
+/**
+ * Output of a tracked execution with the details of the LLM response it was
+ * parsed from. The top-level response fields come from the final LLM call;
+ * `calls` lists every call, including retries and tool-loop steps.
+ */
+export type ExecutionMetadata<TOutput> = ExecutionResult<TOutput> & {
+    rawOutput: string; // Text the output was parsed from
+    thinking?: string;
+    stopReason?: StopReason;
+    citations?: Citation[]; // Citations in rawOutput
+    sources?: WebSource[]; // Web pages searched or fetched across all calls
+    raw?: any; // Provider-specific raw response
+    provider: string;
+    model: string;
+    latencyMs: number; // Wall-clock duration of the whole execution
+    retryCount: number; // Invalid responses retried by the node
+    providerRetries: number; // Failed provider calls retried under the retry policy
+    calls: LLMCallRecord[];
 };
 
 /**
@@ -38,7 +270,7 @@ export interface IExecutable<TInput, TOutput> {
 /**
  * Supported LLM providers
  */
-export type LLMProvider = "openai" | "anthropic" | "grok" | "ollama" | string;
+export type LLMProvider = "openai" | "anthropic" | "grok" | "ollama" | "openai-compatible" | string;
 
 /**
  * Web search configuration
@@ -62,6 +294,47 @@ export interface WebFetchConfig {
     }; // Anthropic only
 }
 
+/**
+ * Details of a failed attempt that is about to be retried
+ */
+export type RetryAttempt = {
+    attempt: number; // The attempt that failed, starting at 1
+    error: any;
+    delayMs: number; // Wait before the next attempt
+};
+
+/**
+ * Retry policy for failed provider calls
+ */
+export interface RetryPolicy {
+    maxAttempts?: number; // Total attempts including the first (default: 3)
+    initialDelayMs?: number; // Delay before the first retry (default: 1000)
+    maxDelayMs?: number; // Upper bound for any delay, including retry-after (default: 30000)
+    backoffMultiplier?: number; // Growth of the delay per attempt (default: 2)
+    jitter?: boolean; // Randomize each delay between half and all of its value (default: true)
+    respectRetryAfter?: boolean; // Wait as long as retry-after headers ask (default: true)
+    retryOn?: (error: any) => boolean; // Which errors to retry (default: isRetryableError)
+    onRetry?: (attempt: RetryAttempt) => void;
+}
+
+/**
+ * Client-side limits for requests to a provider and model
+ */
+export interface RateLimits {
+    requestsPerMinute?: number;
+    tokensPerMinute?: number; // Estimated from the prompt and maxTokens until the request finishes
+    maxConcurrent?: number; // Requests in flight at once
+}
+
+/**
+ * Provider-side prompt caching for Anthropic and Bedrock
+ */
+export interface PromptCachingConfig {
+    systemPrompt?: boolean; // Cache the system prompt (default: true)
+    messages?: boolean; // Cache the conversation up to the latest message, e.g. for tool loops (default: false)
+    ttl?: "5m" | "1h"; // Cache lifetime (default: "5m")
+}
+
 /**
  * Base configuration options common to all LLM providers
  */
@@ -70,6 +343,9 @@ export interface BaseLLMConfig {
     model: string;
     temperature?: number;
     maxTokens?: number;
+    retry?: RetryPolicy; // Retry rate limits, overloads and transient failures
+    rateLimit?: RateLimits | RateLimiter; // Limits shared by all nodes with this provider and model, or a limiter of your own
+    cache?: CacheConfig; // Reuse responses to identical requests
     providerOptions?: {
         systemPrompt?: string;
         [key: string]: any;
@@ -90,7 +366,7 @@ export interface OpenAIConfig extends BaseLLMConfig {
         effort: "low" | "medium" | "high";
     };
     webSearch?: WebSearchConfig;
-    tools?: any[]; // For future tool support
+    tools?: any[]; // Raw OpenAI tool definitions, sent as-is; prefer the node-level `tools` option
 }
 
 /**
@@ -107,6 +383,7 @@ export interface AnthropicConfig extends BaseLLMConfig {
     };
     webSearch?: WebSearchConfig;
     webFetch?: WebFetchConfig;
+    promptCaching?: boolean | PromptCachingConfig; // true caches the system prompt
     stream?: boolean; // Streaming flag for large responses
 }
 
@@ -126,16 +403,48 @@ export interface BedrockConfig extends BaseLLMConfig {
         type: "enabled";
         budget_tokens: number; // Min 1024
     };
+    promptCaching?: boolean | PromptCachingConfig; // true caches the system prompt
     stream?: boolean; // Streaming flag for large responses
 }
 
+/**
+ * Capabilities of an OpenAI-compatible server or model.
+ * Parameters for unsupported capabilities are left out of requests.
+ */
+export interface OpenAICompatibleCapabilities {
+    streaming?: boolean; // Server supports stream: true (default: true)
+    streamUsage?: boolean; // Server supports stream_options.include_usage (default: true)
+    systemPrompt?: boolean; // Model accepts a system message; otherwise it is prepended to the prompt (default: true)
+    penalties?: boolean; // Server accepts frequency_penalty / presence_penalty (default: true)
+    tools?: boolean; // Server supports function calling (default: true)
+    structuredOutput?: boolean; // Server supports response_format with a JSON schema (default: true)
+}
+
+/**
+ * Configuration for any server implementing the OpenAI chat completions API
+ * (vLLM, LM Studio, LiteLLM, etc.)
+ */
+export interface OpenAICompatibleConfig extends BaseLLMConfig {
+    provider: "openai-compatible";
+    baseURL: string; // e.g. "http://localhost:8000/v1"
+    apiKey?: string;
+    headers?: Record<string, string>;
+    topP?: number;
+    frequencyPenalty?: number;
+    presencePenalty?: number;
+    capabilities?: OpenAICompatibleCapabilities;
+}
+
 /**
  * Grok-specific configuration options
  */
 export interface GrokConfig extends BaseLLMConfig {
     provider: "grok";
-    apiKey?: string;
+    apiKey?: string; // Defaults to GROK_API_KEY
+    baseURL?: string; // Defaults to https://api.x.ai/v1
+    headers?: Record<string, string>;
     topP?: number;
+    capabilities?: OpenAICompatibleCapabilities;
 }
 
 /**
@@ -157,10 +466,12 @@ export interface GoogleGenAIProviderConfig extends BaseLLMConfig {
  */
 export interface OllamaConfig extends BaseLLMConfig {
     provider: "ollama";
-    baseUrl?: string;
-    format?: string;
-    keepAlive?: string;
+    baseUrl?: string; // Defaults to OLLAMA_HOST or http://localhost:11434
+    format?: string; // e.g. "json" to force JSON output
+    keepAlive?: string | number; // How long the model stays loaded, e.g. "5m", or seconds; 0 unloads it after the call
     numKeep?: number;
+    topK?: number;
+    topP?: number;
 }
 
 /**
@@ -180,6 +491,7 @@ export type LLMConfig =
     | AnthropicConfig
     | BedrockConfig
     | GrokConfig
+    | OpenAICompatibleConfig
     | GoogleGenAIProviderConfig
     | OllamaConfig
     | OtherProviderConfig;
@@ -195,10 +507,70 @@ export type ConfigForProvider<P extends LLMProvider> = P extends "openai"
     ? BedrockConfig
     : P extends "grok"
     ? GrokConfig
+    : P extends "openai-compatible"
+    ? OpenAICompatibleConfig
     : P extends "ollama"
     ? OllamaConfig
     : OtherProviderConfig;
 
+/**
+ * Supported embedding providers
+ */
+export type EmbeddingProviderName = "openai" | "genai" | "bedrock" | "hash" | string;
+
+/**
+ * Base configuration options common to all embedding providers
+ */
+export interface BaseEmbeddingConfig {
+    provider: EmbeddingProviderName;
+    model: string;
+    dimensions?: number; // Requested output dimensionality, where supported
+}
+
+/**
+ * OpenAI embedding configuration options
+ */
+export interface OpenAIEmbeddingConfig extends BaseEmbeddingConfig {
+    provider: "openai";
+    apiKey?: string;
+}
+
+/**
+ * Google Generative AI embedding configuration options
+ */
+export interface GoogleGenAIEmbeddingConfig extends BaseEmbeddingConfig {
+    provider: "genai";
+    apiKey?: string;
+}
+
+/**
+ * AWS Bedrock embedding configuration options
+ * Supports Amazon Titan and Cohere embedding models
+ */
+export interface BedrockEmbeddingConfig extends BaseEmbeddingConfig {
+    provider: "bedrock";
+    awsRegion?: string;
+    awsAccessKeyId?: string;
+    awsSecretAccessKey?: string;
+    awsSessionToken?: string;
+}
+
+/**
+ * Local deterministic hashing embedder configuration (no network, for tests)
+ */
+export interface HashEmbeddingConfig extends BaseEmbeddingConfig {
+    provider: "hash";
+}
+
+/**
+ * Union type of all supported embedding configurations
+ */
+export type EmbeddingConfig =
+    | OpenAIEmbeddingConfig
+    | GoogleGenAIEmbeddingConfig
+    | BedrockEmbeddingConfig
+    | HashEmbeddingConfig;
+
 /**
  * Unified batch status across providers
  */
@@ -253,15 +625,57 @@ export interface BatchItemResult<TOutput> {
 }
 
 /**
- * A prompt template, either as a string with variables or a function
+ * A prompt template, either as a string with variables or a function.
+ * String variables that evaluate to content parts (e.g. an image) and
+ * functions returning content parts produce a multimodal prompt.
  */
-export type PromptTemplate<TInput> = string | ((input: TInput) => string);
+export type PromptTemplate<TInput> = string | ((input: TInput) => MessageContent);
 
 /**
  * A function that parses the raw LLM output into a structured format
  */
 export type ResponseParser<TOutput> = (rawResponse: string) => TOutput;
 
+/**
+ * Lifecycle hooks of an LLMNode, for logging, metrics and debugging. Hooks
+ * run synchronously within the call; an error thrown by a hook fails the call.
+ */
+export interface NodeHooks {
+    /**
+     * Called before each provider call, including each tool loop and repair
+     * call, and before a stream is opened
+     */
+    beforePrompt?(event: { prompt: PromptInput; options?: InvokeOptions }): void;
+
+    /**
+     * Called after each successful provider call, and when a stream ends
+     */
+    afterResponse?(event: {
+        prompt: PromptInput;
+        response: LLMResponse;
+        tokenUsage: TokenUsage;
+        latencyMs: number;
+        retries: number; // Failed attempts retried under llmConfig.retry
+        cacheHit: boolean; // Served from llmConfig.cache
+    }): void;
+
+    /**
+     * Called when the parser throws on a response, before the error is
+     * handled or rethrown
+     */
+    onParseError?(event: { error: unknown; rawOutput: string }): void;
+
+    /**
+     * Called before waiting for each retry of a failed provider call
+     */
+    onRetry?(attempt: RetryAttempt): void;
+
+    /**
+     * Called for each chunk StreamNode yields
+     */
+    onStreamChunk?(chunk: StreamChunk): void;
+}
+
 /**
  * Configuration options for all LLM nodes
  */
@@ -269,6 +683,12 @@ export type GeneralNodeOptions<TInput, TOutput> = {
     promptTemplate: PromptTemplate<TInput>;
     llmConfig: LLMConfig;
     inputPreprocessor?: (input: TInput) => any;
+    provider?: ILLMProvider; // Pre-built provider instance; skips createProvider(llmConfig)
+    tools?: ToolDefinition[]; // Tools the model may call; execute() runs them until a final answer
+    maxToolIterations?: number; // Maximum LLM calls that may request tools (default: 5)
+    budget?: Budget | BudgetLimits; // Limits on this node's spend; share a Budget to cap several nodes together
+    hooks?: NodeHooks; // Lifecycle callbacks for logging and metrics
+    tracer?: Tracer; // Tracer for this node's spans (default: the active span's tracer, then setTracer's)
 };
 
 /**
@@ -5,15 +5,52 @@ export {
     LLMConfig,
     OpenAIConfig,
     AnthropicConfig,
+    PromptCachingConfig,
+    GrokConfig,
+    OllamaConfig,
+    OpenAICompatibleConfig,
+    OpenAICompatibleCapabilities,
     BaseNodeOptions,
     GeneralNodeOptions,
     PromptTemplate,
     ResponseParser,
+    RetryPolicy,
+    RetryAttempt,
+    NodeHooks,
+    RateLimits,
     // Token tracking types
     TokenUsage,
     UsageRecord,
+    ExecutionResult,
+    ExecutionMetadata,
+    LLMCallRecord,
+    Citation,
+    WebSource,
     // Streaming types
     StreamChunk,
+    // Conversation types
+    ChatMessage,
+    ChatRole,
+    ThinkingBlock,
+    PromptInput,
+    // Multimodal content types
+    MessageContent,
+    ContentPart,
+    TextPart,
+    ImagePart,
+    DocumentPart,
+    MediaSource,
+    CachePoint,
+    // Tool calling types
+    ToolCall,
+    ToolSpec,
+    ToolChoice,
+    InvokeOptions,
+    ResponseFormat,
+    ToolDefinition,
+    ToolInvocation,
+    ToolLoopStep,
+    ToolLoopResult,
     // Batch processing types
     BatchStatus,
     BatchMetadata,
@@ -22,13 +59,119 @@ export {
 } from "./core/types";
 export { 
     getApiKeyEnvVar,
-    createProvider
+    createProvider,
+    createEmbeddingProvider,
+    registerProvider,
+    unregisterProvider,
+    getRegisteredProviders,
+    ProviderFactory
 } from "./core/modelFactory";
 
+export { defineTool, toToolSpec } from "./core/tools";
+export {
+    textPart,
+    imageFromFile,
+    imageFromBuffer,
+    imageFromBase64,
+    imageFromUrl,
+    pdfFromFile,
+    pdfFromBuffer,
+    pdfFromBase64,
+    pdfFromUrl,
+    concatContent,
+    contentToText,
+} from "./core/content";
+export { describeZodSchema, describeJsonSchema, formatZodIssues } from "./core/schema";
+export {
+    ExecutionContext,
+    getExecutionContext,
+    trackUsage,
+    trackExecution,
+    sumTokenUsage,
+    addTokenUsage,
+} from "./core/executionContext";
+export { withRetry, isRetryableError, getRetryAfterMs } from "./core/retry";
+export {
+    RateLimiter,
+    RateLimitLease,
+    getSharedRateLimiter,
+    mapWithConcurrency,
+} from "./core/rateLimiter";
+export {
+    CacheStore,
+    CacheConfig,
+    MemoryCacheStore,
+    FileCacheStore,
+    createCacheKey,
+} from "./core/cache";
+export {
+    ModelPricing,
+    CostBreakdown,
+    CostReport,
+    registerModelPricing,
+    unregisterModelPricing,
+    getModelPricing,
+    estimateCost,
+    calculateCost,
+} from "./core/pricing";
+export {
+    Tracer,
+    Span,
+    SpanData,
+    SpanKind,
+    SpanAttributes,
+    SpanAttributeValue,
+    SpanExporter,
+    ConsoleSpanExporter,
+    OTLPJsonExporter,
+    OTLPJsonExporterOptions,
+    setTracer,
+    getTracer,
+    getActiveSpan,
+    toOTLPJson,
+} from "./core/tracing";
+export {
+    Budget,
+    BudgetLimits,
+    BudgetExceededError,
+    BudgetReservation,
+    withBudget,
+    getActiveBudgets,
+} from "./core/budget";
+
 // Provider exports
-export { ILLMProvider, LLMResponse, ProviderBatchRequest, ProviderBatchResponse, ProviderBatchItemResult } from "./core/providers/ILLMProvider";
+export { ILLMProvider, LLMResponse, StopReason, ProviderBatchRequest, ProviderBatchResponse, ProviderBatchItemResult } from "./core/providers/ILLMProvider";
 export { OpenAIProvider } from "./core/providers/OpenAIProvider";
 export { AnthropicProvider } from "./core/providers/AnthropicProvider";
+export { OllamaProvider } from "./core/providers/OllamaProvider";
+export { OpenAICompatibleProvider } from "./core/providers/OpenAICompatibleProvider";
+export { MockProvider, MockResponse, MockCall } from "./core/providers/MockProvider";
+export { CassetteProvider, CassetteMode, Cassette, CassetteInteraction } from "./core/providers/CassetteProvider";
+
+// Embedding exports
+export { IEmbeddingProvider, EmbeddingResponse, EmbeddingPurpose } from "./core/providers/IEmbeddingProvider";
+export { OpenAIEmbeddingProvider } from "./core/providers/OpenAIEmbeddingProvider";
+export { GoogleGenAIEmbeddingProvider } from "./core/providers/GoogleGenAIEmbeddingProvider";
+export { BedrockEmbeddingProvider } from "./core/providers/BedrockEmbeddingProvider";
+export { HashEmbeddingProvider } from "./core/providers/HashEmbeddingProvider";
+export {
+    EmbeddingConfig,
+    OpenAIEmbeddingConfig,
+    GoogleGenAIEmbeddingConfig,
+    BedrockEmbeddingConfig,
+    HashEmbeddingConfig,
+} from "./core/types";
+
+// Retrieval exports
+export {
+    InMemoryVectorStore,
+    cosineSimilarity,
+    chunkText,
+    VectorStoreEntry,
+    SerializedVectorStore,
+    VectorSearchOptions,
+    ChunkingOptions,
+} from "./retrieval";
 
 // Parser exports
 export { jsonParser, jsonFieldParser } from "./parsers/json";
@@ -48,6 +191,8 @@ export {
     ChainNode,
     RAGNode,
     StreamNode,
+    ConversationNode,
+    AgentNode,
     // Utility nodes
     DataEnricherNode,
     MergeNode,
@@ -60,4 +205,8 @@ export {
     Document,
     RetrievalResult,
     RAGResponse,
+    Retriever,
+    AgentStep,
+    AgentResult,
+    AgentStopReason,
 } from "./nodes";
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "@jest/globals";
+import { z } from "zod";
+import { AgentNode } from "./AgentNode";
+import { MockProvider } from "../core/providers/MockProvider";
+import { defineTool } from "../core/tools";
+import { LLMConfig } from "../core/types";
+
+const config: LLMConfig = { provider: "mock", model: "mock-model" };
+
+const lookup = defineTool({
+    name: "lookup",
+    description: "Look up a fact",
+    inputSchema: z.object({ topic: z.string() }),
+    handler: async ({ topic }) => `${topic} is 42`,
+});
+
+describe("AgentNode", () => {
+    it("calls tools until the model answers, then parses the answer", async () => {
+        const provider = new MockProvider({
+            responses: [{ toolCalls: [{ name: "lookup", arguments: { topic: "answer" } }] }, "42"],
+        });
+        const agent = new AgentNode<{}, number>({
+            promptTemplate: "What is the answer?",
+            llmConfig: config,
+            tools: [lookup],
+            parser: (text) => Number(text),
+            provider,
+        });
+
+        const result = await agent.execute({});
+
+        expect(result.output).toBe(42);
+        expect(result.stopReason).toBe("final_answer");
+        expect(result.steps.map((step) => step.toolInvocations.length)).toEqual([1, 0]);
+    });
+
+    it("reports final answers that fail to parse to the onParseError hook", async () => {
+        const parseErrors: string[] = [];
+        const agent = new AgentNode<{}, number>({
+            promptTemplate: "What is the answer?",
+            llmConfig: config,
+            tools: [lookup],
+            parser: (text) => {
+                throw new Error(`not a number: ${text}`);
+            },
+            hooks: { onParseError: ({ rawOutput }) => parseErrors.push(rawOutput) },
+            provider: new MockProvider({ responses: ["forty-two"] }),
+        });
+
+        await expect(agent.execute({})).rejects.toThrow("not a number: forty-two");
+        expect(parseErrors).toEqual(["forty-two"]);
+    });
+});
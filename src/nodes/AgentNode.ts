@@ -0,0 +1,309 @@
+import { LLMNode } from "../core/LLMNode";
+import {
+    ChatMessage,
+    GeneralNodeOptions,
+    ResponseParser,
+    TokenUsage,
+    ToolInvocation,
+} from "../core/types";
+import { toChatMessages } from "../core/messages";
+import { concatContent } from "../core/content";
+import { executeToolCall, formatToolResult, toToolSpec } from "../core/tools";
+import { addTokenUsage, normalizeTokenUsage } from "../core/executionContext";
+
+/**
+ * Why an agent run stopped
+ * - "final_answer": the model answered without requesting tools
+ * - "max_steps": the step limit was reached
+ * - "token_budget": the run used up its token budget
+ * - "timeout": the wall-clock limit was reached
+ */
+export type AgentStopReason = "final_answer" | "max_steps" | "token_budget" | "timeout";
+
+/**
+ * One LLM call in an agent run
+ */
+export type AgentStep = {
+    /** Index of this step in the run */
+    step: number;
+    /** Text the model produced in this step (its reasoning, or the final answer) */
+    content: string;
+    /** Tools the model called in this step */
+    toolInvocations: ToolInvocation[];
+    /** Token usage of this step's LLM call */
+    tokenUsage: TokenUsage;
+    /** Time taken by the LLM call and its tool calls */
+    durationMs: number;
+};
+
+/**
+ * Result of an agent run
+ */
+export type AgentResult<TOutput> = {
+    /** The final answer, run through the node's parser */
+    output: TOutput;
+    /** Why the run stopped */
+    stopReason: AgentStopReason;
+    /** The plan produced before acting, if planning is enabled */
+    plan?: string;
+    /** Trace of every step, including the final answer */
+    steps: AgentStep[];
+    /** Token usage summed across the whole run, including planning */
+    tokenUsage: TokenUsage;
+    /** Wall-clock duration of the run */
+    durationMs: number;
+};
+
+/**
+ * AgentNode
+ *
+ * A specialized LLMNode for open-ended tasks. The model reasons about the task,
+ * calls tools, observes their results and repeats until it gives a final
+ * answer or a budget runs out.
+ *
+ * Key features:
+ * - Reason/act loop over the node's tools
+ * - Optional planning step before acting
+ * - Step, token and wall-clock budgets
+ * - Full trace of every step with tool calls and token usage
+ * - Usage recorded on the node, so getTotalTokenUsage covers the whole run
+ *
+ * Example use cases:
+ * - Research assistants that search and read sources
+ * - Data lookups that need several dependent queries
+ * - Task automation over internal APIs
+ */
+export class AgentNode<TInput, TOutput = string> extends LLMNode<
+    TInput,
+    AgentResult<TOutput>
+> {
+    /**
+     * Maximum number of LLM calls that may request tools
+     * @private
+     */
+    private maxSteps: number;
+
+    /**
+     * Maximum input + output tokens for the run
+     * @private
+     */
+    private tokenBudget?: number;
+
+    /**
+     * Maximum wall-clock time for the run, in milliseconds
+     * @private
+     */
+    private timeoutMs?: number;
+
+    /**
+     * Whether to ask for a plan before acting
+     * @private
+     */
+    private planning: boolean;
+
+    /**
+     * Whether to ask for a final answer when a budget runs out
+     * @private
+     */
+    private finalizeOnLimit: boolean;
+
+    /**
+     * Parser applied to the final answer
+     * @private
+     */
+    private outputParser: ResponseParser<TOutput>;
+
+    /**
+     * Creates a new AgentNode
+     *
+     * @param options Configuration options
+     * @param options.promptTemplate Template describing the task
+     * @param options.llmConfig LLM configuration options
+     * @param options.tools Tools the agent may call
+     * @param options.parser Parser for the final answer (default: returns the text)
+     * @param options.maxSteps Maximum number of LLM calls that may request tools (default: 10)
+     * @param options.tokenBudget Maximum input + output tokens for the run
+     * @param options.timeoutMs Maximum wall-clock time for the run, in milliseconds
+     * @param options.planning Ask the model for a plan before acting (default: false)
+     * @param options.finalizeOnLimit When a budget runs out, make one last call with tools
+     *   disabled to get a final answer; otherwise throw an error carrying the partial
+     *   trace as `steps` (default: true)
+     *
+     * Implementation notes:
+     * - Budgets are checked between steps; a step in progress is never cut short
+     * - A response without tool calls is the final answer
+     * - Tool errors are sent back to the model rather than thrown
+     */
+    constructor(options: {
+        parser?: ResponseParser<TOutput>;
+        maxSteps?: number;
+        tokenBudget?: number;
+        timeoutMs?: number;
+        planning?: boolean;
+        finalizeOnLimit?: boolean;
+    } & GeneralNodeOptions<TInput, AgentResult<TOutput>>) {
+        super({
+            ...options,
+            // Parses the final answer of a run, and the whole response on
+            // single-shot paths such as batch retrieval. Always called through
+            // parse, so parse errors reach the onParseError hook.
+            parser: (rawResponse: string) => ({
+                output: this.outputParser(rawResponse),
+                stopReason: "final_answer",
+                steps: [],
+                tokenUsage: { inputTokens: 0, outputTokens: 0 },
+                durationMs: 0,
+            }),
+        });
+
+        this.outputParser =
+            options.parser ?? ((text: string) => text as unknown as TOutput);
+        this.maxSteps = options.maxSteps ?? 10;
+        this.tokenBudget = options.tokenBudget;
+        this.timeoutMs = options.timeoutMs;
+        this.planning = options.planning ?? false;
+        this.finalizeOnLimit = options.finalizeOnLimit ?? true;
+
+        if (this.maxSteps < 1) {
+            throw new Error("maxSteps must be at least 1");
+        }
+    }
+
+    /**
+     * Run the agent on the task
+     *
+     * @param input The input data
+     * @returns The final answer with the full trace of the run
+     */
+    async execute(input: TInput): Promise<AgentResult<TOutput>> {
+        const startTime = Date.now();
+        const toolSpecs = this.tools.map(toToolSpec);
+        const messages: ChatMessage[] = [...toChatMessages(this.generatePrompt(input))];
+        const steps: AgentStep[] = [];
+        const tokenUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+        let plan: string | undefined;
+        if (this.planning) {
+            // Append the planning instructions to the task so user turns
+            // don't follow each other
+            const last = messages[messages.length - 1];
+            if (last?.role === "user") {
+                messages[messages.length - 1] = {
+                    ...last,
+                    content: concatContent([last.content, AgentNode.PLANNING_INSTRUCTIONS]),
+                };
+            } else {
+                messages.push({ role: "user", content: AgentNode.PLANNING_INSTRUCTIONS });
+            }
+
+            const response = await this.invokeProvider(messages);
+            this.addUsage(tokenUsage, response.usage);
+            plan = response.content.trim();
+            messages.push(
+                { role: "assistant", content: plan },
+                { role: "user", content: "Carry out the plan." }
+            );
+        }
+
+        let stopReason: AgentStopReason | undefined;
+        while (true) {
+            stopReason = this.checkLimits(steps.length, tokenUsage, startTime);
+            if (stopReason && !this.finalizeOnLimit) {
+                // Attach the trace so callers can inspect the partial run
+                throw Object.assign(
+                    new Error(`Agent stopped before reaching a final answer: ${stopReason}`),
+                    { stopReason, plan, steps, tokenUsage }
+                );
+            }
+
+            const stepStart = Date.now();
+            const response = await this.invokeProvider(
+                messages,
+                toolSpecs.length > 0
+                    ? { tools: toolSpecs, ...(stopReason && { toolChoice: "none" as const }) }
+                    : undefined
+            );
+            const stepUsage = this.addUsage(tokenUsage, response.usage);
+
+            const toolCalls = stopReason ? [] : response.toolCalls ?? [];
+            const toolInvocations = await Promise.all(
+                toolCalls.map((call) => executeToolCall(this.tools, call, steps.length))
+            );
+
+            steps.push({
+                step: steps.length,
+                content: response.content,
+                toolInvocations,
+                tokenUsage: stepUsage,
+                durationMs: Date.now() - stepStart,
+            });
+
+            if (toolCalls.length === 0) {
+                return {
+                    output: this.parse(response.content).output,
+                    stopReason: stopReason ?? "final_answer",
+                    ...(plan !== undefined && { plan }),
+                    steps,
+                    tokenUsage,
+                    durationMs: Date.now() - startTime,
+                };
+            }
+
+            messages.push({
+                role: "assistant",
+                content: response.content,
+                toolCalls,
+                ...(response.thinkingBlocks && { thinkingBlocks: response.thinkingBlocks }),
+            });
+            for (const invocation of toolInvocations) {
+                messages.push({
+                    role: "tool",
+                    content: formatToolResult(invocation),
+                    toolCallId: invocation.id,
+                    name: invocation.name,
+                });
+            }
+        }
+    }
+
+    /**
+     * Check the budgets before a step
+     *
+     * @returns The exhausted budget, or undefined if the agent may keep acting
+     */
+    private checkLimits(
+        stepCount: number,
+        tokenUsage: TokenUsage,
+        startTime: number
+    ): AgentStopReason | undefined {
+        if (this.timeoutMs !== undefined && Date.now() - startTime >= this.timeoutMs) {
+            return "timeout";
+        }
+        if (
+            this.tokenBudget !== undefined &&
+            tokenUsage.inputTokens + tokenUsage.outputTokens >= this.tokenBudget
+        ) {
+            return "token_budget";
+        }
+        if (stepCount >= this.maxSteps) {
+            return "max_steps";
+        }
+        return undefined;
+    }
+
+    /**
+     * Add a step's usage to the run total and return it normalized
+     */
+    private addUsage(total: TokenUsage, usage?: TokenUsage): TokenUsage {
+        const stepUsage = normalizeTokenUsage(usage);
+        addTokenUsage(total, stepUsage);
+        return stepUsage;
+    }
+
+    /**
+     * Prompt for the optional planning step
+     */
+    private static readonly PLANNING_INSTRUCTIONS =
+        "Before taking any action, write a short numbered plan for completing this task, " +
+        "including which tools you expect to use. Do not call any tools yet.";
+}
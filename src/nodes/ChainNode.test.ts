@@ -0,0 +1,96 @@
+import { describe, expect, it } from "@jest/globals";
+import { ChainNode } from "./ChainNode";
+import { MockProvider } from "../core/providers/MockProvider";
+import { LLMConfig } from "../core/types";
+
+const config: LLMConfig = { provider: "mock", model: "mock-model" };
+
+const step = (question: string, reasoning: string, finalAnswer?: string) =>
+    `QUESTION: ${question}\nREASONING: ${reasoning}` +
+    (finalAnswer !== undefined ? `\nFINAL ANSWER: ${finalAnswer}` : "");
+
+describe("ChainNode", () => {
+    it("runs steps until one reaches a conclusion", async () => {
+        const provider = new MockProvider({
+            responses: [
+                step("What is 6 * 7?", "Multiply the numbers."),
+                step("Is the product right?", "6 * 7 = 42.", "42"),
+                step("Unused", "Never requested."),
+            ],
+        });
+        const node = new ChainNode<{ problem: string }, number>({
+            promptTemplate: "{{problem}}",
+            llmConfig: config,
+            outputParser: (text) => Number(text),
+            provider,
+        });
+
+        const { output, steps } = await node.execute({ problem: "6 * 7" });
+
+        expect(output).toBe(42);
+        expect(steps).toEqual([
+            { question: "What is 6 * 7?", reasoning: "Multiply the numbers." },
+            { question: "Is the product right?", reasoning: "6 * 7 = 42.", conclusion: "42" },
+        ]);
+        expect(provider.getCalls()).toHaveLength(2);
+        expect(provider.getPrompts()[1]).toContain(
+            "PREVIOUS STEPS:\nStep 1\nQUESTION: What is 6 * 7?\nREASONING: Multiply the numbers."
+        );
+    });
+
+    it("uses every step and ignores early conclusions when early stopping is off", async () => {
+        const provider = new MockProvider({
+            responses: [
+                step("First", "Looks like 41.", "41"),
+                step("Second", "Actually 42.", "42"),
+            ],
+        });
+        const node = new ChainNode<string, string>({
+            promptTemplate: "{{input}}",
+            llmConfig: config,
+            maxSteps: 2,
+            allowEarlyStopping: false,
+            provider,
+        });
+
+        const { output, steps } = await node.execute("problem");
+
+        expect(output).toBe("42");
+        expect(steps[0].conclusion).toBeUndefined();
+        expect(provider.getPrompts()[1]).toContain("You MUST include the FINAL ANSWER line.");
+    });
+
+    it("falls back to the last step's reasoning when no step concludes", async () => {
+        const node = new ChainNode<string, string>({
+            promptTemplate: "{{input}}",
+            llmConfig: config,
+            maxSteps: 2,
+            provider: new MockProvider({
+                responses: ["Thinking out loud.", "Probably 42."],
+            }),
+        });
+
+        const { output, steps } = await node.execute("problem");
+
+        expect(output).toBe("Probably 42.");
+        expect(steps.map((s) => s.question)).toEqual(["Step 1", "Step 2"]);
+    });
+
+    it("reports final outputs that fail to parse to the onParseError hook", async () => {
+        const parseErrors: string[] = [];
+        const node = new ChainNode<string, number>({
+            promptTemplate: "{{input}}",
+            llmConfig: config,
+            outputParser: (text) => {
+                throw new Error(`not a number: ${text}`);
+            },
+            hooks: { onParseError: ({ rawOutput }) => parseErrors.push(rawOutput) },
+            provider: new MockProvider({ responses: [step("Q", "R", "forty-two")] }),
+        });
+
+        await expect(node.execute("problem")).rejects.toThrow(
+            "Failed to parse final output of reasoning chain: not a number: forty-two"
+        );
+        expect(parseErrors).toEqual(["forty-two"]);
+    });
+});
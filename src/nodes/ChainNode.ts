@@ -1,5 +1,6 @@
 import { LLMNode } from "../core/LLMNode";
-import { GeneralNodeOptions, LLMConfig, PromptTemplate } from "../core/types";
+import { GeneralNodeOptions, LLMConfig, MessageContent, PromptTemplate } from "../core/types";
+import { concatContent } from "../core/content";
 
 /**
  * Step in a reasoning chain
@@ -9,6 +10,8 @@ export type ReasoningStep = {
     question: string;
     /** The reasoning or answer for this step */
     reasoning: string;
+    /** The final answer, if this step reached a conclusion */
+    conclusion?: string;
 };
 
 /**
@@ -63,6 +66,12 @@ export class ChainNode<TInput, TOutput> extends LLMNode<
      */
     private reasoningStrategy: "forward" | "backward" | "recursive";
 
+    /**
+     * Optional parser applied to the final conclusion
+     * @private
+     */
+    private outputParser?: (finalReasoning: string) => TOutput;
+
     /**
      * Creates a new ChainNode
      *
@@ -86,19 +95,27 @@ export class ChainNode<TInput, TOutput> extends LLMNode<
         reasoningStrategy?: "forward" | "backward" | "recursive";
         outputParser?: (finalReasoning: string) => TOutput;
     } & GeneralNodeOptions<TInput, ChainResult<TOutput>>) {
-        // Implementation will:
-        // 1. Store chain configuration options
-        // 2. Configure reasoning strategy
-        // 3. Set up parser for final output
-        // 4. Initialize parent with custom execution flow
         super({
             ...options,
-            parser: (rawResponse: string) => ({} as ChainResult<TOutput>), // Will be implemented
+            // Used for single-shot paths such as batch retrieval, where the
+            // whole response is treated as one concluding step
+            parser: (rawResponse: string) => {
+                const step = this.parseStep(rawResponse, 0);
+                return {
+                    output: this.parseFinalReasoning(this.extractFinalReasoning([step])),
+                    steps: [step],
+                };
+            },
         });
 
         this.maxSteps = options.maxSteps ?? 5;
         this.allowEarlyStopping = options.allowEarlyStopping ?? true;
         this.reasoningStrategy = options.reasoningStrategy ?? "forward";
+        this.outputParser = options.outputParser;
+
+        if (this.maxSteps < 1) {
+            throw new Error("maxSteps must be at least 1");
+        }
     }
 
     /**
@@ -114,12 +131,24 @@ export class ChainNode<TInput, TOutput> extends LLMNode<
      * - Extract the final output from the completed chain
      */
     async execute(input: TInput): Promise<ChainResult<TOutput>> {
-        // Will implement:
-        // 1. Initialize the reasoning chain
-        // 2. Execute the appropriate reasoning strategy
-        // 3. Process each step and build the chain
-        // 4. Extract and validate final output
-        return {} as ChainResult<TOutput>; // Placeholder
+        const steps: ReasoningStep[] = [];
+
+        while (steps.length < this.maxSteps) {
+            const step = await this.generateNextStep(input, steps);
+            steps.push(step);
+
+            // Stop once a conclusion is reached, unless the caller wants the
+            // full step budget used
+            if (step.conclusion !== undefined && this.allowEarlyStopping) {
+                break;
+            }
+        }
+
+        const finalReasoning = this.extractFinalReasoning(steps);
+        return {
+            output: this.parse(finalReasoning, (text) => this.parseFinalReasoning(text)),
+            steps,
+        };
     }
 
     /**
@@ -139,33 +168,70 @@ export class ChainNode<TInput, TOutput> extends LLMNode<
         input: TInput,
         currentSteps: ReasoningStep[]
     ): Promise<ReasoningStep> {
-        // Will implement:
-        // 1. Build prompt with current context and previous steps
-        // 2. Make LLM call for next step
-        // 3. Parse response into a structured reasoning step
-        // 4. Validate the step is meaningful and advances the reasoning
-        return {} as ReasoningStep; // Placeholder
+        const prompt = this.createStepPrompt(
+            input,
+            currentSteps,
+            this.reasoningStrategy
+        );
+        const response = await this.invokeProvider(prompt);
+        const step = this.parseStep(response.content, currentSteps.length);
+
+        // Only the last step may conclude when early stopping is disabled
+        const isFinalStep = currentSteps.length + 1 >= this.maxSteps;
+        if (!this.allowEarlyStopping && !isFinalStep) {
+            delete step.conclusion;
+        }
+
+        if (!step.reasoning && step.conclusion === undefined) {
+            throw new Error(
+                `Reasoning step ${currentSteps.length + 1} produced an empty response`
+            );
+        }
+
+        return step;
     }
 
     /**
-     * Extract the final output from the completed reasoning chain
+     * Extract the final conclusion from the completed reasoning chain
      *
      * @param steps The complete reasoning chain
-     * @returns The final output
+     * @returns The text of the final conclusion
+     */
+    private extractFinalReasoning(steps: ReasoningStep[]): string {
+        if (steps.length === 0) {
+            throw new Error("Cannot extract output from an empty reasoning chain");
+        }
+
+        // Prefer the most recent explicit conclusion; fall back to the last
+        // step's reasoning if the model never stated one
+        const concludingStep = [...steps]
+            .reverse()
+            .find((step) => step.conclusion !== undefined);
+        return (
+            concludingStep?.conclusion ?? steps[steps.length - 1].reasoning
+        ).trim();
+    }
+
+    /**
+     * Apply the output parser, if any, to the final conclusion
      *
-     * Implementation notes:
-     * - Extract conclusion from final step
-     * - Apply output parser if provided
-     * - Validate the output meets requirements
-     * - Handle potential errors in conclusion
+     * @param finalReasoning The text of the final conclusion
+     * @returns The final output
      */
-    private extractFinalOutput(steps: ReasoningStep[]): TOutput {
-        // Will implement:
-        // 1. Extract the final conclusion
-        // 2. Apply custom output parser if provided
-        // 3. Validate output format
-        // 4. Handle edge cases where conclusion is unclear
-        return {} as TOutput; // Placeholder
+    private parseFinalReasoning(finalReasoning: string): TOutput {
+        if (!this.outputParser) {
+            return finalReasoning as unknown as TOutput;
+        }
+
+        try {
+            return this.outputParser(finalReasoning);
+        } catch (error) {
+            const errorMessage =
+                error instanceof Error ? error.message : String(error);
+            throw new Error(
+                `Failed to parse final output of reasoning chain: ${errorMessage}`
+            );
+        }
     }
 
     /**
@@ -186,12 +252,103 @@ export class ChainNode<TInput, TOutput> extends LLMNode<
         input: TInput,
         currentSteps: ReasoningStep[],
         strategy: "forward" | "backward" | "recursive"
-    ): string {
-        // Will implement:
-        // 1. Format previous steps as context
-        // 2. Add strategy-specific instructions
-        // 3. Include the original problem statement
-        // 4. Request next step in the reasoning process
-        return ""; // Placeholder
+    ): MessageContent {
+        const problem = this.generatePrompt(input);
+        const stepNumber = currentSteps.length + 1;
+        const isFinalStep = stepNumber >= this.maxSteps;
+
+        const previousSteps = currentSteps
+            .map(
+                (step, index) =>
+                    `Step ${index + 1}\nQUESTION: ${step.question}\nREASONING: ${step.reasoning}`
+            )
+            .join("\n\n");
+
+        let prompt = `
+
+REASONING STRATEGY:
+${ChainNode.STRATEGY_INSTRUCTIONS[strategy]}
+`;
+
+        if (previousSteps) {
+            prompt += `
+PREVIOUS STEPS:
+${previousSteps}
+`;
+        }
+
+        prompt += `
+You are now on step ${stepNumber} of at most ${this.maxSteps}. Take exactly ONE reasoning step that advances the solution. Do not repeat previous steps.
+
+Respond in exactly this format:
+QUESTION: <the question this step answers>
+REASONING: <your reasoning for this step>
+`;
+
+        if (isFinalStep) {
+            prompt += `FINAL ANSWER: <the final answer to the problem>
+
+This is the final step. You MUST include the FINAL ANSWER line.
+`;
+        } else if (this.allowEarlyStopping) {
+            prompt += `FINAL ANSWER: <include this line ONLY if the problem is now fully solved>
+`;
+        } else {
+            prompt += `
+Do NOT give a final answer yet; more steps will follow.
+`;
+        }
+
+        return concatContent(["PROBLEM:\n", problem, prompt], "");
     }
+
+    /**
+     * Parse a raw step response into a reasoning step
+     *
+     * @param rawResponse The raw LLM response for a single step
+     * @param index Zero-based index of the step in the chain
+     * @returns The parsed reasoning step
+     */
+    private parseStep(rawResponse: string, index: number): ReasoningStep {
+        const text = rawResponse.trim();
+
+        const questionMatch = text.match(
+            /QUESTION:\s*([\s\S]*?)(?=\n\s*REASONING:|\n\s*FINAL ANSWER:|$)/i
+        );
+        const reasoningMatch = text.match(
+            /REASONING:\s*([\s\S]*?)(?=\n\s*FINAL ANSWER:|$)/i
+        );
+        const conclusionMatch = text.match(/FINAL ANSWER:\s*([\s\S]*)$/i);
+
+        // If the model ignored the format, treat the whole response as reasoning
+        const reasoning =
+            reasoningMatch?.[1].trim() ??
+            (questionMatch || conclusionMatch ? "" : text);
+
+        const step: ReasoningStep = {
+            question: questionMatch?.[1].trim() || `Step ${index + 1}`,
+            reasoning,
+        };
+
+        if (conclusionMatch && conclusionMatch[1].trim()) {
+            step.conclusion = conclusionMatch[1].trim();
+        }
+
+        return step;
+    }
+
+    /**
+     * Strategy-specific instructions included in every step prompt
+     */
+    private static readonly STRATEGY_INSTRUCTIONS: Record<
+        "forward" | "backward" | "recursive",
+        string
+    > = {
+        forward:
+            "Work forward from the information given in the problem. Each step should build on the previous steps and move closer to the solution.",
+        backward:
+            "Work backward from the goal. Start by proposing candidate answers, then use each following step to verify or rule them out against the information given in the problem.",
+        recursive:
+            "Break the problem into smaller subproblems. Each step should identify and solve one subproblem, then combine the solved subproblems into the overall answer.",
+    };
 }
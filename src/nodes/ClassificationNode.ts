@@ -1,5 +1,6 @@
 import { LLMNode } from "../core/LLMNode";
-import { GeneralNodeOptions, LLMConfig, PromptTemplate } from "../core/types";
+import { GeneralNodeOptions, LLMConfig, MessageContent, PromptTemplate } from "../core/types";
+import { concatContent } from "../core/content";
 import { jsonParser } from "../parsers/json";
 
 /**
@@ -201,12 +202,7 @@ export class ClassificationNode<
             // If it's a string template, wrap it with content markers and append instructions
             return (input: TInput) => {
                 // Generate the content portion with the template
-                const content = basePrompt.replace(
-                    /\{\{([^}]+)\}\}/g,
-                    (_, key) => {
-                        return String((input as any)[key] ?? "");
-                    }
-                );
+                const content = this.renderTemplate(basePrompt, input, false);
                 // Then append the classification instructions
                 return this.appendClassificationInstructions(content);
             };
@@ -215,12 +211,15 @@ export class ClassificationNode<
 
     /**
      * Append classification-specific instructions to a prompt
-     * @param prompt The base prompt text
+     * @param prompt The base prompt text or content parts
      * @returns Enhanced prompt with classification instructions
      */
-    private appendClassificationInstructions(prompt: string): string {
+    private appendClassificationInstructions(prompt: MessageContent): MessageContent {
         // Make sure the content to classify is clearly marked
-        const result = `CONTENT TO CLASSIFY:\n${prompt}\n\n${this.getClassificationInstructions()}`;
+        const result = concatContent(
+            ["CONTENT TO CLASSIFY:\n", prompt, `\n\n${this.getClassificationInstructions()}`],
+            ""
+        );
         return result;
     }
 
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "@jest/globals";
+import { ConversationNode } from "./ConversationNode";
+import { MockProvider } from "../core/providers/MockProvider";
+import { LLMConfig } from "../core/types";
+
+const config: LLMConfig = { provider: "mock", model: "mock-model" };
+
+function createNode(
+    provider: MockProvider,
+    options: { maxMessages?: number; maxHistoryTokens?: number } = {}
+) {
+    return new ConversationNode<{ message: string }>({
+        promptTemplate: "{{message}}",
+        llmConfig: config,
+        provider,
+        initialHistory: [{ role: "system", content: "Be brief." }],
+        ...options,
+    });
+}
+
+describe("ConversationNode", () => {
+    it("sends the history with each message and records the exchange", async () => {
+        const provider = new MockProvider({ responses: ["Hi!", "Fine."] });
+        const node = createNode(provider);
+
+        await node.execute({ message: "Hello" });
+        await node.execute({ message: "How are you?" });
+
+        expect(provider.getCalls()[1].messages.map((message) => message.content)).toEqual([
+            "Be brief.",
+            "Hello",
+            "Hi!",
+            "How are you?",
+        ]);
+        expect(node.getHistory()).toHaveLength(5);
+    });
+
+    it("keeps the latest maxMessages turns and every system message", async () => {
+        const provider = new MockProvider({ responses: ["a1", "a2", "a3"] });
+        const node = createNode(provider, { maxMessages: 3 });
+
+        for (const message of ["q1", "q2", "q3"]) {
+            await node.execute({ message });
+        }
+
+        // The oldest kept turn would be a dangling assistant reply, so it is dropped too
+        expect(node.getHistory().map((message) => message.content)).toEqual([
+            "Be brief.",
+            "q3",
+            "a3",
+        ]);
+    });
+
+    it("drops the oldest turns beyond maxHistoryTokens", async () => {
+        const provider = new MockProvider({ responses: ["a".repeat(40), "b".repeat(40)] });
+        const node = createNode(provider, { maxHistoryTokens: 25 });
+
+        await node.execute({ message: "x".repeat(40) });
+        await node.execute({ message: "y".repeat(40) });
+
+        expect(node.getHistory().map((message) => message.content)).toEqual([
+            "Be brief.",
+            "y".repeat(40),
+            "b".repeat(40),
+        ]);
+    });
+
+    it("always keeps the newest exchange, even over the limits", async () => {
+        const provider = new MockProvider({ responses: ["a".repeat(400)] });
+        const node = createNode(provider, { maxMessages: 1, maxHistoryTokens: 10 });
+
+        await node.execute({ message: "x".repeat(400) });
+
+        expect(node.getHistory()).toHaveLength(3);
+    });
+
+    it("does not record a turn whose reply fails to parse", async () => {
+        const node = new ConversationNode<{ message: string }, number>({
+            promptTemplate: "{{message}}",
+            llmConfig: config,
+            provider: new MockProvider({ responses: ["many"] }),
+            parser: (text) => {
+                const value = Number(text);
+                if (Number.isNaN(value)) {
+                    throw new Error(`not a number: ${text}`);
+                }
+                return value;
+            },
+        });
+
+        await expect(node.execute({ message: "How many?" })).rejects.toThrow("not a number");
+        expect(node.getHistory()).toEqual([]);
+    });
+});
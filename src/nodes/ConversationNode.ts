@@ -0,0 +1,193 @@
+import { LLMNode } from "../core/LLMNode";
+import {
+    ChatMessage,
+    GeneralNodeOptions,
+    ResponseParser,
+} from "../core/types";
+import { estimateTokens } from "../core/messages";
+import { contentToText } from "../core/content";
+import { textParser } from "../parsers/structured";
+
+/**
+ * ConversationNode
+ *
+ * A specialized LLMNode for multi-turn conversations.
+ * Each execute() call renders the prompt template as the next user message,
+ * sends it together with the conversation history, and appends both the user
+ * message and the assistant reply to the history.
+ *
+ * Key features:
+ * - History kept between execute() calls
+ * - System, user and assistant turns sent natively to every provider
+ * - Configurable history truncation by message count or estimated tokens
+ * - Optional parser for structured replies (defaults to text)
+ *
+ * Example use cases:
+ * - Support bots and assistants
+ * - Interactive tutoring
+ * - Iterative drafting with follow-up instructions
+ *
+ * A conversation is sequential: don't execute the same instance concurrently.
+ */
+export class ConversationNode<TInput, TOutput = string> extends LLMNode<
+    TInput,
+    TOutput
+> {
+    /**
+     * Conversation turns so far
+     * @private
+     */
+    private history: ChatMessage[];
+
+    /**
+     * Maximum number of non-system messages kept in history
+     * @private
+     */
+    private maxMessages?: number;
+
+    /**
+     * Maximum estimated tokens of non-system messages kept in history
+     * @private
+     */
+    private maxHistoryTokens?: number;
+
+    /**
+     * Custom truncation applied after the built-in limits
+     * @private
+     */
+    private truncate?: (history: ChatMessage[]) => ChatMessage[];
+
+    /**
+     * Creates a new ConversationNode
+     *
+     * @param options Configuration options
+     * @param options.promptTemplate Template for generating each user message
+     * @param options.llmConfig LLM configuration options (providerOptions.systemPrompt sets the system prompt)
+     * @param options.parser Parser for assistant replies (default: text)
+     * @param options.initialHistory Messages to start the conversation with
+     * @param options.maxMessages Maximum number of user/assistant messages to keep
+     * @param options.maxHistoryTokens Maximum estimated tokens of user/assistant messages to keep
+     * @param options.truncate Custom truncation function, applied after maxMessages and maxHistoryTokens
+     *
+     * Implementation notes:
+     * - Truncation drops the oldest messages first; system messages are always kept
+     * - The newest exchange is always kept, even if it alone exceeds the limits
+     * - A turn is only added to history once its reply has been parsed successfully
+     */
+    constructor(options: {
+        parser?: ResponseParser<TOutput>;
+        initialHistory?: ChatMessage[];
+        maxMessages?: number;
+        maxHistoryTokens?: number;
+        truncate?: (history: ChatMessage[]) => ChatMessage[];
+    } & GeneralNodeOptions<TInput, TOutput>) {
+        super({
+            ...options,
+            parser:
+                options.parser ??
+                (textParser() as unknown as ResponseParser<TOutput>),
+        });
+
+        this.history = [...(options.initialHistory ?? [])];
+        this.maxMessages = options.maxMessages;
+        this.maxHistoryTokens = options.maxHistoryTokens;
+        this.truncate = options.truncate;
+    }
+
+    /**
+     * Send the next user message and record the exchange in history
+     *
+     * @param input The input data for the next user message
+     * @returns The parsed assistant reply
+     */
+    async execute(input: TInput): Promise<TOutput> {
+        const userMessage: ChatMessage = {
+            role: "user",
+            content: this.generatePrompt(input),
+        };
+
+        const response = await this.invokeProvider([
+            ...this.history,
+            userMessage,
+        ]);
+        const output = this.parse(response.content);
+
+        this.history = this.truncateHistory([
+            ...this.history,
+            userMessage,
+            { role: "assistant", content: response.content },
+        ]);
+
+        return output;
+    }
+
+    /**
+     * Get the conversation history
+     */
+    getHistory(): ChatMessage[] {
+        return [...this.history];
+    }
+
+    /**
+     * Replace the conversation history
+     */
+    setHistory(history: ChatMessage[]): void {
+        this.history = this.truncateHistory([...history]);
+    }
+
+    /**
+     * Append a message to the history without calling the LLM
+     */
+    addMessage(message: ChatMessage): void {
+        this.history = this.truncateHistory([...this.history, message]);
+    }
+
+    /**
+     * Clear the conversation history
+     *
+     * @param keepSystemMessages Whether to keep system messages (default: true)
+     */
+    clearHistory(keepSystemMessages: boolean = true): void {
+        this.history = keepSystemMessages
+            ? this.history.filter((m) => m.role === "system")
+            : [];
+    }
+
+    /**
+     * Apply the configured truncation limits to a history
+     *
+     * @param history The full history
+     * @returns The truncated history
+     */
+    private truncateHistory(history: ChatMessage[]): ChatMessage[] {
+        const system = history.filter((m) => m.role === "system");
+        let turns = history.filter((m) => m.role !== "system");
+
+        // Always keep the latest exchange
+        const minimum = Math.min(turns.length, 2);
+
+        if (this.maxMessages !== undefined) {
+            const keep = Math.max(this.maxMessages, minimum);
+            turns = turns.slice(Math.max(0, turns.length - keep));
+        }
+
+        if (this.maxHistoryTokens !== undefined) {
+            let tokens = turns.reduce(
+                (total, m) => total + estimateTokens(contentToText(m.content)),
+                0
+            );
+            while (turns.length > minimum && tokens > this.maxHistoryTokens) {
+                tokens -= estimateTokens(contentToText(turns[0].content));
+                turns = turns.slice(1);
+            }
+        }
+
+        // Don't start the conversation with a dangling assistant reply
+        while (turns.length > minimum && turns[0].role === "assistant") {
+            turns = turns.slice(1);
+        }
+
+        const truncated = [...system, ...turns];
+        return this.truncate ? this.truncate(truncated) : truncated;
+    }
+}
@@ -1,4 +1,5 @@
 import { IExecutable } from "../core/types";
+import { traceSpan } from "../core/tracing";
 
 /**
  * DataEnricherNode
@@ -86,10 +87,11 @@ export class DataEnricherNode<TInput, TOutput>
         nextNode: IExecutable<TOutput, TNextOutput>
     ): IExecutable<TInput, TNextOutput> {
         return {
-            execute: async (input: TInput): Promise<TNextOutput> => {
-                const intermediateResult = await this.execute(input);
-                return nextNode.execute(intermediateResult);
-            },
+            execute: (input: TInput): Promise<TNextOutput> =>
+                traceSpan(undefined, "pipeline", {}, async () => {
+                    const intermediateResult = await this.execute(input);
+                    return nextNode.execute(intermediateResult);
+                }),
         };
     }
 }
@@ -1,5 +1,6 @@
 import { LLMNode } from "../core/LLMNode";
-import { GeneralNodeOptions, LLMConfig, PromptTemplate } from "../core/types";
+import { GeneralNodeOptions, LLMConfig, MessageContent, PromptTemplate } from "../core/types";
+import { concatContent } from "../core/content";
 import { jsonParser } from "../parsers/json";
 
 /**
@@ -159,11 +160,11 @@ export class ExtractionNode<
 
     /**
      * Append extraction-specific instructions to a prompt
-     * @param prompt The base prompt text
+     * @param prompt The base prompt text or content parts
      * @returns Enhanced prompt with extraction instructions
      */
-    private appendExtractionInstructions(prompt: string): string {
-        return `${prompt}\n\n${this.getExtractionInstructions()}`;
+    private appendExtractionInstructions(prompt: MessageContent): MessageContent {
+        return concatContent([prompt, this.getExtractionInstructions()]);
     }
 
     /**
@@ -277,15 +278,13 @@ Make sure to:
         // Process each field with an individual LLM call
         for (const field of this.fields) {
             try {
-                // Create a field-specific extraction node
-                const fieldNode = new LLMNode({
-                    promptTemplate: this.createFieldSpecificPrompt(field),
-                    llmConfig: this.llmConfig,
-                    parser: (response: string) => this.parseFieldResponse(response, field.name),
-                });
-
-                // Execute the field extraction
-                const fieldResult = await fieldNode.execute(input);
+                // Extract the field with a prompt built for this call only, so
+                // concurrent executions don't share state and usage is recorded
+                // on this node
+                const response = await this.invokeProvider(
+                    this.createFieldSpecificPrompt(field, input)
+                );
+                const fieldResult = this.parseFieldResponse(response.content, field.name);
 
                 // Merge the field result into our overall results
                 if (fieldResult.data !== null && fieldResult.data !== undefined) {
@@ -327,7 +326,7 @@ Make sure to:
     /**
      * Create a prompt specifically for extracting a single field
      */
-    private createFieldSpecificPrompt(field: ExtractionField): PromptTemplate<TInput> {
+    private createFieldSpecificPrompt(field: ExtractionField, input: TInput): MessageContent {
         const fieldPrompt = `
 Extract the following field from the above content:
 
@@ -350,26 +349,8 @@ Make sure to:
 3. Return valid JSON that can be parsed directly
 `;
 
-        // Create a function that adds this field prompt to the base input
-        return (input: TInput) => {
-            if (typeof this.promptTemplate === "function") {
-                const baseText = this.promptTemplate(input);
-                return `${baseText}\n\n${fieldPrompt}`;
-            } else {
-                const baseText = this.promptTemplate.replace(/\{\{([^}]+)\}\}/g, (_, key) => {
-                    try {
-                        // The expression could be complex like "keywords.join(', ')"
-                        // eslint-disable-next-line no-new-func
-                        const evalFn = new Function("input", `return ${key}`);
-                        return String(evalFn(input) ?? "");
-                    } catch (e) {
-                        // If evaluation fails, fall back to simple object property access
-                        return String((input as any)[key] ?? "");
-                    }
-                });
-                return `${baseText}\n\n${fieldPrompt}`;
-            }
-        };
+        // Add this field prompt to the base prompt
+        return concatContent([this.generatePrompt(input), fieldPrompt]);
     }
 
     /**
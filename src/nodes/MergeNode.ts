@@ -1,4 +1,6 @@
 import { IExecutable } from "../core/types";
+import { mapWithConcurrency } from "../core/rateLimiter";
+import { traceSpan } from "../core/tracing";
 
 /**
  * MergeNode
@@ -64,10 +66,11 @@ export class MergeNode<TInputs extends any[], TOutput>
         nextNode: IExecutable<TOutput, TNextOutput>
     ): IExecutable<TInputs, TNextOutput> {
         return {
-            execute: async (inputs: TInputs): Promise<TNextOutput> => {
-                const intermediateResult = await this.execute(inputs);
-                return nextNode.execute(intermediateResult);
-            },
+            execute: (inputs: TInputs): Promise<TNextOutput> =>
+                traceSpan(undefined, "pipeline", {}, async () => {
+                    const intermediateResult = await this.execute(inputs);
+                    return nextNode.execute(intermediateResult);
+                }),
         };
     }
 
@@ -76,24 +79,37 @@ export class MergeNode<TInputs extends any[], TOutput>
      * from multiple source nodes and passing them to this merge node
      *
      * @param sourceNodes Array of nodes whose outputs will be merged
+     * @param mergeNode The node that merges the source outputs
+     * @param options.concurrency Maximum source nodes running at once (default: all)
      * @returns A function that takes the input for all source nodes and returns the merged result
      *
      * Implementation notes:
-     * - Execute all source nodes in parallel with Promise.all
+     * - Execute source nodes in parallel, at most `concurrency` at a time
      * - Ensure consistent input ordering for merger function
+     * - Provider rate limits are enforced by the source nodes' own
+     *   `llmConfig.rateLimit`, which also applies across pipelines
      */
     static createPipeline<TNodeInput, TNodeOutput extends any[], TMergeOutput>(
         sourceNodes: IExecutable<TNodeInput, any>[],
-        mergeNode: MergeNode<TNodeOutput, TMergeOutput>
+        mergeNode: MergeNode<TNodeOutput, TMergeOutput>,
+        options: { concurrency?: number } = {}
     ): (input: TNodeInput) => Promise<TMergeOutput> {
-        return async (input: TNodeInput): Promise<TMergeOutput> => {
-            // Execute all source nodes in parallel
-            const outputs = await Promise.all(
-                sourceNodes.map((node) => node.execute(input))
-            );
+        return (input: TNodeInput): Promise<TMergeOutput> =>
+            traceSpan(
+                undefined,
+                "pipeline",
+                { attributes: { "llm_nodes.pipeline.sources": sourceNodes.length } },
+                async () => {
+                    // Execute the source nodes in parallel, up to the concurrency limit
+                    const outputs = await mapWithConcurrency(
+                        sourceNodes,
+                        options.concurrency,
+                        (node) => node.execute(input)
+                    );
 
-            // Cast to expected input type and merge
-            return mergeNode.execute(outputs as unknown as TNodeOutput);
-        };
+                    // Cast to expected input type and merge
+                    return mergeNode.execute(outputs as unknown as TNodeOutput);
+                }
+            );
     }
 }
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "@jest/globals";
+import { RAGNode, Retriever } from "./RAGNode";
+import { MockProvider } from "../core/providers/MockProvider";
+import { LLMConfig } from "../core/types";
+import { jsonParser } from "../parsers/json";
+import { textParser } from "../parsers/structured";
+
+const config: LLMConfig = { provider: "mock", model: "mock-model" };
+const noDocuments: Retriever = async () => ({ documents: [] });
+
+describe("RAGNode", () => {
+    it("injects the retrieved documents into the prompt", async () => {
+        const provider = new MockProvider({ responses: ["30 days"] });
+        const node = new RAGNode<{ question: string }, string>({
+            promptTemplate: "Question: {{question}}",
+            llmConfig: config,
+            retriever: async () => ({
+                documents: [{ content: "Refunds within 30 days." }, { content: "Unrelated." }],
+                scores: [0.9, 0.1],
+            }),
+            outputParser: textParser(),
+            maxDocuments: 1,
+            provider,
+        });
+
+        const { output, retrieval } = await node.execute({ question: "Refund window?" });
+
+        expect(output).toBe("30 days");
+        expect(retrieval.query).toBe("Refund window?");
+        expect(retrieval.documents).toEqual([{ content: "Refunds within 30 days." }]);
+        expect(retrieval.scores).toEqual([0.9]);
+        expect(provider.getPrompts()[0]).toContain("[Document 1]\nRefunds within 30 days.");
+        expect(provider.getPrompts()[0]).not.toContain("Unrelated.");
+    });
+
+    it("returns fallbackOutput as-is without calling the model", async () => {
+        const provider = new MockProvider();
+        const node = new RAGNode<string, { answer: string }>({
+            promptTemplate: "{{input}}",
+            llmConfig: config,
+            retriever: noDocuments,
+            outputParser: jsonParser(),
+            fallbackOutput: (question) => ({ answer: `Nothing found about ${question}` }),
+            provider,
+        });
+
+        const { output, retrieval } = await node.execute("refunds");
+
+        expect(output).toEqual({ answer: "Nothing found about refunds" });
+        expect(retrieval.documentsFound).toBe(false);
+        expect(provider.getCalls()).toHaveLength(0);
+    });
+
+    it("throws when nothing is found and no fallbackOutput is set", async () => {
+        const node = new RAGNode<string, { answer: string }>({
+            promptTemplate: "{{input}}",
+            llmConfig: config,
+            retriever: noDocuments,
+            outputParser: jsonParser(),
+            provider: new MockProvider(),
+        });
+
+        await expect(node.execute("refunds")).rejects.toThrow(/No relevant documents found/);
+    });
+
+    it("requires fallbackOutput for the fallback strategy", () => {
+        expect(
+            () =>
+                new RAGNode<string, string>({
+                    promptTemplate: "{{input}}",
+                    llmConfig: config,
+                    retriever: noDocuments,
+                    outputParser: textParser(),
+                    noDocumentsStrategy: "fallback",
+                    provider: new MockProvider(),
+                })
+        ).toThrow(/fallbackOutput is required/);
+    });
+
+    it("reports responses that fail to parse to the onParseError hook", async () => {
+        const parseErrors: string[] = [];
+        const node = new RAGNode<string, { answer: string }>({
+            promptTemplate: "{{input}}",
+            llmConfig: config,
+            retriever: async () => ({ documents: [{ content: "Refunds within 30 days." }] }),
+            outputParser: jsonParser(),
+            hooks: { onParseError: ({ rawOutput }) => parseErrors.push(rawOutput) },
+            provider: new MockProvider({ responses: ["not json"] }),
+        });
+
+        await expect(node.execute("refunds")).rejects.toThrow(/Failed to parse RAG response/);
+        expect(parseErrors).toEqual(["not json"]);
+    });
+});
@@ -1,5 +1,7 @@
 import { GeneralNodeOptions } from "..";
 import { LLMNode } from "../core/LLMNode";
+import { MessageContent } from "../core/types";
+import { concatContent } from "../core/content";
 
 /**
  * Document with content and metadata
@@ -21,6 +23,14 @@ export type RetrievalResult = {
     scores?: number[];
 };
 
+/**
+ * Function that retrieves documents relevant to a query
+ */
+export type Retriever = (
+    query: string,
+    options?: any
+) => Promise<RetrievalResult>;
+
 /**
  * RAG (Retrieval Augmented Generation) response
  */
@@ -33,6 +43,10 @@ export type RAGResponse<TOutput> = {
         documents: Document[];
         /** Whether any documents were found */
         documentsFound: boolean;
+        /** The query sent to the retriever */
+        query: string;
+        /** Relevance scores for the documents used, if the retriever provided them */
+        scores?: number[];
     };
 };
 
@@ -64,10 +78,19 @@ export class RAGNode<TInput, TOutput> extends LLMNode<
      * Function to retrieve relevant documents
      * @private
      */
-    private retriever: (
-        query: string,
-        options?: any
-    ) => Promise<RetrievalResult>;
+    private retriever: Retriever;
+
+    /**
+     * Options passed through to the retriever on every call
+     * @private
+     */
+    private retrieverOptions?: any;
+
+    /**
+     * Builds the retrieval query from the input
+     * @private
+     */
+    private queryGenerator?: (input: TInput) => string;
 
     /**
      * Maximum number of documents to retrieve
@@ -81,6 +104,24 @@ export class RAGNode<TInput, TOutput> extends LLMNode<
      */
     private outputParser: (text: string) => TOutput;
 
+    /**
+     * Whether to include document metadata in the prompt
+     * @private
+     */
+    private includeMetadata: boolean;
+
+    /**
+     * What to do when the retriever returns no documents
+     * @private
+     */
+    private noDocumentsStrategy: "fallback" | "generate" | "throw";
+
+    /**
+     * Output returned when no documents are found and the strategy is "fallback"
+     * @private
+     */
+    private fallbackOutput?: TOutput | ((input: TInput) => TOutput);
+
     /**
      * Creates a new RAGNode
      *
@@ -91,6 +132,15 @@ export class RAGNode<TInput, TOutput> extends LLMNode<
      * @param options.maxDocuments Maximum number of documents to retrieve (default: 3)
      * @param options.outputParser Parser for the final output
      * @param options.includeMetadata Whether to include document metadata in the prompt (default: false)
+     * @param options.retrieverOptions Options passed to the retriever on every call
+     * @param options.queryGenerator Function that builds the retrieval query from the input
+     * @param options.noDocumentsStrategy What to do when no documents are found
+     *   (default: 'fallback' when fallbackOutput is set, otherwise 'throw')
+     *   - 'fallback': skip generation and return fallbackOutput
+     *   - 'generate': generate without document context
+     *   - 'throw': throw an error
+     * @param options.fallbackOutput Output (or function producing it) returned by the 'fallback'
+     *   strategy. Required by that strategy, since no parser output fits every TOutput.
      *
      * Implementation notes:
      * - The retriever function should return documents and relevance scores
@@ -99,24 +149,39 @@ export class RAGNode<TInput, TOutput> extends LLMNode<
      * - The output should include which documents were used
      */
     constructor(options: {
-        retriever: (query: string, options?: any) => Promise<RetrievalResult>;
+        retriever: Retriever;
         maxDocuments?: number;
         outputParser: (text: string) => TOutput;
         includeMetadata?: boolean;
+        retrieverOptions?: any;
+        queryGenerator?: (input: TInput) => string;
+        noDocumentsStrategy?: "fallback" | "generate" | "throw";
+        fallbackOutput?: TOutput | ((input: TInput) => TOutput);
     } & GeneralNodeOptions<TInput, RAGResponse<TOutput>>) {
-        throw new Error("Not implemented");
-        // Implementation will:
-        // 1. Store retriever function and configuration
-        // 2. Configure output parser
-        // 3. Initialize with custom execution flow that includes retrieval
         super({
             ...options,
-            parser: (rawResponse: string) => ({} as RAGResponse<TOutput>), // Will be implemented
+            // Batch responses carry no retrieval context
+            parser: (rawResponse: string) =>
+                this.createResponseParser([], "")(rawResponse),
         });
 
         this.retriever = options.retriever;
+        this.retrieverOptions = options.retrieverOptions;
+        this.queryGenerator = options.queryGenerator;
         this.maxDocuments = options.maxDocuments ?? 3;
         this.outputParser = options.outputParser;
+        this.includeMetadata = options.includeMetadata ?? false;
+        this.fallbackOutput = options.fallbackOutput;
+        this.noDocumentsStrategy =
+            options.noDocumentsStrategy ??
+            (options.fallbackOutput !== undefined ? "fallback" : "throw");
+
+        if (this.maxDocuments < 1) {
+            throw new Error("maxDocuments must be at least 1");
+        }
+        if (this.noDocumentsStrategy === "fallback" && this.fallbackOutput === undefined) {
+            throw new Error('fallbackOutput is required when noDocumentsStrategy is "fallback"');
+        }
     }
 
     /**
@@ -133,13 +198,51 @@ export class RAGNode<TInput, TOutput> extends LLMNode<
      * - Generate response with augmented context
      */
     async execute(input: TInput): Promise<RAGResponse<TOutput>> {
-        // Will implement:
-        // 1. Generate query from input
-        // 2. Retrieve relevant documents
-        // 3. Enhance prompt with documents
-        // 4. Generate and parse response
-        // 5. Include retrieval metadata in result
-        return {} as RAGResponse<TOutput>; // Placeholder
+        const query = this.generateQuery(input);
+        const retrieval = await this.retriever(query, this.retrieverOptions);
+
+        const documents = (retrieval?.documents ?? []).slice(
+            0,
+            this.maxDocuments
+        );
+        const scores = retrieval?.scores?.slice(0, documents.length);
+
+        if (documents.length === 0) {
+            switch (this.noDocumentsStrategy) {
+                case "throw":
+                    throw new Error(
+                        `No relevant documents found for query: ${query}. ` +
+                            "Set fallbackOutput to return a default output instead."
+                    );
+                case "fallback":
+                    return {
+                        output: this.resolveFallbackOutput(input),
+                        retrieval: {
+                            documents: [],
+                            documentsFound: false,
+                            query,
+                        },
+                    };
+                case "generate":
+                    // Fall through and generate without document context
+                    break;
+            }
+        }
+
+        const prompt = this.enhancePromptWithDocuments(
+            this.generatePrompt(input),
+            documents
+        );
+        const response = await this.invokeProvider(prompt);
+
+        const result = this.parse(
+            response.content,
+            this.createResponseParser(documents, query)
+        );
+        if (scores && scores.length > 0) {
+            result.retrieval.scores = scores;
+        }
+        return result;
     }
 
     /**
@@ -155,11 +258,34 @@ export class RAGNode<TInput, TOutput> extends LLMNode<
      * - Remove unnecessary details
      */
     private generateQuery(input: TInput): string {
-        // Will implement:
-        // 1. Extract relevant parts from input
-        // 2. Format as an effective retrieval query
-        // 3. Handle different input types
-        return ""; // Placeholder
+        if (this.queryGenerator) {
+            return this.queryGenerator(input);
+        }
+
+        const processed = this.inputPreprocessor(input);
+
+        if (typeof processed === "string") {
+            return processed.trim();
+        }
+
+        // Prefer well-known query fields, then the first string property
+        if (typeof processed === "object" && processed !== null) {
+            for (const key of ["query", "question", "input", "text"]) {
+                const value = (processed as any)[key];
+                if (typeof value === "string" && value.trim()) {
+                    return value.trim();
+                }
+            }
+
+            const firstString = Object.values(processed).find(
+                (value) => typeof value === "string" && value.trim()
+            );
+            if (firstString) {
+                return (firstString as string).trim();
+            }
+        }
+
+        return JSON.stringify(processed);
     }
 
     /**
@@ -176,15 +302,34 @@ export class RAGNode<TInput, TOutput> extends LLMNode<
      * - Handle prompt length constraints
      */
     private enhancePromptWithDocuments(
-        originalPrompt: string,
+        originalPrompt: MessageContent,
         documents: Document[]
-    ): string {
-        // Will implement:
-        // 1. Format documents as context
-        // 2. Include metadata if configured
-        // 3. Add instructions for using documents
-        // 4. Manage context length
-        return ""; // Placeholder
+    ): MessageContent {
+        if (documents.length === 0) {
+            return originalPrompt;
+        }
+
+        const formattedDocuments = documents
+            .map((document, index) => {
+                let entry = `[Document ${index + 1}]`;
+                if (
+                    this.includeMetadata &&
+                    document.metadata &&
+                    Object.keys(document.metadata).length > 0
+                ) {
+                    entry += `\nMetadata: ${JSON.stringify(document.metadata)}`;
+                }
+                return `${entry}\n${document.content.trim()}`;
+            })
+            .join("\n\n");
+
+        return concatContent([
+            `Use the following documents to answer. Base your answer only on the information in these documents. If they do not contain the answer, say so instead of guessing.
+
+DOCUMENTS:
+${formattedDocuments}`,
+            originalPrompt,
+        ]);
     }
 
     /**
@@ -200,13 +345,43 @@ export class RAGNode<TInput, TOutput> extends LLMNode<
      * - Handle edge cases (no documents, parser errors)
      */
     private createResponseParser(
-        documents: Document[]
+        documents: Document[],
+        query: string
     ): (rawResponse: string) => RAGResponse<TOutput> {
-        // Will implement:
-        // 1. Create closure with document context
-        // 2. Apply output parser to response
-        // 3. Include retrieval information
-        // 4. Handle parsing errors
-        return () => ({} as RAGResponse<TOutput>); // Placeholder
+        return (rawResponse: string) => {
+            let output: TOutput;
+            try {
+                output = this.outputParser(rawResponse);
+            } catch (error) {
+                const errorMessage =
+                    error instanceof Error ? error.message : String(error);
+                throw new Error(
+                    `Failed to parse RAG response: ${errorMessage}`
+                );
+            }
+
+            return {
+                output,
+                retrieval: {
+                    documents,
+                    documentsFound: documents.length > 0,
+                    query,
+                },
+            };
+        };
+    }
+
+    /**
+     * Resolve the output used when no documents are found
+     *
+     * @param input The input data
+     * @returns The fallback output
+     */
+    private resolveFallbackOutput(input: TInput): TOutput {
+        if (typeof this.fallbackOutput === "function") {
+            return (this.fallbackOutput as (input: TInput) => TOutput)(input);
+        }
+
+        return this.fallbackOutput as TOutput;
     }
 }
@@ -1,6 +1,10 @@
-import { GeneralNodeOptions, StreamChunk, TokenUsage } from "../core/types";
+import { GeneralNodeOptions, PromptInput, StreamChunk, TokenUsage } from "../core/types";
 import { LLMNode } from "../core/LLMNode";
 import { textParser } from "../parsers/structured";
+import { streamWithRetry } from "../core/retry";
+import { resolveRateLimiter } from "../core/rateLimiter";
+import { normalizeTokenUsage } from "../core/executionContext";
+import { resolveTracer, usageAttributes } from "../core/tracing";
 
 /**
  * StreamNode
@@ -32,12 +36,84 @@ export class StreamNode<TInput> extends LLMNode<TInput, string> {
 
         const prompt = this.generatePrompt(input);
         let finalUsage: TokenUsage | undefined;
+        let content = "";
 
-        for await (const chunk of this.provider.invokeStream(prompt, this.llmConfig)) {
-            if (chunk.tokenUsage) finalUsage = chunk.tokenUsage;
-            yield chunk;
+        this.hooks.beforePrompt?.({ prompt });
+        const startTime = Date.now();
+        // The span covers the whole stream; it is not made active since the
+        // stream starts no nested spans
+        const span = resolveTracer(this.tracer)?.startSpan(`chat ${this.llmConfig.model}`, {
+            kind: "client",
+            attributes: this.spanAttributes(),
+        });
+
+        let retries = 0;
+
+        try {
+            // Only opening the stream is retried; once text has been yielded a
+            // failure is passed on to the caller
+            const chunks = streamWithRetry(
+                () => this.openStream(prompt),
+                this.llmConfig.retry,
+                (attempt) => {
+                    retries++;
+                    this.reportRetry(attempt, span);
+                }
+            );
+            for await (const chunk of chunks) {
+                if (chunk.tokenUsage) finalUsage = chunk.tokenUsage;
+                content += chunk.text;
+                this.hooks.onStreamChunk?.(chunk);
+                yield chunk;
+            }
+
+            if (finalUsage) this.recordUsage(finalUsage, { retries });
+
+            const tokenUsage = normalizeTokenUsage(finalUsage);
+            const latencyMs = Date.now() - startTime;
+            span?.setAttributes({
+                ...usageAttributes(tokenUsage),
+                "llm_nodes.latency_ms": latencyMs,
+                "llm_nodes.retries": retries,
+            });
+            span?.setOk();
+            this.hooks.afterResponse?.({
+                prompt,
+                response: { content, usage: finalUsage },
+                tokenUsage,
+                latencyMs,
+                retries,
+                cacheHit: false,
+            });
+        } catch (error) {
+            span?.recordError(error);
+            throw error;
+        } finally {
+            span?.end();
         }
+    }
 
-        if (finalUsage) this.recordUsage(finalUsage);
+    /**
+     * Open a provider stream once the budgets and the configured rate
+     * limiter allow it. The stream holds its slot until it ends.
+     */
+    private async *openStream(prompt: PromptInput): AsyncGenerator<StreamChunk> {
+        const reservation = this.reserveBudget(prompt);
+        const limiter = resolveRateLimiter(this.llmConfig);
+        const lease = await limiter?.acquire(this.estimateRequestTokens(prompt));
+        let usage: TokenUsage | undefined;
+        try {
+            for await (const chunk of this.provider.invokeStream!(prompt, this.llmConfig)) {
+                if (chunk.tokenUsage) usage = chunk.tokenUsage;
+                yield chunk;
+            }
+        } finally {
+            lease?.release(usage && usage.inputTokens + usage.outputTokens);
+            if (usage) {
+                this.settleBudget(reservation, usage);
+            } else {
+                reservation.cancel();
+            }
+        }
     }
 }
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "@jest/globals";
+import { z } from "zod";
+import { StructuredOutputNode } from "./StructuredOutputNode";
+import { MockProvider } from "../core/providers/MockProvider";
+import { LLMConfig } from "../core/types";
+import { contentToText } from "../core/content";
+
+const config: LLMConfig = { provider: "mock", model: "mock-model" };
+const schema = z.object({ answer: z.number() });
+
+function createNode(provider: MockProvider, maxRetries?: number) {
+    return new StructuredOutputNode<{}, { answer: number }>({
+        promptTemplate: "What is the answer?",
+        schema,
+        llmConfig: config,
+        provider,
+        maxRetries,
+    });
+}
+
+describe("StructuredOutputNode", () => {
+    it("parses and validates a valid response", async () => {
+        const provider = new MockProvider({ responses: ['{"answer": 42}'] });
+
+        expect(await createNode(provider).execute({})).toEqual({ answer: 42 });
+        expect(provider.getCalls()[0].options?.responseFormat?.schema).toMatchObject({
+            type: "object",
+            required: ["answer"],
+        });
+    });
+
+    it("repairs invalid JSON by replying to the answer with a correction", async () => {
+        const provider = new MockProvider({ responses: ["not json", '{"answer": 42}'] });
+
+        expect(await createNode(provider).execute({})).toEqual({ answer: 42 });
+
+        const repair = provider.getCalls()[1].messages;
+        expect(repair.map((message) => message.role)).toEqual(["user", "assistant", "user"]);
+        expect(repair[1].content).toBe("not json");
+        expect(contentToText(repair[2].content)).toMatch(/Failed to parse response as JSON/);
+    });
+
+    it("lists validation errors in the correction", async () => {
+        const provider = new MockProvider({ responses: ['{"answer": "42"}', '{"answer": 42}'] });
+
+        const result = await createNode(provider).executeWithMetadata({});
+
+        expect(result.output).toEqual({ answer: 42 });
+        expect(result.retryCount).toBe(1);
+        expect(contentToText(provider.getCalls()[1].messages[2].content)).toContain("answer");
+    });
+
+    it("gives up after maxRetries repairs", async () => {
+        const provider = new MockProvider({ defaultResponse: '{"answer": "none"}' });
+
+        await expect(createNode(provider, 1).execute({})).rejects.toThrow(
+            /Failed to generate valid output after 2 attempts/
+        );
+        expect(provider.getCalls()).toHaveLength(2);
+    });
+
+    it("describes the schema in the prompt when the provider has no structured output", async () => {
+        const provider = new MockProvider({ responses: ['{"answer": 42}'], structuredOutput: false });
+
+        await createNode(provider).execute({});
+
+        expect(provider.getPrompts()[0]).toContain("Respond with JSON matching this TypeScript type");
+        expect(provider.getCalls()[0].options?.responseFormat).toBeUndefined();
+    });
+});
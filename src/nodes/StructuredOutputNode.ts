@@ -1,6 +1,16 @@
 import { z } from "zod";
 import { LLMNode } from "../core/LLMNode";
-import { LLMConfig, ResponseParser, PromptTemplate } from "../core/types";
+import {
+    LLMConfig,
+    ResponseParser,
+    PromptTemplate,
+    ChatMessage,
+    ResponseFormat,
+} from "../core/types";
+import { toChatMessages } from "../core/messages";
+import { concatContent } from "../core/content";
+import { describeZodSchema, formatZodIssues } from "../core/schema";
+import { recordExecutionRetry } from "../core/executionContext";
 import { jsonParser } from "../parsers/json";
 import { GeneralNodeOptions } from "..";
 
@@ -12,6 +22,8 @@ import { GeneralNodeOptions } from "..";
  *
  * Key features:
  * - Schema-based validation using Zod
+ * - Native structured output (JSON Schema) on providers that support it
+ * - Expected type described in the prompt when native mode isn't available
  * - Automatic retries for invalid responses
  * - Detailed error handling for malformed outputs
  * - Type inference from Zod schema
@@ -32,6 +44,12 @@ export class StructuredOutputNode<TInput, TOutput> extends LLMNode<
      */
     private schema: z.Schema<TOutput>;
 
+    /**
+     * The schema rendered as a TypeScript-like type for prompts
+     * @private
+     */
+    private schemaDescription: string;
+
     /**
      * Maximum number of retries when validation fails
      * @private
@@ -44,6 +62,13 @@ export class StructuredOutputNode<TInput, TOutput> extends LLMNode<
      */
     private invalidResponseTemplate?: string;
 
+    /**
+     * JSON Schema of the output for the provider's native structured-output
+     * mode; undefined when the schema can't be expressed that way
+     * @private
+     */
+    private responseFormat?: ResponseFormat;
+
     /**
      * Creates a new StructuredOutputNode
      *
@@ -52,12 +77,19 @@ export class StructuredOutputNode<TInput, TOutput> extends LLMNode<
      * @param options.promptTemplate Template for generating LLM prompts
      * @param options.llmConfig LLM configuration options
      * @param options.maxRetries Maximum number of retry attempts for invalid responses (default: 2)
-     * @param options.invalidResponseTemplate Optional template to use when sending followup on invalid responses
+     * @param options.invalidResponseTemplate Optional template for the correction sent after an invalid
+     *   response; supports {{errors}}, {{schema}} and {{attempt}}
+     * @param options.nativeStructuredOutput Use the provider's native structured-output mode when it
+     *   has one (default: true)
+     * @param options.schemaName Name of the output schema sent to the provider (default: "output")
      *
      * Implementation notes:
      * - The constructor should set up the schema and create a custom parser function
      * - The parser should attempt to validate against the schema and throw detailed errors
      * - We'll need to capture schema validation errors and retry with more explicit instructions
+     * - The zod schema is converted to JSON Schema and sent as a responseFormat when the provider
+     *   supports it and the node has no tools; otherwise the expected type is described in the prompt.
+     *   The response is validated either way, since JSON Schema can't express every zod check.
      */
     constructor(options: {
         schema: z.Schema<TOutput>;
@@ -65,11 +97,14 @@ export class StructuredOutputNode<TInput, TOutput> extends LLMNode<
         llmConfig: LLMConfig;
         maxRetries?: number;
         invalidResponseTemplate?: string;
+        nativeStructuredOutput?: boolean;
+        schemaName?: string;
     } & GeneralNodeOptions<TInput, TOutput>) {
         // Store schema locally for parser creation
         const schema = options.schema;
 
-        // Create a custom parser that validates against the schema
+        // Create a custom parser that validates against the schema. Errors
+        // carry the raw response so retries can show the model its answer.
         const schemaParser: ResponseParser<TOutput> = (rawResponse: string) => {
             try {
                 // First attempt to parse as JSON
@@ -80,11 +115,14 @@ export class StructuredOutputNode<TInput, TOutput> extends LLMNode<
             } catch (error) {
                 if (error instanceof z.ZodError) {
                     // Rethrow Zod validation errors for retry handling
-                    throw error;
+                    throw Object.assign(error, { rawResponse });
                 } else {
                     // Handle JSON parsing errors with proper error message
                     const errorMessage = error instanceof Error ? error.message : String(error);
-                    throw new Error(`Failed to parse response as JSON: ${errorMessage}`);
+                    throw Object.assign(
+                        new Error(`Failed to parse response as JSON: ${errorMessage}`),
+                        { rawResponse }
+                    );
                 }
             }
         };
@@ -97,8 +135,15 @@ export class StructuredOutputNode<TInput, TOutput> extends LLMNode<
 
         // Store configuration
         this.schema = options.schema;
+        this.schemaDescription = describeZodSchema(options.schema);
         this.maxRetries = options.maxRetries ?? 2;
         this.invalidResponseTemplate = options.invalidResponseTemplate;
+        if (options.nativeStructuredOutput ?? true) {
+            this.responseFormat = this.createResponseFormat(
+                options.schema,
+                options.schemaName ?? "output"
+            );
+        }
     }
 
     /**
@@ -108,43 +153,33 @@ export class StructuredOutputNode<TInput, TOutput> extends LLMNode<
      * @returns Validated output matching the schema
      *
      * Implementation notes:
-     * - Override the parent execute method to add retry logic
-     * - Track retry count and provide more specific instructions on failures
-     * - Handle errors from schema validation and provide helpful context
+     * - A response that fails to parse or validate is repaired by continuing the
+     *   conversation: original prompt, the invalid answer, then a correction
+     *   listing the errors. Earlier turns stay unchanged, so they can be served
+     *   from the provider's prompt cache.
+     * - Provider errors are retried with the same messages
+     * - All state is local to the call, so one instance can execute concurrently
      * - On final failure, throw a detailed error with validation issues
      */
     async execute(input: TInput): Promise<TOutput> {
+        const useNative = this.useNativeOutput();
+        const messages: ChatMessage[] = [
+            ...toChatMessages(
+                useNative
+                    ? this.generatePrompt(input)
+                    : concatContent([
+                          this.generatePrompt(input),
+                          `Respond with JSON matching this TypeScript type:\n${this.schemaDescription}`,
+                      ])
+            ),
+        ];
         let attemptCount = 0;
         let lastError: z.ZodError | Error | null = null;
 
         // Try initial execution plus retries
         while (attemptCount <= this.maxRetries) {
             try {
-                // If this is the first attempt, use the original prompt
-                if (attemptCount === 0) {
-                    return await super.execute(input);
-                }
-                // For retry attempts, use an enhanced prompt with error feedback
-                else if (lastError instanceof z.ZodError) {
-                    // Override the prompt template temporarily for this call
-                    const originalTemplate = this.promptTemplate;
-                    this.promptTemplate = () =>
-                        this.generateRetryPrompt(
-                            input,
-                            lastError as z.ZodError,
-                            attemptCount
-                        );
-
-                    try {
-                        return await super.execute(input);
-                    } finally {
-                        // Restore the original prompt template
-                        this.promptTemplate = originalTemplate;
-                    }
-                } else {
-                    // For other types of errors, just retry the original execution
-                    return await super.execute(input);
-                }
+                return await this.generate(messages, useNative);
             } catch (error) {
                 // Safely cast the error
                 lastError = error instanceof Error ? error : new Error(String(error));
@@ -154,15 +189,24 @@ export class StructuredOutputNode<TInput, TOutput> extends LLMNode<
                 if (attemptCount > this.maxRetries) {
                     break;
                 }
+
+                // Parse and validation errors carry the model's answer; reply
+                // to it with a correction
+                recordExecutionRetry();
+                const rawResponse = (lastError as any).rawResponse;
+                if (typeof rawResponse === "string") {
+                    messages.push(
+                        { role: "assistant", content: rawResponse },
+                        { role: "user", content: this.generateRepairMessage(lastError, attemptCount) }
+                    );
+                }
             }
         }
 
         // If we get here, all attempts failed
         if (lastError instanceof z.ZodError) {
             throw new Error(
-                `Failed to generate valid output after ${attemptCount} attempts. Validation errors: ${JSON.stringify(
-                    lastError.format()
-                )}`
+                `Failed to generate valid output after ${attemptCount} attempts. Validation errors:\n${formatZodIssues(lastError)}`
             );
         } else {
             throw lastError || new Error("Failed to execute node");
@@ -170,138 +214,100 @@ export class StructuredOutputNode<TInput, TOutput> extends LLMNode<
     }
 
     /**
-     * Generate a more specific prompt for retry attempts
-     *
-     * @param input Original input
-     * @param validationError Error from Zod validation
-     * @param attemptCount Current retry attempt number
-     * @returns Enhanced prompt with validation feedback
+     * Whether to use the provider's native structured-output mode
+     */
+    private useNativeOutput(): boolean {
+        return (
+            this.responseFormat !== undefined &&
+            this.tools.length === 0 &&
+            (this.provider.supportsResponseFormat?.(this.llmConfig) ?? false)
+        );
+    }
+
+    /**
+     * Make one attempt at generating the output
      *
-     * Implementation notes:
-     * - Format validation errors in a way the LLM can understand
-     * - Include examples of valid outputs based on the schema
-     * - Adapt guidance based on the specific validation error
+     * @param messages The conversation so far
+     * @param useNative Whether to request the provider's native structured output
      */
-    private generateRetryPrompt(
-        input: TInput,
-        validationError: z.ZodError,
-        attemptCount: number
-    ): string {
-        // Generate the original prompt to use as a base
-        let originalPrompt = "";
-        if (typeof this.promptTemplate === "function") {
-            originalPrompt = this.promptTemplate(input);
-        } else {
-            originalPrompt = this.promptTemplate.replace(
-                /\{\{([^}]+)\}\}/g,
-                (_, key) => {
-                    try {
-                        const evalFn = new Function("input", `return ${key}`);
-                        return String(evalFn(input) ?? "");
-                    } catch (e) {
-                        return String((input as any)[key] ?? "");
-                    }
-                }
-            );
+    private async generate(messages: ChatMessage[], useNative: boolean): Promise<TOutput> {
+        if (this.tools.length > 0) {
+            return (await this.runToolLoop(messages)).output;
         }
 
-        // Format error details
-        const formattedErrors = Object.entries(validationError.format())
-            .filter(([key]) => key !== "_errors") // Skip the top-level _errors
-            .map(([path, error]) => {
-                if (typeof error === "object" && error && "error" in error) {
-                    const errorObj = error as any;
-                    const errorMessages = errorObj.errors || errorObj.error || [];
-                    return `- '${path}': ${Array.isArray(errorMessages) ? errorMessages.join(", ") : String(errorMessages)}`;
-                }
-                return "";
-            })
-            .filter(Boolean)
-            .join("\n");
+        const response = await this.invokeProvider(
+            messages,
+            useNative ? { responseFormat: this.responseFormat } : undefined
+        );
+        return this.parse(response.content);
+    }
+
+    /**
+     * Convert the zod schema to a response format, if the provider-side
+     * structured-output modes can express it: they need a JSON Schema for an
+     * object at the top level
+     */
+    private createResponseFormat(
+        schema: z.ZodType<any>,
+        name: string
+    ): ResponseFormat | undefined {
+        try {
+            const { $schema, ...jsonSchema } = z.toJSONSchema(schema) as Record<string, any>;
+            if (jsonSchema.type !== "object") {
+                return undefined;
+            }
+            return { name, schema: jsonSchema };
+        } catch {
+            // Transforms, custom types and the like have no JSON Schema form
+            return undefined;
+        }
+    }
 
-        // Generate schema description
-        const schemaDescription = this.describeSchema(this.schema);
+    /**
+     * Generate the correction sent after an invalid response
+     *
+     * @param error The parse or validation error
+     * @param attemptCount Current retry attempt number
+     * @returns The user message asking the model to fix its answer
+     *
+     * Implementation notes:
+     * - Validation errors are listed with the full path of each issue
+     * - The expected structure is rendered as a TypeScript-like type
+     * - Later attempts add progressively more explicit instructions
+     */
+    private generateRepairMessage(error: Error, attemptCount: number): string {
+        const formattedErrors =
+            error instanceof z.ZodError ? formatZodIssues(error) : `- ${error.message}`;
 
-        // Use custom template if provided, otherwise use default retry template
+        // Use custom template if provided, otherwise use default repair message
         if (this.invalidResponseTemplate) {
             return this.invalidResponseTemplate
-                .replace("{{original_prompt}}", originalPrompt)
                 .replace("{{errors}}", formattedErrors)
-                .replace("{{schema}}", schemaDescription)
-                .replace("{{attempt}}", attemptCount.toString());
+                .replace("{{schema}}", this.schemaDescription)
+                .replace("{{attempt}}", attemptCount.toString())
+                // The original prompt is already earlier in the conversation
+                .replace("{{original_prompt}}", "")
+                .trim();
         }
 
-        // Default retry template with progressively more explicit instructions
-        let retryPrompt = `
-I need you to provide a response in a specific JSON format, but your previous response had some issues:
+        let message = `Your previous response did not match the required format:
 
 ${formattedErrors}
 
-Here's the expected structure:
-${schemaDescription}
+Here's the expected structure, as a TypeScript type:
+${this.schemaDescription}
 
-${originalPrompt}
-
-IMPORTANT: Your response MUST be valid JSON that matches the schema exactly. Do not include any explanation, markdown code blocks, or additional text outside of the JSON object.
-`;
+Reply with the corrected JSON only. Do not include any explanation, markdown code blocks, or additional text outside of the JSON.`;
 
         // Add more guidance for later retry attempts
         if (attemptCount > 1) {
-            retryPrompt += `\nThis is retry attempt ${attemptCount}. Please follow these strict guidelines:
-1. Provide ONLY a JSON object, with no surrounding text, markdown, or explanation
+            message += `\n\nThis is retry attempt ${attemptCount}. Please follow these strict guidelines:
+1. Provide ONLY the JSON, with no surrounding text, markdown, or explanation
 2. Make sure all required fields are present and have the correct types
 3. Check that all string formats (dates, emails, etc.) match the expected patterns
-4. Double-check array fields have the correct item types and lengths
-`;
+4. Double-check array fields have the correct item types and lengths`;
         }
 
-        return retryPrompt;
-    }
-
-    /**
-     * Generate a human-readable description of the Zod schema
-     * @private
-     */
-    private describeSchema(schema: z.ZodType<any>): string {
-        // Simplified schema description - in a real implementation,
-        // this would recursively describe the schema structure
-        try {
-            // Attempt to create a simplified schema description
-            // Since zod's describe() method might not be available in all versions,
-            // we'll create a simplified description
-
-            // Generate a sample schema description based on the schema type
-            let description: any;
-
-            try {
-                // Try to use the schema's describe method if available
-                if (typeof schema.describe === 'function') {
-                    // The describe method might require arguments in some versions
-                    try {
-                        // First try with no arguments (newer versions)
-                        description = (schema.describe as any)();
-                    } catch (descError) {
-                        // If that fails, try with an empty object argument (older versions)
-                        description = (schema.describe as any)({});
-                    }
-                }
-            } catch (e) {
-                // If schema.describe() fails, create a basic description
-                description = { type: "object" };
-            }
-
-            // Ensure the schema description is properly formatted
-            const formattedDescription = JSON.stringify(description || { type: "object" }, null, 2);
-
-            if (formattedDescription === '{}' || !formattedDescription) {
-                // If the schema description is empty, provide a generic fallback
-                return "JSON object matching the required schema";
-            }
-
-            return formattedDescription;
-        } catch (e) {
-            // Fallback for complex schemas or errors
-            return "JSON object matching the required schema";
-        }
+        return message;
     }
 }
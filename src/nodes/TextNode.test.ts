@@ -0,0 +1,46 @@
+import { describe, expect, it } from "@jest/globals";
+import { TextNode } from "./TextNode";
+import { MockProvider } from "../core/providers/MockProvider";
+import { Budget } from "../core/budget";
+import { MemoryCacheStore } from "../core/cache";
+import { SpanData, Tracer } from "../core/tracing";
+import { LLMConfig } from "../core/types";
+
+describe("TextNode", () => {
+    it("keeps every option of the original node in withAdditionalPrompt", async () => {
+        const config: LLMConfig = {
+            provider: "mock",
+            model: "mock-model",
+            maxTokens: 50,
+            cache: { store: new MemoryCacheStore() },
+            rateLimit: { maxConcurrent: 1 },
+        };
+        const provider = new MockProvider({
+            defaultResponse: { content: "done", usage: { inputTokens: 10, outputTokens: 5 } },
+        });
+        const budget = new Budget({ maxTokens: 100 });
+        const prompts: unknown[] = [];
+        const spans: SpanData[] = [];
+        const tracer = new Tracer({ exporters: [{ export: (batch) => void spans.push(...batch) }] });
+        const node = new TextNode<{ topic: string }>({
+            promptTemplate: "Write about {{topic}}.",
+            llmConfig: config,
+            inputPreprocessor: ({ topic }) => ({ topic: topic.toUpperCase() }),
+            budget,
+            hooks: { beforePrompt: ({ prompt }) => prompts.push(prompt) },
+            tracer,
+            provider,
+        });
+
+        const detailed = node.withAdditionalPrompt("Be brief.");
+        const output = await detailed.execute({ topic: "tides" });
+        await tracer.flush();
+
+        expect(output).toBe("done");
+        expect(provider.getPrompts()).toEqual(["Write about TIDES.\n\nBe brief."]);
+        expect(prompts).toHaveLength(1);
+        expect(budget.spentTokens).toBe(15);
+        expect(spans.map((span) => span.name)).toContain("node TextNode");
+        expect(detailed["llmConfig"]).toEqual(config);
+    });
+});
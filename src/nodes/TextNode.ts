@@ -1,6 +1,7 @@
 import { GeneralNodeOptions } from "..";
 import { LLMNode } from "../core/LLMNode";
 import { PromptTemplate } from "../core/types";
+import { concatContent } from "../core/content";
 import { textParser } from "../parsers/structured";
 
 /**
@@ -49,6 +50,7 @@ export class TextNode<TInput> extends LLMNode<TInput, string> {
      *
      * Implementation notes:
      * - Creates a new node with combined prompt
+     * - Keeps every other option, sharing this node's provider and budget
      * - Useful for adding instructions or context to an existing node
      */
     withAdditionalPrompt(additionalText: string): TextNode<TInput> {
@@ -60,13 +62,20 @@ export class TextNode<TInput> extends LLMNode<TInput, string> {
         } else {
             // If the prompt is a function, create a new function that appends text
             newPrompt = (input: TInput) => {
-                return `${currentPrompt(input)}\n\n${additionalText}`;
+                return concatContent([currentPrompt(input), additionalText]);
             };
         }
 
         return new TextNode({
             promptTemplate: newPrompt,
             llmConfig: this.getLLMConfig(),
+            provider: this.provider,
+            inputPreprocessor: this.inputPreprocessor,
+            tools: this.tools,
+            maxToolIterations: this.maxToolIterations,
+            budget: this.budget,
+            hooks: this.hooks,
+            tracer: this.tracer,
         });
     }
 
@@ -23,9 +23,18 @@ export {
     type Document,
     type RetrievalResult,
     type RAGResponse,
+    type Retriever,
 } from "./RAGNode";
 
+export {
+    AgentNode,
+    type AgentStep,
+    type AgentResult,
+    type AgentStopReason,
+} from "./AgentNode";
+
 export { StreamNode } from "./StreamNode";
+export { ConversationNode } from "./ConversationNode";
 
 // Utility node types (no LLM calls)
 export { DataEnricherNode } from "./DataEnricherNode";
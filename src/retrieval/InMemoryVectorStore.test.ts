@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it } from "@jest/globals";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { InMemoryVectorStore, cosineSimilarity } from "./InMemoryVectorStore";
+import { HashEmbeddingProvider } from "../core/providers/HashEmbeddingProvider";
+
+const documents = [
+    { content: "Refunds are issued within 30 days of purchase.", metadata: { topic: "billing" } },
+    { content: "Our office is closed on public holidays.", metadata: { topic: "hours" } },
+    { content: "Shipping takes three to five business days.", metadata: { topic: "shipping" } },
+];
+
+describe("InMemoryVectorStore", () => {
+    let tempDir: string | undefined;
+
+    afterEach(async () => {
+        if (tempDir) {
+            await fs.rm(tempDir, { recursive: true, force: true });
+            tempDir = undefined;
+        }
+    });
+
+    it("returns the most similar documents first with their scores", async () => {
+        const store = new InMemoryVectorStore({ embeddings: new HashEmbeddingProvider() });
+        const ids = await store.addDocuments(documents);
+
+        const { documents: found, scores } = await store.similaritySearch(
+            "How many days until refunds are issued?",
+            { k: 2 }
+        );
+
+        expect(ids).toHaveLength(3);
+        expect(store.size).toBe(3);
+        expect(found).toHaveLength(2);
+        expect(found[0].content).toBe(documents[0].content);
+        expect(found[0].metadata).toEqual({ topic: "billing", id: ids[0] });
+        expect(scores![0]).toBeGreaterThan(scores![1]);
+        scores!.forEach((score) => {
+            expect(score).toBeGreaterThanOrEqual(0);
+            expect(score).toBeLessThanOrEqual(1);
+        });
+    });
+
+    it("applies metadata filters and minScore", async () => {
+        const store = new InMemoryVectorStore({ embeddings: new HashEmbeddingProvider() });
+        await store.addDocuments(documents);
+
+        const filtered = await store.similaritySearch("refunds", {
+            filter: (metadata) => metadata.topic !== "billing",
+        });
+        const strict = await store.similaritySearch("refunds", { minScore: 0.99 });
+
+        expect(filtered.documents.map((d) => d.metadata?.topic)).not.toContain("billing");
+        expect(strict.documents).toEqual([]);
+    });
+
+    it("chunks long documents and records their position", async () => {
+        const store = new InMemoryVectorStore({
+            embeddings: new HashEmbeddingProvider(),
+            chunking: { chunkSize: 30, chunkOverlap: 0 },
+        });
+
+        await store.addDocuments([
+            { content: "First paragraph here.\n\nSecond paragraph here.", metadata: { source: "a" } },
+        ]);
+        const { documents: found } = await store.similaritySearch("second", { k: 10 });
+
+        expect(store.size).toBe(2);
+        expect(found.map((d) => d.metadata?.chunkIndex).sort()).toEqual([0, 1]);
+        expect(found[0].metadata).toMatchObject({ source: "a", chunkCount: 2 });
+    });
+
+    it("removes chunks with delete and clear", async () => {
+        const store = new InMemoryVectorStore({ embeddings: new HashEmbeddingProvider() });
+        const ids = await store.addDocuments(documents);
+
+        store.delete([ids[0]]);
+        expect(store.size).toBe(2);
+        store.clear();
+        expect(await store.similaritySearch("refunds")).toEqual({ documents: [], scores: [] });
+    });
+
+    it("saves to and loads from a file", async () => {
+        const embeddings = new HashEmbeddingProvider();
+        const store = new InMemoryVectorStore({ embeddings });
+        await store.addDocuments(documents);
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "vector-store-"));
+        const filePath = path.join(tempDir, "index.json");
+
+        await store.save(filePath);
+        const loaded = await InMemoryVectorStore.load(filePath, { embeddings });
+
+        expect(loaded.toJSON()).toEqual(store.toJSON());
+        expect(await loaded.similaritySearch("refunds", { k: 1 })).toEqual(
+            await store.similaritySearch("refunds", { k: 1 })
+        );
+    });
+
+    it("refuses to load an index built with another embedding model", async () => {
+        const store = new InMemoryVectorStore({ embeddings: new HashEmbeddingProvider() });
+        await store.addDocuments(documents);
+
+        expect(() =>
+            InMemoryVectorStore.fromJSON(store.toJSON(), {
+                embeddings: new HashEmbeddingProvider({ model: "other" }),
+            })
+        ).toThrow("Vector store was built with hash/hash, but hash/other was provided");
+    });
+});
+
+describe("cosineSimilarity", () => {
+    it("scores identical, orthogonal and zero vectors", () => {
+        expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+        expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+        expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+    });
+});
@@ -0,0 +1,316 @@
+import { promises as fs } from "fs";
+import { randomUUID } from "crypto";
+import { IEmbeddingProvider } from "../core/providers/IEmbeddingProvider";
+import { Document, RetrievalResult, Retriever } from "../nodes/RAGNode";
+import { chunkText, ChunkingOptions } from "./chunking";
+
+/**
+ * A stored chunk with its embedding
+ */
+export type VectorStoreEntry = {
+    id: string;
+    content: string;
+    metadata?: Record<string, any>;
+    embedding: number[];
+};
+
+/**
+ * Serialized form of an InMemoryVectorStore, as written by save()
+ */
+export type SerializedVectorStore = {
+    version: 1;
+    embeddingProvider: string;
+    embeddingModel: string;
+    dimensions: number;
+    entries: VectorStoreEntry[];
+};
+
+/**
+ * Options for similarity search
+ */
+export type VectorSearchOptions = {
+    /** Number of results to return (default: 4) */
+    k?: number;
+    /** Minimum relevance score (0-1) a result must reach */
+    minScore?: number;
+    /** Only consider entries whose metadata passes this filter */
+    filter?: (metadata: Record<string, any>) => boolean;
+};
+
+/**
+ * InMemoryVectorStore
+ *
+ * A simple vector index that chunks and embeds documents with any
+ * IEmbeddingProvider and answers queries by cosine similarity.
+ *
+ * Key features:
+ * - Automatic chunking of long documents
+ * - Relevance scores in RetrievalResult
+ * - Drop-in retriever for RAGNode via asRetriever()
+ * - Serializable to disk so indexes can be built once and shipped
+ *
+ * Example use cases:
+ * - Small to medium knowledge bases that fit in memory
+ * - Pre-built indexes bundled with an application
+ * - Offline tests with HashEmbeddingProvider
+ */
+export class InMemoryVectorStore {
+    /**
+     * Embedding provider used for documents and queries
+     * @private
+     */
+    private embeddings: IEmbeddingProvider;
+
+    /**
+     * Chunking options, or false to store documents as-is
+     * @private
+     */
+    private chunking: ChunkingOptions | false;
+
+    /**
+     * Number of texts sent to the embedding provider per request
+     * @private
+     */
+    private batchSize: number;
+
+    /**
+     * Stored chunks
+     * @private
+     */
+    private entries: VectorStoreEntry[] = [];
+
+    /**
+     * Creates a new InMemoryVectorStore
+     *
+     * @param options Configuration options
+     * @param options.embeddings Embedding provider for documents and queries
+     * @param options.chunking Chunking options, or false to disable chunking (default: {})
+     * @param options.batchSize Texts per embedding request (default: 100)
+     */
+    constructor(options: {
+        embeddings: IEmbeddingProvider;
+        chunking?: ChunkingOptions | false;
+        batchSize?: number;
+    }) {
+        this.embeddings = options.embeddings;
+        this.chunking = options.chunking ?? {};
+        this.batchSize = options.batchSize ?? 100;
+    }
+
+    /**
+     * Number of stored chunks
+     */
+    get size(): number {
+        return this.entries.length;
+    }
+
+    /**
+     * Chunk, embed and store documents
+     *
+     * @param documents Documents to add
+     * @returns The ids of the stored chunks
+     */
+    async addDocuments(documents: Document[]): Promise<string[]> {
+        const chunks: Omit<VectorStoreEntry, "embedding">[] = [];
+
+        for (const document of documents) {
+            const contents =
+                this.chunking === false
+                    ? [document.content]
+                    : chunkText(document.content, this.chunking);
+
+            contents.forEach((content, chunkIndex) => {
+                chunks.push({
+                    id: randomUUID(),
+                    content,
+                    metadata:
+                        contents.length > 1
+                            ? { ...document.metadata, chunkIndex, chunkCount: contents.length }
+                            : document.metadata,
+                });
+            });
+        }
+
+        for (let i = 0; i < chunks.length; i += this.batchSize) {
+            const batch = chunks.slice(i, i + this.batchSize);
+            const { embeddings } = await this.embeddings.embed(
+                batch.map((chunk) => chunk.content),
+                "document"
+            );
+
+            batch.forEach((chunk, index) => {
+                const embedding = embeddings[index];
+                this.assertDimensions(embedding);
+                this.entries.push({ ...chunk, embedding });
+            });
+        }
+
+        return chunks.map((chunk) => chunk.id);
+    }
+
+    /**
+     * Find the stored chunks most similar to a query
+     *
+     * @param query The search query
+     * @param options Search options
+     * @returns Matching documents with relevance scores, best first
+     */
+    async similaritySearch(
+        query: string,
+        options: VectorSearchOptions = {}
+    ): Promise<RetrievalResult> {
+        const k = options.k ?? 4;
+
+        if (this.entries.length === 0) {
+            return { documents: [], scores: [] };
+        }
+
+        const { embeddings } = await this.embeddings.embed([query], "query");
+        const queryEmbedding = embeddings[0];
+        this.assertDimensions(queryEmbedding);
+
+        const ranked = this.entries
+            .filter((entry) => !options.filter || options.filter(entry.metadata ?? {}))
+            .map((entry) => ({
+                entry,
+                // Clamp to the 0-1 range RetrievalResult promises
+                score: Math.max(0, cosineSimilarity(queryEmbedding, entry.embedding)),
+            }))
+            .filter(({ score }) => options.minScore === undefined || score >= options.minScore)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, k);
+
+        return {
+            documents: ranked.map(({ entry }) => ({
+                content: entry.content,
+                metadata: { ...entry.metadata, id: entry.id },
+            })),
+            scores: ranked.map(({ score }) => score),
+        };
+    }
+
+    /**
+     * Create a retriever function for RAGNode
+     *
+     * @param defaults Search options used when the caller passes none
+     * @returns A retriever that searches this store
+     */
+    asRetriever(defaults: VectorSearchOptions = {}): Retriever {
+        return (query: string, options?: VectorSearchOptions) =>
+            this.similaritySearch(query, { ...defaults, ...options });
+    }
+
+    /**
+     * Remove chunks by id
+     */
+    delete(ids: string[]): void {
+        const toDelete = new Set(ids);
+        this.entries = this.entries.filter((entry) => !toDelete.has(entry.id));
+    }
+
+    /**
+     * Remove all chunks
+     */
+    clear(): void {
+        this.entries = [];
+    }
+
+    /**
+     * Serialize the store, including embeddings
+     */
+    toJSON(): SerializedVectorStore {
+        return {
+            version: 1,
+            embeddingProvider: this.embeddings.provider,
+            embeddingModel: this.embeddings.model,
+            dimensions: this.entries[0]?.embedding.length ?? 0,
+            entries: this.entries,
+        };
+    }
+
+    /**
+     * Write the store to a JSON file
+     */
+    async save(filePath: string): Promise<void> {
+        await fs.writeFile(filePath, JSON.stringify(this.toJSON()), "utf8");
+    }
+
+    /**
+     * Restore a store from serialized data.
+     * The embedding provider must use the same model the index was built with.
+     */
+    static fromJSON(
+        data: SerializedVectorStore,
+        options: {
+            embeddings: IEmbeddingProvider;
+            chunking?: ChunkingOptions | false;
+            batchSize?: number;
+        }
+    ): InMemoryVectorStore {
+        if (data.version !== 1) {
+            throw new Error(`Unsupported vector store version: ${data.version}`);
+        }
+        if (
+            data.embeddingProvider !== options.embeddings.provider ||
+            data.embeddingModel !== options.embeddings.model
+        ) {
+            throw new Error(
+                `Vector store was built with ${data.embeddingProvider}/${data.embeddingModel}, ` +
+                `but ${options.embeddings.provider}/${options.embeddings.model} was provided`
+            );
+        }
+
+        const store = new InMemoryVectorStore(options);
+        store.entries = [...data.entries];
+        return store;
+    }
+
+    /**
+     * Load a store previously written with save()
+     */
+    static async load(
+        filePath: string,
+        options: {
+            embeddings: IEmbeddingProvider;
+            chunking?: ChunkingOptions | false;
+            batchSize?: number;
+        }
+    ): Promise<InMemoryVectorStore> {
+        const contents = await fs.readFile(filePath, "utf8");
+        return InMemoryVectorStore.fromJSON(JSON.parse(contents), options);
+    }
+
+    /**
+     * Ensure an embedding matches the dimensionality of the stored entries
+     * @private
+     */
+    private assertDimensions(embedding: number[] | undefined): void {
+        if (!embedding || embedding.length === 0) {
+            throw new Error("Embedding provider returned an empty embedding");
+        }
+        const expected = this.entries[0]?.embedding.length;
+        if (expected !== undefined && embedding.length !== expected) {
+            throw new Error(
+                `Embedding has ${embedding.length} dimensions, expected ${expected}`
+            );
+        }
+    }
+}
+
+/**
+ * Cosine similarity of two equal-length vectors
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    if (normA === 0 || normB === 0) {
+        return 0;
+    }
+    return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "@jest/globals";
+import { chunkText } from "./chunking";
+
+describe("chunkText", () => {
+    it("returns short text as a single trimmed chunk", () => {
+        expect(chunkText("  A short note.  ")).toEqual(["A short note."]);
+        expect(chunkText("   ")).toEqual([]);
+    });
+
+    it("splits on paragraphs before sentences and words", () => {
+        const text = "First paragraph here.\n\nSecond paragraph here.";
+
+        expect(chunkText(text, { chunkSize: 30, chunkOverlap: 0 })).toEqual([
+            "First paragraph here.",
+            "Second paragraph here.",
+        ]);
+    });
+
+    it("keeps every chunk within chunkSize and repeats the overlap", () => {
+        const text = Array.from({ length: 40 }, (_, i) => `word${i}`).join(" ");
+
+        const chunks = chunkText(text, { chunkSize: 50, chunkOverlap: 10 });
+
+        expect(chunks.length).toBeGreaterThan(1);
+        chunks.forEach((chunk) => expect(chunk.length).toBeLessThanOrEqual(50));
+        for (let i = 1; i < chunks.length; i++) {
+            // Each chunk opens with the last two (possibly cut) words of the previous one
+            const overlap = chunks[i].split(" ").slice(0, 2).join(" ");
+            expect(chunks[i - 1].endsWith(overlap)).toBe(true);
+        }
+        expect(chunks[chunks.length - 1].endsWith("word39")).toBe(true);
+    });
+
+    it("cuts text without any separator at fixed positions", () => {
+        expect(chunkText("a".repeat(25), { chunkSize: 10, chunkOverlap: 0 })).toEqual([
+            "a".repeat(10),
+            "a".repeat(10),
+            "a".repeat(5),
+        ]);
+    });
+
+    it("rejects an overlap that is not smaller than chunkSize", () => {
+        expect(() => chunkText("text", { chunkSize: 10, chunkOverlap: 10 })).toThrow(
+            "chunkOverlap must be between 0 and chunkSize - 1"
+        );
+    });
+});
@@ -0,0 +1,88 @@
+/**
+ * Options for splitting text into chunks
+ */
+export type ChunkingOptions = {
+    /** Maximum chunk length in characters (default: 1000) */
+    chunkSize?: number;
+    /** Number of characters repeated between consecutive chunks (default: 200) */
+    chunkOverlap?: number;
+};
+
+/**
+ * Boundaries to split on, from coarsest to finest
+ */
+const SEPARATORS = ["\n\n", "\n", ". ", " "];
+
+/**
+ * Split text into overlapping chunks of at most `chunkSize` characters.
+ *
+ * Text is split on the coarsest boundary that keeps pieces under the size
+ * limit (paragraphs, then lines, sentences and words), and the pieces are
+ * greedily packed back together. Each chunk after the first starts with the
+ * tail of the previous chunk so context isn't lost at the boundaries.
+ */
+export function chunkText(text: string, options: ChunkingOptions = {}): string[] {
+    const chunkSize = options.chunkSize ?? 1000;
+    const chunkOverlap = options.chunkOverlap ?? 200;
+
+    if (chunkSize < 1) {
+        throw new Error("chunkSize must be at least 1");
+    }
+    if (chunkOverlap < 0 || chunkOverlap >= chunkSize) {
+        throw new Error("chunkOverlap must be between 0 and chunkSize - 1");
+    }
+
+    const trimmed = text.trim();
+    if (!trimmed) {
+        return [];
+    }
+    if (trimmed.length <= chunkSize) {
+        return [trimmed];
+    }
+
+    const pieces = splitIntoPieces(trimmed, chunkSize - chunkOverlap, 0);
+    const chunks: string[] = [];
+    let current = "";
+
+    for (const piece of pieces) {
+        if (current && current.length + piece.length > chunkSize) {
+            chunks.push(current.trim());
+            // Start the next chunk with the overlap from the previous one
+            current = chunkOverlap > 0 ? current.slice(-chunkOverlap) : "";
+        }
+        current += piece;
+    }
+
+    if (current.trim()) {
+        chunks.push(current.trim());
+    }
+
+    return chunks;
+}
+
+/**
+ * Recursively split text into pieces no longer than maxLength,
+ * keeping separators attached to the preceding piece
+ */
+function splitIntoPieces(text: string, maxLength: number, level: number): string[] {
+    if (text.length <= maxLength) {
+        return [text];
+    }
+
+    if (level >= SEPARATORS.length) {
+        // No boundary left to split on; cut at fixed positions
+        const pieces: string[] = [];
+        for (let i = 0; i < text.length; i += maxLength) {
+            pieces.push(text.slice(i, i + maxLength));
+        }
+        return pieces;
+    }
+
+    const separator = SEPARATORS[level];
+    const parts = text.split(separator);
+
+    return parts.flatMap((part, index) => {
+        const piece = index < parts.length - 1 ? part + separator : part;
+        return piece ? splitIntoPieces(piece, maxLength, level + 1) : [];
+    });
+}
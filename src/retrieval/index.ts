@@ -0,0 +1,15 @@
+/**
+ * Retrieval utilities
+ *
+ * This module exports building blocks for retrieval-augmented generation,
+ * usable as retrievers for RAGNode.
+ */
+
+export {
+    InMemoryVectorStore,
+    cosineSimilarity,
+    type VectorStoreEntry,
+    type SerializedVectorStore,
+    type VectorSearchOptions,
+} from "./InMemoryVectorStore";
+export { chunkText, type ChunkingOptions } from "./chunking";